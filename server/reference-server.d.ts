@@ -0,0 +1,6 @@
+export interface ReferenceServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export function startServer(options?: { port?: number; dataFile?: string | null }): Promise<ReferenceServer>;
@@ -0,0 +1,119 @@
+/**
+ * Reference Storage Server
+ * Minimal key-value document server implementing the protocol used by
+ * src/services/backends/RestBackend.ts, for local development and offline testing.
+ *
+ * Usage: node server/reference-server.js [--port 8787] [--data ./prompts-store.json]
+ * Without --data everything is kept in memory and lost when the server stops.
+ * Tests start it in-process with startServer().
+ */
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (request) => new Promise((resolve, reject) => {
+  let body = '';
+  request.setEncoding('utf8');
+  request.on('data', chunk => { body += chunk; });
+  request.on('end', () => resolve(body));
+  request.on('error', reject);
+});
+
+/**
+ * Starts the server; port 0 picks a free port. Resolves once it is listening.
+ */
+export const startServer = ({ port = 8787, dataFile = null } = {}) => new Promise((resolve, reject) => {
+  const items = new Map(
+    dataFile && existsSync(dataFile) ? Object.entries(JSON.parse(readFileSync(dataFile, 'utf8'))) : []
+  );
+
+  const persist = () => {
+    if (dataFile) {
+      writeFileSync(dataFile, JSON.stringify(Object.fromEntries(items)));
+    }
+  };
+
+  const server = createServer(async (request, response) => {
+    const { pathname } = new URL(request.url, 'http://localhost');
+
+    try {
+      if (request.method === 'OPTIONS') {
+        return send(response, 204);
+      }
+
+      if (pathname === '/health' && request.method === 'GET') {
+        return send(response, 200, { ok: true, items: items.size });
+      }
+
+      if (pathname === '/items') {
+        if (request.method === 'GET') {
+          return send(response, 200, [...items.keys()]);
+        }
+        if (request.method === 'DELETE') {
+          items.clear();
+          persist();
+          return send(response, 204);
+        }
+      }
+
+      const match = pathname.match(/^\/items\/(.+)$/);
+      if (match) {
+        const key = decodeURIComponent(match[1]);
+
+        if (request.method === 'GET') {
+          return items.has(key) ? send(response, 200, items.get(key)) : send(response, 404, { error: 'Not found' });
+        }
+        if (request.method === 'PUT') {
+          items.set(key, JSON.parse(await readBody(request)));
+          persist();
+          return send(response, 204);
+        }
+        if (request.method === 'DELETE') {
+          const existed = items.delete(key);
+          persist();
+          return send(response, existed ? 204 : 404, existed ? undefined : { error: 'Not found' });
+        }
+      }
+
+      send(response, 404, { error: 'Not found' });
+    } catch (error) {
+      send(response, 400, { error: error instanceof Error ? error.message : 'Bad request' });
+    }
+  });
+
+  server.once('error', reject);
+  server.listen(port, () => {
+    const url = `http://localhost:${server.address().port}`;
+    resolve({
+      url,
+      close: () => new Promise(done => {
+        server.close(() => done());
+        server.closeAllConnections();
+      }),
+    });
+  });
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const args = process.argv.slice(2);
+  const option = (name, fallback) => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? fallback : args[index + 1];
+  };
+  const dataFile = option('data', null);
+
+  startServer({ port: Number(option('port', process.env.PORT ?? 8787)), dataFile }).then(({ url }) => {
+    console.log(`Reference storage server listening on ${url}${dataFile ? ` (data: ${dataFile})` : ' (in memory)'}`);
+  });
+}
@@ -1,8 +1,10 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import TiptapEditor from './components/Editor/TiptapEditor';
 import MarkdownPreview from './components/Preview/MarkdownPreview';
+import UndoHistoryMenu from './components/Editor/UndoHistoryMenu';
 import { useTheme } from './hooks/useTheme';
 import { useVersioning } from './hooks/useVersioning';
+import { usePartials } from './hooks/usePartials';
 import type { ContentState } from './types/editor';
 
 // Layout Components
@@ -13,7 +15,11 @@ import Toolbar from './components/Layout/Toolbar';
 import StatusBar from './components/Layout/StatusBar';
 
 // Versioning Components
-import { PromptManager } from './components/Versions';
+import { PromptManager, ConflictDialog, MemoryStorageBanner, UnlockDialog } from './components/Versions';
+import { BlameView } from './components/Blame';
+import { VariablesPanel } from './components/Variables';
+import { TokenCounter } from './components/Tokens';
+import { checkVariableSchema, findVariables } from './utils/variables';
 
 // Import design tokens
 import './styles/design-tokens.css';
@@ -36,16 +42,49 @@ function App() {
   const {
     documentState,
     saveVersion,
+    mergeVersion,
     loadVersion,
     deleteVersion,
+    pinVersion,
+    setVersionTags,
+    moveVersionLabel,
+    setVariableSets,
+    setVariableSchema,
+    setDocumentName,
     updateContent,
+    clearContent,
+    undoHistory,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    goToUndoStep,
     hasUnsavedChanges,
     loadDocumentFromStorage,
     createNewDocument,
     isLoading,
     error,
+    conflict,
+    resolveConflict,
+    storageStatus,
+    unlockStorage,
   } = useVersioning('');
 
+  // Whether the blame view replaces the preview
+  const [showBlame, setShowBlame] = useState(false);
+
+  // Text selected in the editor, counted in the status bar
+  const [selectedText, setSelectedText] = useState('');
+
+  // The prompt with its {{> partial}} includes expanded, as it will be filled in and sent
+  const partials = usePartials(documentState);
+
+  // Template variables and the saved values that fill them in
+  const variables = findVariables(partials.content);
+  const variableSets = documentState.variableSets ?? [];
+  const activeVariableSet = variableSets.find(set => set.id === documentState.activeVariableSetId) ?? variableSets[0];
+  const variableSchema = documentState.variableSchema ?? [];
+
   // Handle content changes from editor
   const handleContentChange = (newContent: ContentState) => {
     updateContent(newContent.html);
@@ -53,17 +92,17 @@ function App() {
 
   // Handle loading sample content
   const handleLoadSample = async () => {
-    await updateContent(sampleContent);
+    await updateContent(sampleContent, 'sample');
   };
 
   // Handle clearing content
   const handleClearContent = async () => {
-    await updateContent('');
+    await clearContent();
   };
 
   // Handle saving version
-  const handleSaveVersion = async (content: string, name?: string) => {
-    await saveVersion(content, name);
+  const handleSaveVersion = async (content: string, name?: string, note?: string) => {
+    await saveVersion(content, name, note);
   };
 
   // Sample LLM prompt content for testing
@@ -188,6 +227,8 @@ Write a comprehensive blog post about "The Future of AI in Software Development"
         </div>
       </header>
 
+      {!storageStatus.persistent && <MemoryStorageBanner reason={storageStatus.reason} />}
+
       {/* Main Content Area */}
       <MainContent className="flex-1 flex flex-col w-full">
         {/* Toolbar */}
@@ -218,6 +259,31 @@ Write a comprehensive blog post about "The Future of AI in Software Development"
                 <span className="hidden sm:inline">Clear</span>
                 <span className="sm:hidden">Clear</span>
               </button>
+
+              <button
+                onClick={() => setShowBlame(show => !show)}
+                className={`inline-flex items-center px-3 py-2 sm:px-4 font-medium rounded-lg border focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-normal shadow-elevation-1 hover:shadow-elevation-2 text-body-small ${
+                  showBlame
+                    ? 'bg-primary-50 text-primary-700 border-primary-200'
+                    : 'bg-surface-primary text-text-primary border-primary hover:bg-surface-secondary'
+                }`}
+                title={showBlame ? 'Show the preview' : 'Show which version last changed each line'}
+                aria-pressed={showBlame}
+              >
+                <svg className="w-4 h-4 mr-1 sm:mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h10M4 18h7m9-4v6m-3-3h6" />
+                </svg>
+                <span>Blame</span>
+              </button>
+
+              <UndoHistoryMenu
+                history={undoHistory}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={undo}
+                onRedo={redo}
+                onGoToStep={goToUndoStep}
+              />
             </div>
 
             {/* Divider - Hidden on mobile */}
@@ -231,8 +297,19 @@ Write a comprehensive blog post about "The Future of AI in Software Development"
                 onLoadVersion={loadVersion}
                 onDeleteVersion={deleteVersion}
                 onSaveVersion={handleSaveVersion}
+                onMergeVersion={async (content, mergeParentId, name) => {
+                  await mergeVersion(content, mergeParentId, name);
+                }}
+                onPinVersion={pinVersion}
+                onSetVersionTags={setVersionTags}
+                onMoveVersionLabel={moveVersionLabel}
                 currentDocumentId={documentState.id}
+                currentDocumentName={documentState.name}
+                onRenameDocument={setDocumentName}
                 currentContent={documentState.content}
+                currentVersions={documentState.versions}
+                currentLabelHistory={documentState.labelHistory ?? []}
+                baseVersionId={documentState.baseVersionId}
                 hasUnsavedChanges={hasUnsavedChanges()}
               />
             </div>
@@ -240,13 +317,7 @@ Write a comprehensive blog post about "The Future of AI in Software Development"
         </Toolbar>
         <StatusBar>
           <div className="flex items-center space-md">
-            <div className="flex items-center space-sm text-body-small text-secondary">
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-              </svg>
-              <span className="font-medium">{Math.ceil(documentState.content.length / 4)}</span>
-              <span>tokens</span>
-            </div>
+            <TokenCounter content={partials.content} selection={selectedText} />
             {documentState.content.length > 0 && (
               <div className="flex items-center space-sm text-body-small text-secondary">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -298,6 +369,10 @@ Write a comprehensive blog post about "The Future of AI in Software Development"
                 initialContent={documentState.content}
                 onContentChange={handleContentChange}
                 onSaveVersion={() => saveVersion(documentState.content)}
+                onUndo={undo}
+                onRedo={redo}
+                onSelectionChange={setSelectedText}
+                variableWarnings={checkVariableSchema(variables, variableSchema)}
                 config={{
                   placeholder: "Write your LLM prompt here...",
                   theme: theme.current,
@@ -307,16 +382,41 @@ Write a comprehensive blog post about "The Future of AI in Software Development"
 
             preview={
               <MarkdownPreview
-                content={documentState.content}
-                
+                content={partials.content}
+                partialProblems={partials.problems}
+                partialSegments={partials.segments}
+                variableValues={variables.length > 0 ? activeVariableSet?.values ?? {} : undefined}
+                variableSchema={variableSchema}
               />
             }
+
+            blame={showBlame ? (
+              <BlameView
+                versions={documentState.versions}
+                baseVersionId={documentState.baseVersionId}
+                content={documentState.content}
+              />
+            ) : undefined}
+
+            sidebar={variables.length > 0 || variableSets.length > 0 || variableSchema.length > 0 ? (
+              <VariablesPanel
+                variables={variables}
+                variableSets={variableSets}
+                activeVariableSetId={activeVariableSet?.id}
+                schema={variableSchema}
+                onChange={setVariableSets}
+                onSchemaChange={setVariableSchema}
+              />
+            ) : undefined}
           />
         </div>
 
         {/* Status Bar */}
        
       </MainContent>
+
+      {conflict && <ConflictDialog onResolve={resolveConflict} />}
+      {storageStatus.locked && <UnlockDialog onUnlock={unlockStorage} />}
     </AppLayout>
   );
 }
@@ -0,0 +1,134 @@
+/**
+ * BlameView Component
+ * Shows the current content with each run of lines annotated by the version
+ * that last changed it; clicking an annotation opens that change in the diff viewer
+ */
+
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import type { Version } from '../../types/editor';
+import { blameLines } from '../../utils/blame';
+import { findPreviousVersion, getVersionLabel } from '../../utils/versions';
+import { DiffDialog, CURRENT_SOURCE_ID } from '../Diff';
+import type { DiffSource } from '../Diff';
+
+interface BlameViewProps {
+  versions: Version[];
+  baseVersionId?: string;
+  content: string;
+  className?: string;
+}
+
+interface BlameHunk {
+  versionId: string | null;
+  startLine: number; // 1-based
+  lines: string[];
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export const BlameView: React.FC<BlameViewProps> = ({ versions, baseVersionId, content, className = '' }) => {
+  // Blaming walks the whole history, so let typing stay ahead of it
+  const deferredContent = useDeferredValue(content);
+  const [compare, setCompare] = useState<{ beforeId: string; afterId: string } | null>(null);
+
+  const base = versions.find(v => v.id === baseVersionId) ?? versions[0] ?? null;
+  const hunks = useMemo(() => {
+    const result: BlameHunk[] = [];
+    blameLines(versions, base, deferredContent).forEach((line, index) => {
+      const last = result[result.length - 1];
+      if (last && last.versionId === line.versionId) {
+        last.lines.push(line.text);
+      } else {
+        result.push({ versionId: line.versionId, startLine: index + 1, lines: [line.text] });
+      }
+    });
+    return result;
+  }, [versions, base, deferredContent]);
+
+  const diffSources: DiffSource[] = [
+    { id: CURRENT_SOURCE_ID, label: 'Current content', content },
+    ...versions.map(version => ({
+      id: version.id,
+      label: `${getVersionLabel(version)} · ${formatDate(version.createdAt)}`,
+      content: version.content,
+    })),
+  ];
+
+  // Show what the annotated version changed, or for unsaved lines what changed since the base
+  const openChange = (versionId: string | null) => {
+    if (versionId === null) {
+      if (base) setCompare({ beforeId: base.id, afterId: CURRENT_SOURCE_ID });
+      return;
+    }
+    const version = versions.find(v => v.id === versionId);
+    const previous = version ? findPreviousVersion(versions, version) : null;
+    setCompare(previous
+      ? { beforeId: previous.id, afterId: versionId }
+      : { beforeId: versionId, afterId: CURRENT_SOURCE_ID });
+  };
+
+  return (
+    <div className={`h-full flex flex-col bg-surface-primary ${className}`}>
+      <div className="flex items-center justify-between px-4 py-2 border-b border-primary">
+        <h3 className="text-body font-medium text-primary">Blame</h3>
+        <span className="text-caption text-tertiary">Click a version to see what it changed</span>
+      </div>
+
+      <div className="flex-1 overflow-auto" role="table" aria-label="Lines annotated with the version that last changed them">
+        {hunks.length === 0 ? (
+          <p className="text-body-small text-secondary text-center py-8">Nothing to blame yet</p>
+        ) : hunks.map((hunk, index) => {
+          const version = hunk.versionId !== null ? versions.find(v => v.id === hunk.versionId) : undefined;
+          return (
+            <div
+              key={hunk.startLine}
+              role="row"
+              className={`flex border-b border-primary ${index % 2 === 1 ? 'bg-surface-secondary' : ''}`}
+            >
+              <div role="cell" className="w-44 flex-shrink-0 px-2 py-1 border-r border-primary">
+                <button
+                  onClick={() => openChange(hunk.versionId)}
+                  disabled={hunk.versionId === null && !base}
+                  className="w-full text-left rounded hover:bg-surface-tertiary transition-normal disabled:cursor-default"
+                  title={version?.note ?? version?.suggestedNote ?? (version ? 'Show this version\'s changes' : 'Show unsaved changes')}
+                >
+                  <span className="block text-caption font-medium text-primary truncate">
+                    {version ? getVersionLabel(version) : 'Unsaved changes'}
+                  </span>
+                  {version && (
+                    <span className="block text-caption text-tertiary truncate">{formatDate(version.createdAt)}</span>
+                  )}
+                </button>
+              </div>
+              <div role="cell" className="flex-1 min-w-0 py-1 font-mono text-body-small">
+                {hunk.lines.map((line, offset) => (
+                  <div key={offset} className="flex">
+                    <span className="w-10 flex-shrink-0 pr-2 text-right text-tertiary select-none">{hunk.startLine + offset}</span>
+                    <span className="whitespace-pre-wrap break-words text-primary">{line || ' '}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {compare && (
+        <DiffDialog
+          sources={diffSources}
+          initialBeforeId={compare.beforeId}
+          initialAfterId={compare.afterId}
+          onClose={() => setCompare(null)}
+        />
+      )}
+    </div>
+  );
+};
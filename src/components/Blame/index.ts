@@ -0,0 +1 @@
+export { BlameView } from './BlameView';
@@ -0,0 +1,80 @@
+/**
+ * DiffDialog Component
+ * Lets the user pick any two versions (or the current content) and compare them
+ */
+
+import React, { useState } from 'react';
+import { Dialog } from '../Layout/Dialog';
+import { DiffViewer } from './DiffViewer';
+
+// ID of the source standing for the editor's current content
+export const CURRENT_SOURCE_ID = 'current';
+
+export interface DiffSource {
+  id: string;
+  label: string;
+  content: string;
+}
+
+interface DiffDialogProps {
+  sources: DiffSource[];
+  initialBeforeId: string;
+  initialAfterId: string;
+  onClose: () => void;
+}
+
+const selectClassName = 'w-full px-2 py-1 text-body-small border border-primary rounded bg-surface-primary text-text-primary';
+
+export const DiffDialog: React.FC<DiffDialogProps> = ({ sources, initialBeforeId, initialAfterId, onClose }) => {
+  const [beforeId, setBeforeId] = useState(initialBeforeId);
+  const [afterId, setAfterId] = useState(initialAfterId);
+
+  const before = sources.find(source => source.id === beforeId) ?? sources[0];
+  const after = sources.find(source => source.id === afterId) ?? sources[0];
+
+  const renderSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="flex-1 min-w-0 space-y-1">
+      <span className="block text-caption text-secondary">{label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClassName}>
+        {sources.map(source => (
+          <option key={source.id} value={source.id}>{source.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <Dialog title="Compare versions" onClose={onClose} className="max-w-5xl">
+      <div className="space-y-3">
+        <div className="flex items-end gap-2">
+          {renderSelect('Before', before?.id ?? '', setBeforeId)}
+          <button
+            onClick={() => {
+              setBeforeId(afterId);
+              setAfterId(beforeId);
+            }}
+            className="p-2 text-secondary hover:text-primary hover:bg-surface-secondary rounded-lg transition-normal"
+            title="Swap before and after"
+            aria-label="Swap before and after"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+            </svg>
+          </button>
+          {renderSelect('After', after?.id ?? '', setAfterId)}
+        </div>
+
+        {before && after && (
+          <DiffViewer
+            before={before.content}
+            after={after.content}
+            beforeLabel={before.label}
+            afterLabel={after.label}
+          />
+        )}
+      </div>
+    </Dialog>
+  );
+};
+
+export default DiffDialog;
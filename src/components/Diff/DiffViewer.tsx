@@ -0,0 +1,186 @@
+/**
+ * DiffViewer Component
+ * Shows what changed between two texts by line, word or markdown section,
+ * side by side or inline, with an added/removed summary
+ */
+
+import React, { useMemo, useState } from 'react';
+import { diffText, pairRows, summarizeDiff } from '../../utils/diff';
+import type { DiffGranularity, DiffOp, DiffRow } from '../../utils/diff';
+import './DiffViewer.css';
+
+export type DiffLayout = 'side-by-side' | 'inline';
+
+interface DiffViewerProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+  className?: string;
+}
+
+const GRANULARITIES: Array<{ key: DiffGranularity; label: string; unit: string }> = [
+  { key: 'line', label: 'Lines', unit: 'line' },
+  { key: 'word', label: 'Words', unit: 'word' },
+  { key: 'section', label: 'Sections', unit: 'section' },
+];
+
+const LAYOUTS: Array<{ key: DiffLayout; label: string }> = [
+  { key: 'side-by-side', label: 'Side by side' },
+  { key: 'inline', label: 'Inline' },
+];
+
+const ROW_CLASSES: Record<DiffRow['type'], { before: string; after: string }> = {
+  equal: { before: '', after: '' },
+  insert: { before: 'bg-surface-secondary', after: 'bg-success-50' },
+  delete: { before: 'bg-error-50', after: 'bg-surface-secondary' },
+  change: { before: 'bg-error-50', after: 'bg-success-50' },
+};
+
+// Lines keep their newline so the diff is exact; drop it for display
+const displayText = (item: string) => item.replace(/\n$/, '') || ' ';
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+/**
+ * Render word-level ops, optionally keeping only one side's changes
+ */
+const renderWords = (ops: DiffOp<string>[], side?: 'before' | 'after') =>
+  ops.map((op, i) => {
+    const text = op.items.join('');
+    if (op.type === 'equal') return <span key={i}>{text}</span>;
+    if (op.type === 'delete' && side !== 'after') return <del key={i} className="diff-word-delete">{text}</del>;
+    if (op.type === 'insert' && side !== 'before') return <ins key={i} className="diff-word-insert">{text}</ins>;
+    return null;
+  });
+
+const SegmentedControl = <T extends string>({
+  options,
+  value,
+  onChange,
+  label,
+}: {
+  options: Array<{ key: T; label: string }>;
+  value: T;
+  onChange: (value: T) => void;
+  label: string;
+}) => (
+  <div className="inline-flex rounded-lg border border-primary overflow-hidden" role="group" aria-label={label}>
+    {options.map(option => (
+      <button
+        key={option.key}
+        onClick={() => onChange(option.key)}
+        aria-pressed={value === option.key}
+        className={`px-2 py-1 text-caption font-medium transition-normal ${
+          value === option.key
+            ? 'bg-primary-600 text-white'
+            : 'text-secondary hover:text-primary hover:bg-surface-secondary'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export const DiffViewer: React.FC<DiffViewerProps> = ({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+  className = '',
+}) => {
+  const [granularity, setGranularity] = useState<DiffGranularity>('line');
+  const [layout, setLayout] = useState<DiffLayout>('side-by-side');
+
+  const ops = useMemo(() => diffText(before, after, granularity), [before, after, granularity]);
+  const summary = useMemo(() => summarizeDiff(ops), [ops]);
+  // Word diffs are shown side by side as changed lines with their words marked
+  const rows = useMemo(
+    () => (layout === 'side-by-side' ? pairRows(granularity === 'word' ? diffText(before, after, 'line') : ops) : []),
+    [layout, granularity, before, after, ops]
+  );
+
+  const unit = GRANULARITIES.find(g => g.key === granularity)!.unit;
+  const unchanged = summary.added === 0 && summary.removed === 0;
+
+  const renderSide = (row: DiffRow, side: 'before' | 'after') => {
+    const text = row[side];
+    if (text === null) return ' ';
+    if (granularity === 'word' && row.type === 'change') {
+      return renderWords(diffText(row.before!, row.after!, 'word'), side);
+    }
+    return displayText(text);
+  };
+
+  return (
+    <div className={`diff-viewer space-y-3 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-body-small text-secondary" aria-live="polite">
+          {unchanged ? (
+            'No differences'
+          ) : (
+            <>
+              <span className="text-success-600 font-medium">+{plural(summary.added, unit)}</span>
+              {' '}
+              <span className="text-error-600 font-medium">−{plural(summary.removed, unit)}</span>
+            </>
+          )}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <SegmentedControl options={GRANULARITIES} value={granularity} onChange={setGranularity} label="Compare by" />
+          <SegmentedControl options={LAYOUTS} value={layout} onChange={setLayout} label="Layout" />
+        </div>
+      </div>
+
+      {layout === 'side-by-side' ? (
+        <div className="border border-primary rounded-lg overflow-hidden text-body-small font-mono">
+          <div className="grid grid-cols-2 border-b border-primary bg-surface-secondary text-caption text-secondary">
+            <div className="px-2 py-1 truncate border-r border-primary">{beforeLabel}</div>
+            <div className="px-2 py-1 truncate">{afterLabel}</div>
+          </div>
+          {rows.map((row, i) => (
+            <div key={i} className="grid grid-cols-2">
+              <div className={`diff-text px-2 border-r border-primary text-primary ${ROW_CLASSES[row.type].before}`}>
+                {renderSide(row, 'before')}
+              </div>
+              <div className={`diff-text px-2 text-primary ${ROW_CLASSES[row.type].after}`}>
+                {renderSide(row, 'after')}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : granularity === 'word' ? (
+        <div className="diff-text p-2 border border-primary rounded-lg text-body-small font-mono text-primary">
+          {renderWords(ops)}
+        </div>
+      ) : (
+        <div className="border border-primary rounded-lg overflow-hidden text-body-small font-mono">
+          <div className="px-2 py-1 border-b border-primary bg-surface-secondary text-caption text-secondary truncate">
+            {beforeLabel} → {afterLabel}
+          </div>
+          {ops.flatMap((op, i) =>
+            op.items.map((item, j) => (
+              <div
+                key={`${i}-${j}`}
+                className={`flex ${op.type === 'insert' ? 'bg-success-50' : op.type === 'delete' ? 'bg-error-50' : ''}`}
+              >
+                <span
+                  className={`w-6 flex-shrink-0 text-center select-none ${
+                    op.type === 'insert' ? 'text-success-600' : op.type === 'delete' ? 'text-error-600' : 'text-tertiary'
+                  }`}
+                  aria-hidden="true"
+                >
+                  {op.type === 'insert' ? '+' : op.type === 'delete' ? '−' : ' '}
+                </span>
+                <span className="diff-text flex-1 pr-2 text-primary">{displayText(item)}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffViewer;
@@ -0,0 +1,3 @@
+export { DiffViewer } from './DiffViewer';
+export { DiffDialog, CURRENT_SOURCE_ID } from './DiffDialog';
+export type { DiffSource } from './DiffDialog';
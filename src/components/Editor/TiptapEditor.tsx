@@ -8,7 +8,7 @@ import type { EditorComponentProps } from '../../types/editor';
 import { useEditorShortcuts } from '../../hooks/useEditor';
 
 export const TiptapEditor: React.FC<EditorComponentProps> = (props) => {
-  const { onContentChange, initialContent = '', className = '', 'data-testid': testId, onSaveVersion } = props;
+  const { onContentChange, initialContent = '', className = '', 'data-testid': testId, onSaveVersion, onUndo, onRedo, variableWarnings = [], onSelectionChange } = props;
   const [content, setContent] = useState(initialContent);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -28,6 +28,22 @@ export const TiptapEditor: React.FC<EditorComponentProps> = (props) => {
     }
   };
 
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) go to the app's undo history, which survives reloads
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    const action = key === 'z' ? (e.shiftKey ? onRedo : onUndo) : key === 'y' ? onRedo : undefined;
+    if (action) {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart, selectionEnd } = e.currentTarget;
+    onSelectionChange?.(value.slice(selectionStart, selectionEnd));
+  };
+
   // Auto-resize textarea based on content
   useEffect(() => {
     if (textareaRef.current) {
@@ -44,6 +60,10 @@ export const TiptapEditor: React.FC<EditorComponentProps> = (props) => {
   const hasExamples = content.includes('Example:') || content.includes('Sample:');
   const hasConstraints = content.includes('Constraints:') || content.includes('Requirements:');
 
+  // Variables out of step with the declared schema
+  const undeclaredVariables = variableWarnings.filter(w => w.kind === 'undeclared').map(w => w.variable);
+  const unusedVariables = variableWarnings.filter(w => w.kind === 'unused').map(w => w.variable);
+
   return (
     <div 
       className={`h-full min-h-[200px] md:min-h-[400px] flex flex-col bg-surface-primary border border-primary   overflow-y-auto rounded-lg shadow-elevation-1 ${className}`} 
@@ -80,6 +100,22 @@ export const TiptapEditor: React.FC<EditorComponentProps> = (props) => {
                   Constraints
                 </span>
               )}
+              {undeclaredVariables.length > 0 && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-caption bg-warning-50 text-warning-600 border border-warning-200"
+                  title={`Used but not declared: ${undeclaredVariables.join(', ')}`}
+                >
+                  {undeclaredVariables.length} undeclared
+                </span>
+              )}
+              {unusedVariables.length > 0 && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-caption bg-warning-50 text-warning-600 border border-warning-200"
+                  title={`Declared but not used: ${unusedVariables.join(', ')}`}
+                >
+                  {unusedVariables.length} unused
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -91,6 +127,8 @@ export const TiptapEditor: React.FC<EditorComponentProps> = (props) => {
           ref={textareaRef}
           value={content} 
           onChange={handleChange} 
+          onKeyDown={handleKeyDown}
+          onSelect={handleSelect}
           placeholder="Write your markdown prompt here..." 
           className="w-full outline-none resize-none bg-transparent text-primary placeholder:text-tertiary font-mono min-h-[200px]"
           style={{ fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace' }} 
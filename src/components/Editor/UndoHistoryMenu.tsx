@@ -0,0 +1,107 @@
+/**
+ * UndoHistoryMenu Component
+ * Undo and redo buttons with a list of the open prompt's undo steps
+ */
+
+import React, { useState } from 'react';
+import type { UndoHistory } from '../../services/undoHistory';
+
+interface UndoHistoryMenuProps {
+  history: UndoHistory;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoToStep: (position: number) => void;
+  className?: string;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const buttonClass = 'inline-flex items-center px-2 py-2 bg-surface-primary text-text-primary font-medium rounded-lg border border-primary hover:bg-surface-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-normal shadow-elevation-1 hover:shadow-elevation-2 text-body-small disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const UndoHistoryMenu: React.FC<UndoHistoryMenuProps> = ({
+  history,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onGoToStep,
+  className = '',
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className={`relative inline-flex items-center gap-1 ${className}`}>
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClass} title="Undo (Ctrl+Z)" aria-label="Undo">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className={buttonClass} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+        </svg>
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={buttonClass}
+        title="Undo history"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4 sm:mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <span className="hidden sm:inline">History</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-surface-primary border border-primary rounded-lg shadow-elevation-3 z-50 max-h-96 overflow-y-auto">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-primary">
+            <h3 className="text-body font-medium text-primary">Undo history</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="text-secondary hover:text-primary transition-normal"
+              aria-label="Close undo history"
+            >
+              ×
+            </button>
+          </div>
+          <ol className="py-1">
+            {history.entries.map((entry, position) => ({ entry, position })).reverse().map(({ entry, position }) => {
+              const isCurrent = position === history.position;
+              const isUndone = position > history.position;
+              return (
+                <li key={position}>
+                  <button
+                    onClick={() => onGoToStep(position)}
+                    disabled={isCurrent}
+                    className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-body-small transition-normal ${
+                      isCurrent
+                        ? 'bg-primary-50 text-primary-700 font-medium cursor-default'
+                        : 'hover:bg-surface-secondary text-primary'
+                    } ${isUndone ? 'opacity-60' : ''}`}
+                    title={isUndone ? 'Redo up to this step' : isCurrent ? 'Current state' : 'Undo back to this step'}
+                  >
+                    <span className={`truncate ${isUndone ? 'line-through' : ''}`}>{entry.label}</span>
+                    <span className="text-caption text-tertiary flex-shrink-0">{formatDate(entry.createdAt)}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UndoHistoryMenu;
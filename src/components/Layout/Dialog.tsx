@@ -0,0 +1,77 @@
+/**
+ * Dialog Component
+ * Modal overlay with a titled panel; closes on Escape or backdrop click.
+ * Without onClose the dialog can only be left through its own actions.
+ */
+
+import React, { useEffect, useId } from 'react';
+import type { ReactNode } from 'react';
+
+interface DialogProps {
+  title: string;
+  onClose?: () => void;
+  children: ReactNode;
+  footer?: ReactNode;
+  className?: string;
+}
+
+export const Dialog: React.FC<DialogProps> = ({ title, onClose, children, footer, className = '' }) => {
+  const titleId = useId();
+
+  useEffect(() => {
+    if (!onClose) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[var(--z-modal)] flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className={`w-full max-w-2xl max-h-[85vh] flex flex-col bg-surface-primary border border-primary rounded-lg shadow-elevation-3 ${className}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-primary">
+          <h3 id={titleId} className="text-heading-4 font-semibold text-primary">{title}</h3>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-2 text-secondary hover:text-primary hover:bg-surface-secondary rounded-lg transition-normal"
+              aria-label="Close dialog"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {children}
+        </div>
+
+        {footer && (
+          <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-primary">
+            {footer}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Dialog;
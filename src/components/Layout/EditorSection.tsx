@@ -9,12 +9,16 @@ import type { ReactNode } from 'react';
 interface EditorSectionProps {
   editor: ReactNode;
   preview: ReactNode;
+  blame?: ReactNode; // shown in place of the preview while set
+  sidebar?: ReactNode; // narrow panel after the preview
   className?: string;
 }
 
 export const EditorSection: React.FC<EditorSectionProps> = ({ 
   editor, 
   preview, 
+  blame,
+  sidebar,
   className = '' 
 }) => {
   return (
@@ -27,8 +31,15 @@ export const EditorSection: React.FC<EditorSectionProps> = ({
 
         {/* Preview Panel */}
         <div className="preview-panel w-full h-full">
-          {preview}
+          {blame ?? preview}
         </div>
+
+        {/* Sidebar Panel */}
+        {sidebar && (
+          <aside className="w-full lg:w-72 lg:flex-shrink-0 h-full">
+            {sidebar}
+          </aside>
+        )}
       </div>
     </section>
   );
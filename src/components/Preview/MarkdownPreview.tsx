@@ -3,14 +3,54 @@
  * Renders markdown content with live preview using react-markdown
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import type { PreviewComponentProps } from '../../types/editor';
+import type { ExpansionSegment } from '../../services/template';
+import { fillVariables, splitVariables } from '../../utils/variables';
 
-export const MarkdownPreview: React.FC<PreviewComponentProps> = (props) => {
-  const { content, config = {}, className = '', 'data-testid': testId } = props;
+interface MarkdownPreviewProps extends PreviewComponentProps {
+  partialSegments?: ExpansionSegment[]; // where expanded content came from, to locate template errors
+}
+
+// The parts of a markdown syntax tree the variable highlighter looks at
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: { hName?: string; hProperties?: Record<string, unknown> };
+}
+
+/**
+ * Remark plugin that wraps the {{variables}} left in text in <mark> elements
+ */
+const remarkUnfilledVariables = () => (tree: MarkdownNode) => {
+  markVariables(tree);
+};
+
+function markVariables(node: MarkdownNode): void {
+  if (!node.children) return;
+  node.children = node.children.flatMap(child => {
+    if (child.type !== 'text' || !child.value) {
+      markVariables(child);
+      return [child];
+    }
+    return splitVariables(child.value).map(part => typeof part === 'string'
+      ? { type: 'text', value: part }
+      : { type: 'text', value: `{{${part.variable}}}`, data: { hName: 'mark', hProperties: { title: `${part.variable} has no value` } } });
+  });
+}
+
+export const MarkdownPreview: React.FC<MarkdownPreviewProps> = (props) => {
+  const { content: source, config = {}, className = '', 'data-testid': testId, variableValues, variableSchema, partialProblems = [], partialSegments = [] } = props;
   const { githubFlavoredMarkdown = true } = config;
+  const [showFilled, setShowFilled] = useState(false);
+
+  // Filled in, the prompt is shown as it would be sent, with any variables still missing a value marked
+  const isFilled = showFilled && variableValues !== undefined;
+  const filled = isFilled ? fillVariables(source, variableValues, variableSchema, partialSegments) : null;
+  const content = filled ? filled.text : source;
 
   // Check if content is empty
   const isEmpty = !content || content.trim().length === 0;
@@ -54,12 +94,66 @@ export const MarkdownPreview: React.FC<PreviewComponentProps> = (props) => {
             </div>
           </div>
 
-         
+          {variableValues !== undefined && (
+            <div className="flex items-center space-sm flex-shrink-0">
+              {filled?.error && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-caption bg-error-50 text-error-600 border border-error-200"
+                  title={filled.error.message}
+                >
+                  Template error
+                </span>
+              )}
+              {filled && filled.unfilled.length > 0 && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-caption bg-warning-50 text-warning-600 border border-warning-200"
+                  title={filled.unfilled.join(', ')}
+                >
+                  {filled.unfilled.length} unfilled
+                </span>
+              )}
+              {filled && filled.invalid.length > 0 && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-caption bg-error-50 text-error-600 border border-error-200"
+                  title={filled.invalid.map(issue => `${issue.variable}: ${issue.message}`).join('\n')}
+                >
+                  {filled.invalid.length} invalid
+                </span>
+              )}
+              <button
+                onClick={() => setShowFilled(!showFilled)}
+                aria-pressed={isFilled}
+                className={`px-2 py-1 text-caption font-medium rounded-lg border transition-normal ${
+                  isFilled
+                    ? 'bg-primary-50 text-primary-700 border-primary-200'
+                    : 'border-primary text-primary hover:bg-surface-primary'
+                }`}
+                title="Show the prompt with variable values filled in"
+              >
+                Filled in
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
       {/* Preview Content */}
       <div className="flex-1 p-4 max-h-[60vh] overflow-y-auto">
+        {partialProblems.length > 0 && (
+          <div className="mb-4 p-3 rounded-lg bg-warning-50 border border-warning-200 text-body-small text-warning-600" role="alert">
+            <p className="font-medium">Some partials could not be included</p>
+            <ul className="mt-1 list-disc list-inside">
+              {partialProblems.map(problem => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {filled?.error && (
+          <div className="mb-4 p-3 rounded-lg bg-error-50 border border-error-200 text-body-small text-error-600" role="alert">
+            {filled.error.message}. Showing the prompt without filling it in.
+          </div>
+        )}
         <div className="content-container">
           {isEmpty ? (
             <div className="h-full flex flex-col items-center justify-center text-center">
@@ -74,7 +168,10 @@ export const MarkdownPreview: React.FC<PreviewComponentProps> = (props) => {
           ) : (
             <div className="prose prose-sm sm:prose lg:prose-lg max-w-none prose-headings:text-primary prose-headings:font-semibold prose-p:text-primary prose-p:leading-relaxed prose-strong:text-primary prose-strong:font-semibold prose-em:text-primary prose-blockquote:border-l-primary prose-blockquote:bg-surface-secondary prose-blockquote:text-secondary prose-code:text-primary prose-code:bg-surface-tertiary prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-surface-tertiary prose-pre:border prose-pre:border-primary prose-ul:text-primary prose-ol:text-primary prose-li:text-primary">
               <ReactMarkdown
-                remarkPlugins={githubFlavoredMarkdown ? [remarkGfm] : []}
+                remarkPlugins={[
+                  ...(githubFlavoredMarkdown ? [remarkGfm] : []),
+                  ...(isFilled ? [remarkUnfilledVariables] : []),
+                ]}
                 components={{
                   // Custom component overrides for better styling
                   h1: ({ children }) => <h1 className="text-heading-1 mb-4">{children}</h1>,
@@ -119,6 +216,11 @@ export const MarkdownPreview: React.FC<PreviewComponentProps> = (props) => {
                       {children}
                     </th>
                   ),
+                  mark: ({ children, title }) => (
+                    <mark className="px-1 rounded bg-warning-100 text-warning-600 font-mono" title={title}>
+                      {children}
+                    </mark>
+                  ),
                   td: ({ children }) => (
                     <td className="px-4 py-2 border-b border-primary text-primary">
                       {children}
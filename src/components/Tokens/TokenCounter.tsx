@@ -0,0 +1,119 @@
+/**
+ * TokenCounter Component
+ * Status bar token counts for the prompt, the selected text and each section,
+ * with a switcher between the bundled tokenizers
+ */
+
+import React, { useState } from 'react';
+import { TOKENIZER_CONFIG } from '../../config/features';
+import { TOKENIZERS, describeTokenizer, formatTokenCount, isTokenizerId } from '../../services/tokenizers';
+import type { TokenizerId } from '../../services/tokenizers';
+import { useTokenCount } from '../../hooks/useTokenCount';
+
+interface TokenCounterProps {
+  content: string;
+  selection: string;
+  className?: string;
+}
+
+const TOKENIZER_KEY = 'tokenizer';
+
+const loadTokenizer = (): TokenizerId => {
+  const saved = TOKENIZER_CONFIG.PERSIST_CHOICE && typeof window !== 'undefined'
+    ? localStorage.getItem(TOKENIZER_KEY)
+    : null;
+  return isTokenizerId(saved) ? saved : TOKENIZER_CONFIG.DEFAULT;
+};
+
+export const TokenCounter: React.FC<TokenCounterProps> = ({ content, selection, className = '' }) => {
+  const [tokenizer, setTokenizer] = useState<TokenizerId>(loadTokenizer);
+  const [showSections, setShowSections] = useState(false);
+  const { counts, error } = useTokenCount(content, selection, tokenizer);
+
+  const handleTokenizerChange = (next: TokenizerId) => {
+    setTokenizer(next);
+    if (TOKENIZER_CONFIG.PERSIST_CHOICE) {
+      localStorage.setItem(TOKENIZER_KEY, next);
+    }
+  };
+
+  // Counts from the previous tokenizer stay up, dimmed, until the new one has counted
+  const isStale = counts !== null && counts.tokenizer !== tokenizer;
+  const current = TOKENIZERS.find(t => t.id === tokenizer)!;
+  const largestSection = Math.max(1, ...(counts?.sections.map(s => s.tokens) ?? []));
+
+  return (
+    <div className={`relative flex items-center space-sm text-body-small text-secondary ${className}`}>
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+      </svg>
+      {error ? (
+        <span className="text-error" title={error}>Tokens unavailable</span>
+      ) : (
+        <span className={isStale ? 'opacity-60' : ''}>
+          <span className="font-medium">{counts ? formatTokenCount(counts.tokenizer, counts.total) : '…'}</span> tokens
+          {counts && counts.selection > 0 && (
+            <> · <span className="font-medium">{formatTokenCount(counts.tokenizer, counts.selection)}</span> selected</>
+          )}
+        </span>
+      )}
+
+      <select
+        value={tokenizer}
+        onChange={(e) => handleTokenizerChange(e.target.value as TokenizerId)}
+        aria-label="Tokenizer"
+        title={current.models}
+        className="px-1 py-0.5 border border-primary rounded-lg bg-surface-primary text-text-primary text-caption"
+      >
+        {TOKENIZERS.map(t => (
+          <option key={t.id} value={t.id} title={t.models}>{t.label}</option>
+        ))}
+      </select>
+
+      <button
+        onClick={() => setShowSections(!showSections)}
+        disabled={!counts || counts.sections.length === 0}
+        aria-expanded={showSections}
+        className="text-caption text-secondary hover:text-primary transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        By section
+      </button>
+
+      {showSections && counts && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-surface-primary border border-primary rounded-lg shadow-elevation-3 z-50 max-h-96 overflow-y-auto">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-primary">
+            <h3 className="text-body font-medium text-primary">Tokens by section</h3>
+            <button
+              onClick={() => setShowSections(false)}
+              className="text-secondary hover:text-primary transition-normal"
+              aria-label="Close tokens by section"
+            >
+              ×
+            </button>
+          </div>
+          <ol className={`py-1 ${isStale ? 'opacity-60' : ''}`}>
+            {counts.sections.map((section, i) => (
+              <li key={i} className="px-3 py-1.5">
+                <div className="flex items-center justify-between gap-2 text-body-small">
+                  <span className={`truncate ${section.heading ? 'text-primary' : 'text-secondary italic'}`}>
+                    {section.heading || 'Introduction'}
+                  </span>
+                  <span className="font-medium text-primary flex-shrink-0">{formatTokenCount(counts.tokenizer, section.tokens)}</span>
+                </div>
+                <div className="mt-1 h-1 rounded-full bg-surface-tertiary">
+                  <div
+                    className="h-1 rounded-full bg-primary-500"
+                    style={{ width: `${(section.tokens / largestSection) * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ol>
+          <p className="px-3 py-2 border-t border-primary text-caption text-tertiary">
+            {describeTokenizer(current)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
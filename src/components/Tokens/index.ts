@@ -0,0 +1 @@
+export { TokenCounter } from './TokenCounter';
@@ -0,0 +1,193 @@
+/**
+ * VariableSchemaPanel Component
+ * Declares the prompt's variables: type, description, default and whether a value is required
+ */
+
+import React, { useState } from 'react';
+import type { VariableDefinition, VariableType } from '../../types/editor';
+
+interface VariableSchemaPanelProps {
+  variables: string[]; // names used in the current content
+  schema: VariableDefinition[];
+  onChange: (schema: VariableDefinition[]) => void | Promise<void>;
+}
+
+const TYPE_LABELS: Record<VariableType, string> = {
+  string: 'Text',
+  number: 'Number',
+  enum: 'Choice',
+  multiline: 'Multiline text',
+  json: 'JSON',
+};
+
+const NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+const inputClass = 'w-full px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary text-caption';
+
+// Comma-separated choices, kept as typed until the field is left so commas and spaces can be entered
+const OptionsInput: React.FC<{ options: string[]; onChange: (options: string[]) => void }> = ({ options, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="text"
+      value={draft ?? options.join(', ')}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null) {
+          onChange(draft.split(',').map(option => option.trim()).filter(Boolean));
+          setDraft(null);
+        }
+      }}
+      placeholder="Choices, separated by commas"
+      aria-label="Choices"
+      className={inputClass}
+    />
+  );
+};
+
+export const VariableSchemaPanel: React.FC<VariableSchemaPanelProps> = ({ variables, schema, onChange }) => {
+  const [newName, setNewName] = useState('');
+  const undeclared = variables.filter(name => !schema.some(definition => definition.name === name));
+
+  const declare = (name: string) => {
+    onChange([...schema, { name, type: 'string' }]);
+  };
+
+  const update = (name: string, changes: Partial<VariableDefinition>) => {
+    onChange(schema.map(definition => {
+      if (definition.name !== name) return definition;
+      const next: VariableDefinition = { ...definition, ...changes };
+      if (!next.description) delete next.description;
+      if (!next.defaultValue) delete next.defaultValue;
+      if (!next.required) delete next.required;
+      if (next.type !== 'enum' || !next.options?.length) delete next.options;
+      return next;
+    }));
+  };
+
+  const addNew = () => {
+    const name = newName.trim();
+    if (NAME_PATTERN.test(name) && !schema.some(definition => definition.name === name)) {
+      declare(name);
+    }
+    setNewName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      {undeclared.length > 0 && (
+        <div className="p-2 rounded bg-warning-50 border border-warning-200 text-caption text-warning-600">
+          <p className="mb-1">Used but not declared:</p>
+          <div className="flex flex-wrap gap-1">
+            {undeclared.map(name => (
+              <button
+                key={name}
+                onClick={() => declare(name)}
+                className="px-2 py-0.5 rounded-full border border-warning-200 bg-surface-primary font-mono hover:bg-warning-100 transition-normal"
+                title={`Declare ${name}`}
+              >
+                + {name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {schema.length === 0 && undeclared.length === 0 && (
+        <p className="text-body-small text-secondary">No variables declared.</p>
+      )}
+
+      {schema.map(definition => (
+        <section key={definition.name} className="p-2 rounded border border-primary space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-mono text-caption text-primary truncate">{`{{${definition.name}}}`}</span>
+            {!variables.includes(definition.name) && (
+              <span className="text-caption text-warning-600 flex-shrink-0">unused</span>
+            )}
+            <button
+              onClick={() => onChange(schema.filter(d => d.name !== definition.name))}
+              className="text-caption text-secondary hover:text-error-600 transition-normal flex-shrink-0"
+              aria-label={`Remove declaration of ${definition.name}`}
+            >
+              ×
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={definition.type}
+              onChange={(e) => update(definition.name, { type: e.target.value as VariableType })}
+              aria-label="Type"
+              className={inputClass}
+            >
+              {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-caption text-secondary flex-shrink-0">
+              <input
+                type="checkbox"
+                checked={Boolean(definition.required)}
+                onChange={(e) => update(definition.name, { required: e.target.checked })}
+              />
+              Required
+            </label>
+          </div>
+          {definition.type === 'enum' && (
+            <OptionsInput
+              options={definition.options ?? []}
+              onChange={(options) => update(definition.name, { options })}
+            />
+          )}
+          <input
+            type="text"
+            value={definition.description ?? ''}
+            onChange={(e) => update(definition.name, { description: e.target.value })}
+            placeholder="Description"
+            aria-label="Description"
+            className={inputClass}
+          />
+          {definition.type === 'multiline' || definition.type === 'json' ? (
+            <textarea
+              value={definition.defaultValue ?? ''}
+              onChange={(e) => update(definition.name, { defaultValue: e.target.value })}
+              placeholder="Default value"
+              aria-label="Default value"
+              rows={2}
+              className={`${inputClass} font-mono resize-y`}
+            />
+          ) : (
+            <input
+              type="text"
+              value={definition.defaultValue ?? ''}
+              onChange={(e) => update(definition.name, { defaultValue: e.target.value })}
+              placeholder="Default value"
+              aria-label="Default value"
+              className={inputClass}
+            />
+          )}
+        </section>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addNew();
+          }}
+          placeholder="Declare a variable"
+          className={`${inputClass} font-mono`}
+        />
+        <button
+          onClick={addNew}
+          disabled={!NAME_PATTERN.test(newName.trim())}
+          className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+/**
+ * VariablesPanel Component
+ * Lists the prompt's {{variables}} with an input for each, in named sets of
+ * test values saved with the document, and switches to their declarations
+ */
+
+import React, { useState } from 'react';
+import type { VariableDefinition, VariableSet } from '../../types/editor';
+import { generateVariableSetId } from '../../utils/ids';
+import { validateVariableValue } from '../../utils/variables';
+import { VariableSchemaPanel } from './VariableSchemaPanel';
+
+interface VariablesPanelProps {
+  variables: string[]; // names used in the current content, in order of first use
+  variableSets: VariableSet[];
+  activeVariableSetId?: string;
+  schema: VariableDefinition[];
+  onChange: (variableSets: VariableSet[], activeVariableSetId?: string) => void | Promise<void>;
+  onSchemaChange: (schema: VariableDefinition[]) => void | Promise<void>;
+  className?: string;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary text-body-small';
+
+// An input suited to the variable's declared type
+const ValueInput: React.FC<{
+  definition?: VariableDefinition;
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ definition, value, onChange }) => {
+  const placeholder = definition?.defaultValue ? `Default: ${definition.defaultValue}` : undefined;
+  switch (definition?.type) {
+    case 'number':
+      return (
+        <input type="number" value={value} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} className={inputClass} />
+      );
+    case 'enum':
+      return (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+          <option value="">{placeholder ?? 'Choose…'}</option>
+          {definition.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'multiline':
+    case 'json':
+      return (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={4}
+          className={`${inputClass} resize-y ${definition.type === 'json' ? 'font-mono' : ''}`}
+        />
+      );
+    default:
+      return (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={value.includes('\n') ? 3 : 1}
+          className={`${inputClass} resize-y`}
+        />
+      );
+  }
+};
+
+export const VariablesPanel: React.FC<VariablesPanelProps> = ({
+  variables,
+  variableSets,
+  activeVariableSetId,
+  schema,
+  onChange,
+  onSchemaChange,
+  className = '',
+}) => {
+  const [mode, setMode] = useState<'values' | 'schema'>('values');
+  const activeSet = variableSets.find(set => set.id === activeVariableSetId) ?? variableSets[0];
+  const unusedNames = activeSet
+    ? Object.keys(activeSet.values).filter(name => !variables.includes(name))
+    : [];
+
+  const replaceSet = (next: VariableSet) => {
+    onChange(variableSets.map(set => set.id === next.id ? next : set), next.id);
+  };
+
+  const addSet = (values: Record<string, string> = {}) => {
+    const set: VariableSet = { id: generateVariableSetId(), name: `Set ${variableSets.length + 1}`, values };
+    onChange([...variableSets, set], set.id);
+  };
+
+  // The first value typed creates a set to hold it
+  const setValue = (name: string, value: string) => {
+    if (!activeSet) {
+      addSet({ [name]: value });
+      return;
+    }
+    replaceSet({ ...activeSet, values: { ...activeSet.values, [name]: value } });
+  };
+
+  const deleteActiveSet = () => {
+    if (!activeSet) return;
+    const remaining = variableSets.filter(set => set.id !== activeSet.id);
+    onChange(remaining, remaining[0]?.id);
+  };
+
+  const removeUnusedValues = () => {
+    if (!activeSet) return;
+    const values = Object.fromEntries(Object.entries(activeSet.values).filter(([name]) => variables.includes(name)));
+    replaceSet({ ...activeSet, values });
+  };
+
+  return (
+    <div className={`h-full flex flex-col bg-surface-primary border border-primary rounded-lg shadow-elevation-1 ${className}`}>
+      <div className="px-4 py-3 border-b border-primary bg-surface-secondary rounded-t-lg flex items-center justify-between">
+        <h3 className="text-body font-medium text-primary">Variables</h3>
+        <div className="flex items-center gap-1" role="tablist">
+          {(['values', 'schema'] as const).map(tab => (
+            <button
+              key={tab}
+              role="tab"
+              aria-selected={mode === tab}
+              onClick={() => setMode(tab)}
+              className={`px-2 py-0.5 text-caption font-medium rounded transition-normal ${
+                mode === tab ? 'bg-primary-50 text-primary-700' : 'text-secondary hover:text-primary'
+              }`}
+            >
+              {tab === 'values' ? 'Values' : 'Schema'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'schema' ? (
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          <VariableSchemaPanel variables={variables} schema={schema} onChange={onSchemaChange} />
+        </div>
+      ) : (
+        <>
+          <div className="px-4 py-3 border-b border-primary space-y-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={activeSet?.id ?? ''}
+                onChange={(e) => onChange(variableSets, e.target.value)}
+                disabled={variableSets.length === 0}
+                aria-label="Value set"
+                className="flex-1 min-w-0 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary text-body-small disabled:opacity-50"
+              >
+                {variableSets.length === 0 && <option value="">No saved values</option>}
+                {variableSets.map(set => (
+                  <option key={set.id} value={set.id}>{set.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => addSet(activeSet ? { ...activeSet.values } : {})}
+                className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal flex-shrink-0"
+                title={activeSet ? 'Copy these values into a new set' : 'Start a set of values'}
+              >
+                New set
+              </button>
+            </div>
+            {activeSet && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={activeSet.name}
+                  onChange={(e) => replaceSet({ ...activeSet, name: e.target.value })}
+                  aria-label="Set name"
+                  className="flex-1 min-w-0 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary text-caption"
+                />
+                <button
+                  onClick={deleteActiveSet}
+                  className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-error-600 hover:bg-error-50 transition-normal flex-shrink-0"
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+            {variables.length === 0 ? (
+              <p className="text-body-small text-secondary">
+                Add placeholders such as <code className="font-mono">{'{{customer_name}}'}</code> to the prompt to fill them in here.
+              </p>
+            ) : variables.map(name => {
+              const value = activeSet?.values[name] ?? '';
+              const definition = schema.find(d => d.name === name);
+              const isFilled = Boolean(value || definition?.defaultValue);
+              const problem = definition ? validateVariableValue(definition, value || definition.defaultValue || '') : null;
+              return (
+                <label key={name} className="block">
+                  <span className={`block text-caption font-mono mb-1 ${isFilled ? 'text-secondary' : 'text-warning-600'}`}>
+                    {`{{${name}}}`}{definition?.required && ' *'}{!isFilled && ' · unfilled'}
+                  </span>
+                  {definition?.description && (
+                    <span className="block text-caption text-tertiary mb-1">{definition.description}</span>
+                  )}
+                  <ValueInput definition={definition} value={value} onChange={(next) => setValue(name, next)} />
+                  {problem && <span className="block text-caption text-error-600 mt-1">{problem}</span>}
+                </label>
+              );
+            })}
+
+            {unusedNames.length > 0 && (
+              <div className="flex items-center justify-between gap-2 text-caption text-tertiary">
+                <span className="min-w-0 truncate" title={unusedNames.join(', ')}>
+                  Also saved: {unusedNames.join(', ')}
+                </span>
+                <button onClick={removeUnusedValues} className="hover:text-primary underline flex-shrink-0">
+                  Remove
+                </button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { VariablesPanel } from './VariablesPanel';
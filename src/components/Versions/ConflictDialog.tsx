@@ -0,0 +1,52 @@
+import React from 'react';
+import { Dialog } from '../Layout/Dialog';
+
+type ConflictChoice = 'keep-mine' | 'use-theirs' | 'save-mine-as-version';
+
+interface ConflictDialogProps {
+  onResolve: (choice: ConflictChoice) => void;
+}
+
+const CHOICES: Array<{ key: ConflictChoice; label: string; description: string }> = [
+  {
+    key: 'save-mine-as-version',
+    label: 'Keep both',
+    description: 'Load the other tab\'s version and save your text as a new version of it',
+  },
+  {
+    key: 'use-theirs',
+    label: 'Use theirs',
+    description: 'Discard your changes in this tab and load the other tab\'s version',
+  },
+  {
+    key: 'keep-mine',
+    label: 'Keep mine',
+    description: 'Overwrite the other tab\'s changes with what you see here',
+  },
+];
+
+export const ConflictDialog: React.FC<ConflictDialogProps> = ({ onResolve }) => {
+  return (
+    <Dialog
+      title="This prompt was changed in another tab"
+      // Closing without choosing keeps both tabs' text safe
+      onClose={() => onResolve('save-mine-as-version')}
+    >
+      <p className="text-body-small text-secondary mb-4">
+        Both tabs edited the same prompt. Choose which changes to keep so no work is lost.
+      </p>
+      <div className="space-y-2">
+        {CHOICES.map(choice => (
+          <button
+            key={choice.key}
+            onClick={() => onResolve(choice.key)}
+            className="w-full text-left p-3 border border-primary rounded-lg bg-surface-primary hover:bg-surface-secondary transition-normal"
+          >
+            <span className="block text-body-small font-medium text-primary">{choice.label}</span>
+            <span className="block text-caption text-secondary">{choice.description}</span>
+          </button>
+        ))}
+      </div>
+    </Dialog>
+  );
+};
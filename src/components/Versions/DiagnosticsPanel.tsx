@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { versionStorage } from '../../services/storage';
+import type { IntegrityIssue, IntegrityReport, QuarantinedRecord, RepairAction } from '../../services/integrity';
+import { StoreLockedError } from '../../services/encryption';
+import { StorageBenchmarkPanel } from './StorageBenchmarkPanel';
+
+interface DiagnosticsPanelProps {
+  currentDocumentId: string;
+  onDocumentChanged: (documentId: string) => void;
+}
+
+const REPAIR_LABELS: Record<RepairAction, string> = {
+  'rebuild-index': 'Rebuild list',
+  'add-index-entry': 'Add to list',
+  'remove-index-entry': 'Remove from list',
+  'dedupe-index': 'Remove duplicates',
+  'quarantine': 'Quarantine',
+  'reset-date': 'Reset date',
+  'remove-reference': 'Remove references',
+  'dedupe-references': 'Remove duplicates',
+  'set-owner': 'Fix owner',
+  'reattach': 'Reattach',
+  'recover-document': 'Recover document',
+  'discard': 'Discard',
+};
+
+// Guards "Repair all" against repairs that do not clear their issue
+const MAX_REPAIR_PASSES = 100;
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const downloadRecord = (record: QuarantinedRecord) => {
+  const blob = new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `quarantine-${record.key.replace(/[^a-z0-9_-]+/gi, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ currentDocumentId, onDocumentChanged }) => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runCheck = useCallback(async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      setReport(await versionStorage.checkIntegrity());
+      setQuarantine(await versionStorage.listQuarantine());
+    } catch (err) {
+      if (err instanceof StoreLockedError) {
+        setError('Unlock your prompts to check them');
+      } else {
+        console.error('Failed to check storage:', err);
+        setError('Failed to check storage');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    runCheck();
+  }, [runCheck]);
+
+  const applyRepair = async (issue: IntegrityIssue, action: RepairAction) => {
+    const changed = await versionStorage.repairIntegrityIssue(issue, action);
+    if (changed.includes(currentDocumentId)) {
+      onDocumentChanged(currentDocumentId);
+    }
+  };
+
+  const handleRepair = async (issue: IntegrityIssue, action: RepairAction) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await applyRepair(issue, action);
+    } catch (err) {
+      console.error('Failed to repair storage:', err);
+      setError('Failed to repair storage');
+    }
+    await runCheck();
+  };
+
+  // Repairs can resolve or reveal other issues, so re-check after each one
+  const handleRepairAll = async () => {
+    setIsWorking(true);
+    setError(null);
+    const attempted = new Set<string>();
+    try {
+      for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+        const { issues } = await versionStorage.checkIntegrity();
+        const next = issues.find(issue => !attempted.has(issue.id));
+        if (!next) break;
+        attempted.add(next.id);
+        await applyRepair(next, next.repairs[0]);
+      }
+    } catch (err) {
+      console.error('Failed to repair storage:', err);
+      setError('Failed to repair storage');
+    }
+    await runCheck();
+  };
+
+  const handleDeleteQuarantined = async (record: QuarantinedRecord) => {
+    if (!confirm(`Permanently delete the quarantined record ${record.key}? This cannot be undone.`)) return;
+    setError(null);
+    try {
+      await versionStorage.deleteQuarantined(record.key);
+      setQuarantine(await versionStorage.listQuarantine());
+    } catch (err) {
+      console.error('Failed to delete quarantined record:', err);
+      setError('Failed to delete quarantined record');
+    }
+  };
+
+  const issues = report?.issues ?? [];
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <p className="text-body-small text-error-600" role="alert">{error}</p>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-body-small text-secondary">
+          {report
+            ? `Checked ${report.documentCount} documents and ${report.versionCount} versions at ${formatDate(report.checkedAt)}`
+            : 'Checks stored documents and versions for damaged or orphaned records.'}
+        </p>
+        <div className="flex items-center space-sm flex-shrink-0">
+          <button
+            onClick={runCheck}
+            disabled={isWorking}
+            className="px-3 py-1 text-body-small font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isWorking ? 'Checking...' : 'Check again'}
+          </button>
+          <button
+            onClick={handleRepairAll}
+            disabled={isWorking || issues.length === 0}
+            className="px-3 py-1 text-body-small font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Repair all
+          </button>
+        </div>
+      </div>
+
+      {report && issues.length === 0 ? (
+        <p className="text-body-small text-secondary text-center py-4">No problems found</p>
+      ) : (
+        <ul className="space-y-2" aria-label="Storage problems">
+          {issues.map(issue => (
+            <li key={issue.id} className="p-2 sm:p-3 border border-primary rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-body-small text-primary">
+                    <span className={`mr-2 text-caption font-medium ${issue.severity === 'error' ? 'text-error-600' : 'text-warning-600'}`}>
+                      {issue.severity === 'error' ? 'Error' : 'Warning'}
+                    </span>
+                    {issue.message}
+                  </p>
+                  <p className="text-caption text-tertiary truncate">{issue.key}</p>
+                </div>
+                <div className="flex items-center space-sm flex-shrink-0">
+                  {issue.repairs.map((action, index) => (
+                    <button
+                      key={action}
+                      onClick={() => handleRepair(issue, action)}
+                      disabled={isWorking}
+                      className={index === 0
+                        ? 'px-2 py-1 text-caption font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal disabled:opacity-50 disabled:cursor-not-allowed'
+                        : 'px-2 py-1 text-caption font-medium rounded-lg border border-primary text-secondary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed'}
+                    >
+                      {REPAIR_LABELS[action]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {quarantine.length > 0 && (
+        <div className="pt-3 border-t border-primary">
+          <h4 className="text-body font-medium text-primary mb-1">Quarantined records</h4>
+          <p className="text-caption text-tertiary mb-2">
+            Damaged records moved aside by a repair. Download one to recover its data by hand.
+          </p>
+          <ul className="space-y-2" aria-label="Quarantined records">
+            {quarantine.map(record => (
+              <li key={record.key} className="p-2 sm:p-3 border border-primary rounded-lg">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-body-small font-medium text-primary truncate">{record.key}</p>
+                    <p className="text-caption text-tertiary">
+                      {record.reason} · quarantined {formatDate(record.quarantinedAt)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-sm flex-shrink-0">
+                    <button
+                      onClick={() => downloadRecord(record)}
+                      className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal"
+                    >
+                      Download
+                    </button>
+                    <button
+                      onClick={() => handleDeleteQuarantined(record)}
+                      className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-secondary hover:text-error hover:bg-error-50 transition-normal"
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {import.meta.env.DEV && <StorageBenchmarkPanel />}
+    </div>
+  );
+};
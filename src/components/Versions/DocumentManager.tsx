@@ -44,7 +44,7 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({
   }, [isOpen]);
 
   const handleDeleteDocument = async (documentId: string) => {
-    if (confirm('Are you sure you want to delete this document and all its versions?')) {
+    if (confirm('Move this document and all its versions to the trash?')) {
       try {
         await versionStorage.deleteDocument(documentId);
         await loadDocuments();
@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { versionStorage } from '../../services/storage';
+import type { EncryptionStatus } from '../../services/storage';
+import { WrongPassphraseError, isEncryptionSupported } from '../../services/encryption';
+
+type EncryptionAction = 'enable' | 'change' | 'disable';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClassName = 'w-full px-2 py-1 text-body-small border border-primary rounded bg-surface-primary text-text-primary';
+
+export const EncryptionPanel: React.FC = () => {
+  const [status, setStatus] = useState<EncryptionStatus>(() => versionStorage.getEncryptionStatus());
+  const [action, setAction] = useState<EncryptionAction | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [nextPassphrase, setNextPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => versionStorage.subscribeEncryption(setStatus), []);
+
+  const persistent = versionStorage.getPersistenceStatus().persistent;
+  const needsCurrent = action === 'change' || action === 'disable';
+  const needsNext = action === 'enable' || action === 'change';
+
+  const resetForm = (nextAction: EncryptionAction | null) => {
+    setAction(nextAction);
+    setCurrentPassphrase('');
+    setNextPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const validate = (): string | null => {
+    if (needsCurrent && !currentPassphrase) return 'Enter your current passphrase';
+    if (needsNext && nextPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`;
+    }
+    if (needsNext && nextPassphrase !== confirmPassphrase) return 'The passphrases do not match';
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validate();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (action === 'enable') {
+        await versionStorage.enableEncryption(nextPassphrase);
+      } else if (action === 'change') {
+        await versionStorage.changePassphrase(currentPassphrase, nextPassphrase);
+      } else if (action === 'disable') {
+        await versionStorage.disableEncryption(currentPassphrase);
+      }
+      resetForm(null);
+    } catch (err) {
+      if (err instanceof WrongPassphraseError) {
+        setError('Wrong passphrase; nothing was changed');
+      } else {
+        console.error('Failed to update encryption:', err);
+        setError('Failed to update encryption');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isEncryptionSupported()) {
+    return (
+      <div className="p-3 border border-primary rounded-lg">
+        <h4 className="text-body font-medium text-primary mb-1">Encryption</h4>
+        <p className="text-caption text-secondary">Encryption needs a secure (https) connection.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 border border-primary rounded-lg">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h4 className="text-body font-medium text-primary">
+          Encryption
+          <span className="ml-2 text-caption text-secondary">
+            {status.enabled ? (status.locked ? 'on · locked' : 'on') : 'off'}
+          </span>
+        </h4>
+        <div className="flex items-center space-sm">
+          {status.enabled ? (
+            <>
+              <button
+                onClick={() => versionStorage.lock()}
+                disabled={status.locked}
+                className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Lock now
+              </button>
+              <button
+                onClick={() => resetForm('change')}
+                className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal"
+              >
+                Change passphrase
+              </button>
+              <button
+                onClick={() => resetForm('disable')}
+                className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal"
+              >
+                Turn off
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => resetForm('enable')}
+              disabled={!persistent}
+              className="px-2 py-1 text-caption font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Encrypt prompts
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-caption text-tertiary">
+        {persistent
+          ? 'Prompt and version text is encrypted with a key derived from your passphrase. If you forget it, encrypted prompts cannot be recovered.'
+          : 'Prompts are only kept in memory this session, so there is nothing to encrypt.'}
+      </p>
+
+      {action && (
+        <form onSubmit={handleSubmit} className="mt-3 space-y-2">
+          {needsCurrent && (
+            <input
+              type="password"
+              value={currentPassphrase}
+              onChange={(e) => setCurrentPassphrase(e.target.value)}
+              placeholder="Current passphrase"
+              autoComplete="current-password"
+              aria-label="Current passphrase"
+              className={inputClassName}
+            />
+          )}
+          {needsNext && (
+            <>
+              <input
+                type="password"
+                value={nextPassphrase}
+                onChange={(e) => setNextPassphrase(e.target.value)}
+                placeholder="New passphrase"
+                autoComplete="new-password"
+                aria-label="New passphrase"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder="Repeat new passphrase"
+                autoComplete="new-password"
+                aria-label="Repeat new passphrase"
+                className={inputClassName}
+              />
+            </>
+          )}
+          {error && (
+            <p className="text-body-small text-error-600" role="alert">{error}</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => resetForm(null)}
+              disabled={isWorking}
+              className="px-3 py-1 text-body-small font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isWorking}
+              className="px-3 py-1 text-body-small font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isWorking
+                ? 'Working...'
+                : action === 'enable' ? 'Encrypt' : action === 'change' ? 'Re-encrypt' : 'Decrypt and turn off'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog } from '../Layout/Dialog';
+import { planImport, applyImport } from '../../services/workspaceBundle';
+import type { WorkspaceBundle, ImportPlan, ImportStrategy, ImportAction } from '../../services/workspaceBundle';
+
+interface ImportDialogProps {
+  bundle: WorkspaceBundle;
+  onClose: () => void;
+  onImported: (documentIds: string[]) => void;
+}
+
+const STRATEGIES: Array<{ key: ImportStrategy; label: string; description: string }> = [
+  { key: 'skip', label: 'Skip', description: 'Keep your documents when IDs clash' },
+  { key: 'overwrite', label: 'Overwrite', description: 'Replace your documents with the imported ones' },
+  { key: 'keep-both', label: 'Keep both', description: 'Import clashing documents as copies' },
+];
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  skip: 'Skipped',
+  overwrite: 'Overwritten',
+  'keep-both': 'Copied',
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-success-50 text-success-600 border-success-200',
+  skip: 'bg-surface-secondary text-secondary border-primary',
+  overwrite: 'bg-error-50 text-error-600 border-error-200',
+  'keep-both': 'bg-primary-50 text-primary-700 border-primary-200',
+};
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ bundle, onClose, onImported }) => {
+  const [strategy, setStrategy] = useState<ImportStrategy>('skip');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    planImport(bundle, strategy)
+      .then(result => {
+        if (!cancelled) setPlan(result);
+      })
+      .catch(err => {
+        console.error('Failed to plan import:', err);
+        if (!cancelled) setError('Failed to compare the bundle with your prompts');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [bundle, strategy]);
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsImporting(true);
+    try {
+      const written = await applyImport(plan);
+      onImported(written);
+      onClose();
+    } catch (err) {
+      console.error('Failed to import bundle:', err);
+      setError('Import failed part-way; some documents may already have been written');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const clashCount = plan ? plan.items.filter(item => item.action !== 'create').length : 0;
+
+  return (
+    <Dialog
+      title="Import prompts"
+      onClose={onClose}
+      footer={
+        <>
+          <button
+            onClick={onClose}
+            className="px-3 py-2 text-body-small font-medium rounded-lg border border-primary bg-surface-primary text-primary hover:bg-surface-secondary transition-normal"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!plan || isImporting || plan.totals.skip === plan.items.length}
+            className="px-3 py-2 text-body-small font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+        </>
+      }
+    >
+      <p className="text-body-small text-secondary mb-4">
+        Exported {formatDate(bundle.manifest.exportedAt)} · {bundle.manifest.documentCount} documents · {bundle.manifest.versionCount} versions
+      </p>
+
+      {clashCount > 0 && (
+        <fieldset className="mb-4">
+          <legend className="text-body-small font-medium text-primary mb-2">
+            {clashCount} document{clashCount === 1 ? '' : 's'} already exist{clashCount === 1 ? 's' : ''}
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {STRATEGIES.map(option => (
+              <label
+                key={option.key}
+                className={`flex-1 min-w-[10rem] p-2 border rounded-lg cursor-pointer transition-normal ${
+                  strategy === option.key ? 'border-primary-500 bg-primary-50' : 'border-primary hover:bg-surface-secondary'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="import-strategy"
+                  value={option.key}
+                  checked={strategy === option.key}
+                  onChange={() => setStrategy(option.key)}
+                  className="mr-2"
+                />
+                <span className="text-body-small font-medium text-primary">{option.label}</span>
+                <span className="block text-caption text-secondary">{option.description}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {error && (
+        <p className="text-body-small text-error-600 mb-4" role="alert">{error}</p>
+      )}
+
+      {!plan ? (
+        <p className="text-body-small text-secondary">Comparing with your prompts...</p>
+      ) : (
+        <>
+          <p className="text-body-small text-secondary mb-2">
+            {plan.totals.create} new · {plan.totals.overwrite} overwritten · {plan.totals['keep-both']} copied · {plan.totals.skip} skipped
+          </p>
+          <ul className="space-y-2" aria-label="Import preview">
+            {plan.items.map(item => (
+              <li key={item.sourceId} className="flex items-center justify-between p-2 border border-primary rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-body-small font-medium text-primary truncate">
+                    Document {item.sourceId.slice(-8)}
+                    {item.targetId !== item.sourceId && (
+                      <span className="text-secondary"> → {item.targetId.slice(-8)}</span>
+                    )}
+                  </p>
+                  <p className="text-caption text-secondary">
+                    {item.versionCount} versions
+                    {item.renamedVersionCount > 0 && item.action !== 'keep-both' && ` · ${item.renamedVersionCount} version IDs reassigned`}
+                  </p>
+                </div>
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-caption border ${ACTION_STYLES[item.action]}`}>
+                  {ACTION_LABELS[item.action]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </Dialog>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { exportWorkspace, downloadBundle } from '../../services/workspaceBundle';
+
+interface MemoryStorageBannerProps {
+  reason: string | null;
+}
+
+export const MemoryStorageBanner: React.FC<MemoryStorageBannerProps> = ({ reason }) => {
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setExportError(null);
+    try {
+      downloadBundle(await exportWorkspace());
+    } catch (error) {
+      console.error('Failed to export prompts:', error);
+      setExportError('Failed to export prompts');
+    }
+  };
+
+  return (
+    <div
+      className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 bg-warning-50 border-b border-primary text-body-small text-primary"
+      role="alert"
+    >
+      <div className="flex items-center space-sm">
+        <svg className="w-4 h-4 text-warning-600 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+        <span>
+          {reason ? `${reason}. ` : ''}
+          Your prompts are kept in memory only and will be lost when you reload or close this tab.
+        </span>
+      </div>
+      <div className="flex items-center space-sm">
+        {exportError && <span className="text-caption text-error-600">{exportError}</span>}
+        <button
+          onClick={handleExport}
+          className="px-3 py-1 text-body-small font-medium rounded-lg border border-primary bg-surface-primary text-primary hover:bg-surface-secondary transition-normal"
+          title="Download all prompts and versions as a bundle"
+        >
+          Export
+        </button>
+      </div>
+    </div>
+  );
+};
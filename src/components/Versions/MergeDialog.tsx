@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { Dialog } from '../Layout/Dialog';
+import type { Version } from '../../types/editor';
+import { getVersionLabel } from '../../utils/versions';
+import { findCommonAncestor } from '../../utils/versionGraph';
+import { conflictMarkers, joinMerge, mergeText } from '../../utils/merge';
+
+interface MergeDialogProps {
+  versions: Version[];
+  oursId: string;   // the current base version, which the merge is saved on top of
+  theirsId: string; // the version being merged in
+  onMerge: (content: string, name: string) => void | Promise<void>;
+  onClose: () => void;
+}
+
+const hunkText = (lines: string[]) => lines.join('').replace(/\n$/, '') || ' ';
+
+export const MergeDialog: React.FC<MergeDialogProps> = ({ versions, oursId, theirsId, onMerge, onClose }) => {
+  const ours = versions.find(v => v.id === oursId);
+  const theirs = versions.find(v => v.id === theirsId);
+  const ancestor = useMemo(() => findCommonAncestor(versions, oursId, theirsId), [versions, oursId, theirsId]);
+  const merge = useMemo(
+    () => mergeText(ancestor?.content ?? '', ours?.content ?? '', theirs?.content ?? ''),
+    [ancestor, ours, theirs]
+  );
+  const [resolutions, setResolutions] = useState<Record<number, string>>({});
+  const [editing, setEditing] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!ours || !theirs) {
+    return null;
+  }
+
+  const oursLabel = getVersionLabel(ours);
+  const theirsLabel = getVersionLabel(theirs);
+  const unresolved = merge.hunks.filter((hunk, index) => hunk.type === 'conflict' && resolutions[index] === undefined).length;
+  const alreadyMerged = ancestor?.id === theirs.id;
+
+  const resolve = (index: number, text: string) => {
+    setResolutions(prev => ({ ...prev, [index]: text }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onMerge(joinMerge(merge.hunks, resolutions), `Merge of ${theirsLabel} into ${oursLabel}`);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      title="Merge versions"
+      onClose={onClose}
+      className="max-w-4xl"
+      footer={
+        <>
+          <span className="mr-auto text-caption text-secondary">
+            {merge.conflictCount === 0
+              ? 'No conflicts'
+              : unresolved > 0
+                ? `${unresolved} of ${merge.conflictCount} conflicts left to resolve`
+                : 'All conflicts resolved'}
+          </span>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-body-small font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={unresolved > 0 || isSaving || alreadyMerged}
+            className="px-3 py-1 text-body-small font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save merged version'}
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        <p className="text-body-small text-secondary">
+          Merging <span className="font-medium text-primary">{theirsLabel}</span> into{' '}
+          <span className="font-medium text-primary">{oursLabel}</span>
+          {ancestor
+            ? <> from their common ancestor <span className="font-medium text-primary">{getVersionLabel(ancestor)}</span>.</>
+            : '. They share no ancestor, so every difference is treated as a conflict.'}
+        </p>
+
+        {alreadyMerged && (
+          <p className="text-body-small text-warning-600" role="status">
+            {theirsLabel} is already part of {oursLabel}; there is nothing to merge.
+          </p>
+        )}
+
+        <div className="border border-primary rounded-lg overflow-hidden text-body-small font-mono">
+          {merge.hunks.map((hunk, index) => {
+            if (hunk.type === 'clean') {
+              return (
+                <div key={index} className="px-2 py-1 text-secondary whitespace-pre-wrap break-words">
+                  {hunkText(hunk.lines)}
+                </div>
+              );
+            }
+
+            const resolution = resolutions[index];
+            return (
+              <div key={index} className="border-y border-primary bg-warning-50 p-2 space-y-2">
+                <div className="flex flex-wrap items-center gap-2 font-sans">
+                  <span className="text-caption font-medium text-warning-600">
+                    {resolution === undefined ? 'Conflict' : 'Resolved'}
+                  </span>
+                  <button
+                    onClick={() => resolve(index, hunk.ours.join(''))}
+                    className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary bg-surface-primary hover:bg-surface-secondary transition-normal"
+                  >
+                    Accept left
+                  </button>
+                  <button
+                    onClick={() => resolve(index, hunk.theirs.join(''))}
+                    className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary bg-surface-primary hover:bg-surface-secondary transition-normal"
+                  >
+                    Accept right
+                  </button>
+                  <button
+                    onClick={() => resolve(index, [...hunk.ours, ...hunk.theirs].join(''))}
+                    className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary bg-surface-primary hover:bg-surface-secondary transition-normal"
+                  >
+                    Keep both
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (resolution === undefined) resolve(index, conflictMarkers(hunk));
+                      setEditing(editing === index ? null : index);
+                    }}
+                    className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary bg-surface-primary hover:bg-surface-secondary transition-normal"
+                  >
+                    {editing === index ? 'Done' : 'Edit'}
+                  </button>
+                </div>
+
+                {editing === index ? (
+                  <textarea
+                    value={resolution ?? ''}
+                    onChange={(e) => resolve(index, e.target.value)}
+                    rows={Math.max(4, (resolution ?? '').split('\n').length)}
+                    aria-label="Edit merged text"
+                    className="w-full px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary font-mono text-body-small"
+                  />
+                ) : resolution !== undefined ? (
+                  <div className="px-2 py-1 rounded bg-surface-primary text-primary whitespace-pre-wrap break-words">
+                    {resolution.replace(/\n$/, '') || ' '}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <p className="text-caption text-secondary font-sans mb-1 truncate">Left · {oursLabel}</p>
+                      <div className="px-2 py-1 rounded bg-surface-primary text-primary whitespace-pre-wrap break-words">
+                        {hunkText(hunk.ours)}
+                      </div>
+                    </div>
+                    <div>
+                      <p className="text-caption text-secondary font-sans mb-1 truncate">Right · {theirsLabel}</p>
+                      <div className="px-2 py-1 rounded bg-surface-primary text-primary whitespace-pre-wrap break-words">
+                        {hunkText(hunk.theirs)}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Dialog>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { versionStorage, DocumentNameError } from '../../services/storage';
+import type { PartialInfo } from '../../services/storage';
+import { StoreLockedError } from '../../services/encryption';
+import { formatPartialTag, toPartialName } from '../../services/template';
+
+interface PartialsPanelProps {
+  currentDocumentId: string;
+  currentDocumentName?: string;
+  onRenameDocument: (name: string) => Promise<void>;
+  onOpenDocument: (documentId: string) => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export const PartialsPanel: React.FC<PartialsPanelProps> = ({
+  currentDocumentId,
+  currentDocumentName,
+  onRenameDocument,
+  onOpenDocument,
+}) => {
+  const [partials, setPartials] = useState<PartialInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState(currentDocumentName ?? '');
+
+  useEffect(() => {
+    setDraftName(currentDocumentName ?? '');
+  }, [currentDocumentName]);
+
+  const loadPartials = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setPartials(await versionStorage.listPartials());
+    } catch (err) {
+      if (err instanceof StoreLockedError) {
+        setError('Unlock your prompts to see their partials');
+      } else {
+        console.error('Failed to list partials:', err);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPartials();
+  }, [loadPartials, currentDocumentName]);
+
+  const normalizedName = toPartialName(draftName);
+
+  const handleRename = async () => {
+    setError(null);
+    try {
+      await onRenameDocument(draftName);
+      await loadPartials();
+    } catch (err) {
+      if (err instanceof DocumentNameError) {
+        setError(err.message);
+      } else {
+        console.error('Failed to rename prompt:', err);
+        setError('Failed to rename prompt');
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <p className="text-body-small text-error-600" role="alert">{error}</p>
+      )}
+
+      <div className="p-2 sm:p-3 border border-primary rounded-lg space-y-2">
+        <label htmlFor="partial-name" className="block text-body-small font-medium text-primary">
+          Name of this prompt
+        </label>
+        <div className="flex items-center space-sm">
+          <input
+            id="partial-name"
+            type="text"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+            }}
+            placeholder="e.g. safety-preamble"
+            className="flex-1 min-w-0 px-2 py-1 border border-primary rounded-lg bg-surface-primary text-text-primary text-body-small"
+          />
+          <button
+            onClick={handleRename}
+            disabled={normalizedName === (currentDocumentName ?? '')}
+            className="px-2 py-1 text-caption font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {normalizedName ? 'Save name' : 'Remove name'}
+          </button>
+        </div>
+        <p className="text-caption text-secondary">
+          {normalizedName
+            ? <>Other prompts include it with <code>{formatPartialTag({ name: normalizedName })}</code>, a section with <code>{formatPartialTag({ name: normalizedName, section: 'heading' })}</code> or a version with <code>{formatPartialTag({ name: normalizedName, pin: 'label' })}</code>.</>
+            : 'Give this prompt a name to include it in other prompts.'}
+        </p>
+      </div>
+
+      {isLoading && partials.length === 0 ? (
+        <p className="text-body-small text-secondary text-center py-4">Loading partials...</p>
+      ) : partials.length === 0 ? (
+        <p className="text-body-small text-secondary text-center py-4">No prompts have a name yet</p>
+      ) : (
+        <ul className="space-y-2" aria-label="Named prompts">
+          {partials.map(partial => (
+            <li key={partial.documentId} className="p-2 sm:p-3 border border-primary rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-body-small font-medium text-primary truncate">
+                    <code>{formatPartialTag({ name: partial.name })}</code>
+                    {partial.documentId === currentDocumentId && (
+                      <span className="ml-2 text-caption text-secondary">open</span>
+                    )}
+                  </p>
+                  <p className="text-caption text-tertiary">Updated {formatDate(partial.updatedAt)}</p>
+                </div>
+                <button
+                  onClick={() => onOpenDocument(partial.documentId)}
+                  disabled={partial.documentId === currentDocumentId}
+                  className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                >
+                  Open
+                </button>
+              </div>
+
+              <div className="mt-2">
+                <p className="text-caption font-medium text-secondary">Used by</p>
+                {partial.usedBy.length === 0 ? (
+                  <p className="text-caption text-tertiary">No prompt includes it yet</p>
+                ) : (
+                  <ul className="mt-1 space-y-1">
+                    {partial.usedBy.map(usage => (
+                      <li key={usage.documentId} className="flex items-center justify-between gap-2 text-caption">
+                        <button
+                          onClick={() => onOpenDocument(usage.documentId)}
+                          disabled={usage.documentId === currentDocumentId}
+                          className="text-primary-600 hover:underline truncate disabled:no-underline disabled:text-primary"
+                        >
+                          {usage.documentName ?? `Document ${usage.documentId.slice(-8)}`}
+                        </button>
+                        <span className="text-tertiary truncate" title="How it is included">
+                          {[...new Set(usage.references.map(formatPartialTag))].join(', ')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { versionStorage } from '../../services/storage';
+import type { SearchSnippet } from '../../services/searchIndex';
+import { tabSync } from '../../services/tabSync';
+import { exportWorkspace, downloadBundle, parseBundle, BundleError } from '../../services/workspaceBundle';
+import type { WorkspaceBundle } from '../../services/workspaceBundle';
+import { ImportDialog } from './ImportDialog';
+import { StorageUsagePanel } from './StorageUsagePanel';
+import { EncryptionPanel } from './EncryptionPanel';
+import { TrashPanel } from './TrashPanel';
+import { PartialsPanel } from './PartialsPanel';
+import { DiagnosticsPanel } from './DiagnosticsPanel';
+import { VersionGraph } from './VersionGraph';
+import { VersionBadges } from './VersionBadges';
+import { VersionLabelsDialog } from './VersionLabelsDialog';
+import type { DocumentState, LabelChange, Version } from '../../types/editor';
+import { getDocumentLabel, getVersionLabel } from '../../utils/versions';
+import { downloadChangelog, suggestVersionNote } from '../../services/changelog';
+import { DiffDialog, CURRENT_SOURCE_ID } from '../Diff';
+import type { DiffSource } from '../Diff';
 import './PromptManager.css';
 
 interface PromptManagerProps {
   onLoadDocument: (documentId: string) => void;
   onNewDocument: () => void;
   onLoadVersion: (versionId: string) => void;
-  onDeleteVersion: (versionId: string) => void;
-  onSaveVersion: (content: string, name?: string) => void;
+  onDeleteVersion: (versionId: string) => void | Promise<void>;
+  onSaveVersion: (content: string, name?: string, note?: string) => void;
+  onMergeVersion: (content: string, mergeParentId: string, name: string) => void | Promise<void>;
+  onPinVersion: (versionId: string, pinned: boolean) => void | Promise<void>;
+  onSetVersionTags: (versionId: string, tags: string[]) => void | Promise<void>;
+  onMoveVersionLabel: (label: string, versionId: string | null) => void | Promise<void>;
   currentDocumentId: string;
+  currentDocumentName?: string;
+  onRenameDocument: (name: string) => Promise<void>;
   currentContent: string;
+  currentVersions: Version[];
+  currentLabelHistory: LabelChange[];
+  baseVersionId?: string;
   hasUnsavedChanges: boolean;
   className?: string;
 }
@@ -22,26 +49,77 @@ interface PromptItem {
   type: 'document' | 'version';
   parentId?: string;
   summary?: string;
+  auto?: boolean; // an automatic snapshot version
+  note?: string;
+  suggestedNote?: string;
+  pinned?: boolean;
+  labels?: string[];
+  tags?: string[];
+  snippet?: SearchSnippet; // set on search results
 }
 
+const SEARCH_HELP = 'Words match whole terms. Use "quotes" for phrases, word* for prefixes, and type:version, before:2026-01-01 or after:2026-01-01 to filter.';
+
+/**
+ * Render a search snippet with its matches marked
+ */
+const renderSnippet = (snippet: SearchSnippet) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <mark key={i} className="bg-warning-100 text-primary rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+  return parts;
+};
+
 export const PromptManager: React.FC<PromptManagerProps> = ({
   onLoadDocument,
   onNewDocument,
   onLoadVersion,
   onDeleteVersion,
   onSaveVersion,
+  onMergeVersion,
+  onPinVersion,
+  onSetVersionTags,
+  onMoveVersionLabel,
   currentDocumentId,
+  currentDocumentName,
+  onRenameDocument,
   currentContent,
+  currentVersions,
+  currentLabelHistory,
+  baseVersionId,
   hasUnsavedChanges,
   className = '',
 }) => {
   const [prompts, setPrompts] = useState<PromptItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'all' | 'documents' | 'versions'>('all');
+  const [activeTab, setActiveTab] = useState<'all' | 'documents' | 'versions' | 'history' | 'partials' | 'trash' | 'storage' | 'diagnostics'>('all');
   const [newVersionName, setNewVersionName] = useState('');
+  const [newVersionNote, setNewVersionNote] = useState('');
   const [showSuccess, setShowSuccess] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [importBundle, setImportBundle] = useState<WorkspaceBundle | null>(null);
+  const [transferError, setTransferError] = useState<string | null>(null);
+  const [trashNotice, setTrashNotice] = useState<string | null>(null);
+  const [searchResults, setSearchResults] = useState<PromptItem[] | null>(null);
+  const [searchErrors, setSearchErrors] = useState<string[]>([]);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  // '' for every version, 'pinned', 'label:<name>' or 'tag:<name>'
+  const [versionFilter, setVersionFilter] = useState('');
+  const [labelsTarget, setLabelsTarget] = useState<{ documentId: string; versionId: string } | null>(null);
+  // Versions of other documents are edited straight in storage, so their document is loaded here
+  const [labelsDocument, setLabelsDocument] = useState<DocumentState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const loadPrompts = async () => {
     setIsLoading(true);
@@ -56,7 +134,7 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
           // Add document
           allPrompts.push({
             id: doc.id,
-            name: `Document ${doc.id.slice(-8)}`,
+            name: getDocumentLabel(doc),
             content: doc.content,
             updatedAt: doc.updatedAt,
             type: 'document',
@@ -66,12 +144,18 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
           doc.versions.forEach(version => {
             allPrompts.push({
               id: version.id,
-              name: version.name || `Version ${version.id.slice(-8)}`,
+              name: getVersionLabel(version),
               content: version.content,
               updatedAt: version.createdAt,
               type: 'version',
               parentId: doc.id,
               summary: version.summary || '',
+              note: version.note,
+              suggestedNote: version.suggestedNote,
+              auto: version.auto,
+              pinned: version.pinned,
+              labels: version.labels,
+              tags: version.tags,
             });
           });
         }
@@ -93,32 +177,139 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
     }
   }, [isOpen]);
 
+  // Keep the open list current when other tabs change prompts
+  useEffect(() => {
+    if (!isOpen) return;
+    return tabSync.subscribe(() => {
+      loadPrompts();
+    });
+  }, [isOpen]);
+
+  // Query the search index as the user types
+  useEffect(() => {
+    if (!isOpen || !searchQuery.trim()) {
+      setSearchResults(null);
+      setSearchErrors([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const type = activeTab === 'documents' ? 'document' : activeTab === 'versions' ? 'version' : undefined;
+        const { results, errors } = await versionStorage.search(searchQuery, { type });
+        if (cancelled) return;
+        setSearchResults(results.map(result => ({
+          id: result.id,
+          name: result.label,
+          content: '',
+          updatedAt: result.date,
+          type: result.type,
+          parentId: result.type === 'version' ? result.documentId : undefined,
+          snippet: result.snippet,
+        })));
+        setSearchErrors(errors);
+      } catch (error) {
+        console.error('Failed to search prompts:', error);
+        if (!cancelled) setSearchErrors(['Search failed']);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, searchQuery, activeTab, prompts]);
+
+  const baseContent = currentVersions.find(v => v.id === baseVersionId)?.content ?? null;
+  const suggestedNote = useMemo(() => suggestVersionNote(baseContent, currentContent), [baseContent, currentContent]);
+
   const handleSaveVersion = () => {
     if (currentContent.trim()) {
-      onSaveVersion(currentContent, newVersionName || undefined);
+      onSaveVersion(currentContent, newVersionName || undefined, newVersionNote || undefined);
       setNewVersionName('');
+      setNewVersionNote('');
       setShowSuccess(true);
       setTimeout(() => setShowSuccess(false), 2000);
     }
   };
 
+  // Deleting only moves items to the trash, so no confirmation is asked
   const handleDeletePrompt = async (prompt: PromptItem) => {
-    const isDocument = prompt.type === 'document';
-    const confirmMessage = isDocument 
-      ? 'Are you sure you want to delete this document and all its versions?' 
-      : 'Are you sure you want to delete this version?';
+    try {
+      if (prompt.type === 'document') {
+        await versionStorage.deleteDocument(prompt.id);
+      } else if (prompt.parentId && prompt.parentId !== currentDocumentId) {
+        await versionStorage.deleteVersion(prompt.parentId, prompt.id);
+      } else {
+        // Versions of the open document go through the editor state
+        await onDeleteVersion(prompt.id);
+      }
+      setTrashNotice(`Moved "${prompt.name}" to the trash`);
+      await loadPrompts();
+    } catch (error) {
+      console.error('Failed to delete prompt:', error);
+    }
+  };
 
-    if (confirm(confirmMessage)) {
-      try {
-        if (isDocument) {
-          await versionStorage.deleteDocument(prompt.id);
-        } else {
-          onDeleteVersion(prompt.id);
-        }
-        await loadPrompts();
-      } catch (error) {
-        console.error('Failed to delete prompt:', error);
+  const handleOpenLabels = async (prompt: PromptItem) => {
+    if (!prompt.parentId) return;
+    try {
+      setLabelsDocument(prompt.parentId === currentDocumentId ? null : await versionStorage.loadDocument(prompt.parentId));
+      setLabelsTarget({ documentId: prompt.parentId, versionId: prompt.id });
+    } catch (error) {
+      console.error('Failed to load version labels:', error);
+    }
+  };
+
+  // Versions of the open document go through the editor state, like deletes
+  const updateLabelsTarget = async (
+    updateCurrent: () => void | Promise<void>,
+    updateStored: (documentId: string) => Promise<unknown>
+  ) => {
+    if (!labelsTarget) return;
+    try {
+      if (labelsTarget.documentId === currentDocumentId) {
+        await updateCurrent();
+      } else {
+        await updateStored(labelsTarget.documentId);
+        setLabelsDocument(await versionStorage.loadDocument(labelsTarget.documentId));
       }
+      await loadPrompts();
+    } catch (error) {
+      console.error('Failed to update version labels:', error);
+    }
+  };
+
+  const handleExport = async () => {
+    setTransferError(null);
+    try {
+      downloadBundle(await exportWorkspace());
+    } catch (error) {
+      console.error('Failed to export prompts:', error);
+      setTransferError('Failed to export prompts');
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setTransferError(null);
+    try {
+      setImportBundle(parseBundle(await file.text()));
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      setTransferError(error instanceof BundleError ? error.message : 'Failed to read import file');
+    }
+  };
+
+  const handleImported = async (documentIds: string[]) => {
+    await loadPrompts();
+    // Refresh the editor if the open document was replaced
+    if (documentIds.includes(currentDocumentId)) {
+      onLoadDocument(currentDocumentId);
     }
   };
 
@@ -147,19 +338,53 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
     return words.slice(0, 10).join(' ') + (words.length > 10 ? '...' : '');
   };
 
-  const filteredPrompts = prompts.filter(prompt => {
-    const matchesSearch = prompt.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         prompt.content.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    if (activeTab === 'all') return matchesSearch;
-    if (activeTab === 'documents') return prompt.type === 'document' && matchesSearch;
-    if (activeTab === 'versions') return prompt.type === 'version' && matchesSearch;
-    
-    return matchesSearch;
-  });
+  // Search results carry no content, so compare against the loaded list
+  const diffSources: DiffSource[] = [
+    { id: CURRENT_SOURCE_ID, label: hasUnsavedChanges ? 'Current content (unsaved)' : 'Current content', content: currentContent },
+    ...prompts.map(prompt => ({
+      id: prompt.id,
+      label: prompt.type === 'version' && prompt.parentId
+        ? `${prompt.name} · Document ${prompt.parentId.slice(-8)} · ${formatDate(prompt.updatedAt)}`
+        : `${prompt.name} · ${formatDate(prompt.updatedAt)}`,
+      content: prompt.content,
+    })),
+  ];
+
+  // Search results carry no version metadata, so take it from the loaded list
+  const promptsById = new Map(prompts.map(prompt => [prompt.id, prompt]));
+  const withMetadata = (prompt: PromptItem): PromptItem => {
+    const loaded = promptsById.get(prompt.id);
+    return loaded
+      ? { ...prompt, note: loaded.note, suggestedNote: loaded.suggestedNote, auto: loaded.auto, pinned: loaded.pinned, labels: loaded.labels, tags: loaded.tags }
+      : prompt;
+  };
+
+  const matchesVersionFilter = (prompt: PromptItem) => {
+    if (!versionFilter) return true;
+    if (versionFilter === 'pinned') return Boolean(prompt.pinned);
+    if (versionFilter.startsWith('label:')) return Boolean(prompt.labels?.includes(versionFilter.slice('label:'.length)));
+    if (versionFilter.startsWith('tag:')) return Boolean(prompt.tags?.includes(versionFilter.slice('tag:'.length)));
+    return true;
+  };
+
+  const showsVersionFilter = ['all', 'versions'].includes(activeTab);
+  const tabPrompts = prompts.filter(prompt => {
+    if (activeTab === 'documents') return prompt.type === 'document';
+    if (activeTab === 'versions') return prompt.type === 'version';
+    return true;
+  }).filter(prompt => !showsVersionFilter || matchesVersionFilter(prompt));
+  // Auto snapshots stay collapsed unless asked for or filtered to; search results are already ranked and filtered by tab
+  const snapshotCount = searchResults || versionFilter || !showsVersionFilter
+    ? 0
+    : tabPrompts.filter(prompt => prompt.auto).length;
+  const filteredPrompts = searchResults
+    ? searchResults.map(withMetadata).filter(prompt => !showsVersionFilter || matchesVersionFilter(prompt))
+    : showSnapshots || versionFilter ? tabPrompts : tabPrompts.filter(prompt => !prompt.auto);
 
   const documents = prompts.filter(p => p.type === 'document');
   const versions = prompts.filter(p => p.type === 'version');
+  const labelNames = [...new Set(versions.flatMap(p => p.labels ?? []))].sort();
+  const tagNames = [...new Set(versions.flatMap(p => p.tags ?? []))].sort();
 
   return (
     <div className={`prompt-manager ${className}`}>
@@ -216,6 +441,17 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
         className="hidden md:block px-3 py-2 border border-primary rounded-lg bg-surface-primary text-text-primary placeholder:text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-normal text-body-small"
       />
 
+      {/* Change Note Input - Hidden on mobile to save space; left empty, the suggestion is kept as a suggested note */}
+      <input
+        type="text"
+        value={newVersionNote}
+        onChange={(e) => setNewVersionNote(e.target.value)}
+        placeholder={suggestedNote}
+        title="Change note (optional); if left empty, the suggestion shown is kept as a suggested note"
+        aria-label="Change note"
+        className="hidden md:block px-3 py-2 border border-primary rounded-lg bg-surface-primary text-text-primary placeholder:text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-normal text-body-small"
+      />
+
       {/* Dropdown Panel */}
       {isOpen && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-surface-primary border border-primary rounded-lg shadow-elevation-3 z-50 max-h-96 overflow-y-auto w-full sm:w-auto sm:min-w-md">
@@ -223,27 +459,91 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
             {/* Header */}
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-heading-4 font-semibold text-primary">Prompt Manager</h3>
-              <button
-                onClick={onNewDocument}
-                className="inline-flex items-center px-3 py-1 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-normal text-body-small"
-              >
-                <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                </svg>
-                <span className="hidden sm:inline">New Document</span>
-                <span className="sm:hidden">New</span>
-              </button>
+              <div className="flex items-center space-sm">
+                <button
+                  onClick={handleExport}
+                  className="inline-flex items-center px-3 py-1 bg-surface-primary text-text-primary font-medium rounded-lg border border-primary hover:bg-surface-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-normal text-body-small"
+                  title="Download all prompts and their versions as a bundle"
+                >
+                  <svg className="w-4 h-4 sm:mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                  <span className="hidden sm:inline">Export</span>
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="inline-flex items-center px-3 py-1 bg-surface-primary text-text-primary font-medium rounded-lg border border-primary hover:bg-surface-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-normal text-body-small"
+                  title="Import prompts from a bundle"
+                >
+                  <svg className="w-4 h-4 sm:mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                  </svg>
+                  <span className="hidden sm:inline">Import</span>
+                </button>
+                <button
+                  onClick={() => downloadChangelog({ id: currentDocumentId, name: currentDocumentName, versions: currentVersions })}
+                  disabled={currentVersions.length === 0}
+                  className="inline-flex items-center px-3 py-1 bg-surface-primary text-text-primary font-medium rounded-lg border border-primary hover:bg-surface-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-normal text-body-small disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Download a changelog of the open prompt's versions"
+                >
+                  <svg className="w-4 h-4 sm:mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                  </svg>
+                  <span className="hidden sm:inline">Changelog</span>
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImportFile}
+                  className="hidden"
+                  aria-label="Import bundle file"
+                />
+                <button
+                  onClick={onNewDocument}
+                  className="inline-flex items-center px-3 py-1 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-normal text-body-small"
+                >
+                  <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                  </svg>
+                  <span className="hidden sm:inline">New Document</span>
+                  <span className="sm:hidden">New</span>
+                </button>
+              </div>
             </div>
 
+            {transferError && (
+              <p className="mb-4 text-body-small text-error-600" role="alert">{transferError}</p>
+            )}
+
+            {trashNotice && activeTab !== 'trash' && (
+              <div className="mb-4 flex items-center justify-between text-body-small text-secondary" role="status">
+                <span>{trashNotice}</span>
+                <button
+                  onClick={() => {
+                    setTrashNotice(null);
+                    setActiveTab('trash');
+                  }}
+                  className="font-medium text-primary-600 hover:text-primary-700"
+                >
+                  Open trash
+                </button>
+              </div>
+            )}
+
             {/* Search - Simplified on mobile */}
-            <div className="mb-4">
+            <div className={`mb-4 ${['history', 'partials', 'trash', 'storage', 'diagnostics'].includes(activeTab) ? 'hidden' : ''}`}>
               <input
                 type="text"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Search prompts..."
+                placeholder='Search prompts... ("phrase", prefix*, type:version)'
+                title={SEARCH_HELP}
                 className="w-full px-3 py-2 border border-primary rounded-lg bg-surface-primary text-text-primary placeholder:text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-normal text-body-small"
               />
+              {searchErrors.map(message => (
+                <p key={message} className="mt-1 text-caption text-error-600">{message}</p>
+              ))}
             </div>
 
             {/* Tabs - Simplified on mobile */}
@@ -252,6 +552,11 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
                 { key: 'all', label: `All (${prompts.length})`, shortLabel: 'All' },
                 { key: 'documents', label: `Documents (${documents.length})`, shortLabel: 'Docs' },
                 { key: 'versions', label: `Versions (${versions.length})`, shortLabel: 'Vers' },
+                { key: 'history', label: 'History', shortLabel: 'Tree' },
+                { key: 'partials', label: 'Partials', shortLabel: 'Parts' },
+                { key: 'trash', label: 'Trash', shortLabel: 'Trash' },
+                { key: 'storage', label: 'Storage', shortLabel: 'Storage' },
+                { key: 'diagnostics', label: 'Diagnostics', shortLabel: 'Check' },
               ].map(tab => (
                 <button
                   key={tab.key}
@@ -268,8 +573,75 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
               ))}
             </div>
 
+            {showsVersionFilter && (
+              <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                <select
+                  value={versionFilter}
+                  onChange={(e) => setVersionFilter(e.target.value)}
+                  aria-label="Filter versions"
+                  className="px-2 py-1 border border-primary rounded-lg bg-surface-primary text-text-primary text-caption"
+                >
+                  <option value="">All versions</option>
+                  <option value="pinned">Pinned</option>
+                  {labelNames.map(name => (
+                    <option key={`label-${name}`} value={`label:${name}`}>Label: {name}</option>
+                  ))}
+                  {tagNames.map(name => (
+                    <option key={`tag-${name}`} value={`tag:${name}`}>Tag: #{name}</option>
+                  ))}
+                </select>
+                {snapshotCount > 0 && (
+                  <button
+                    onClick={() => setShowSnapshots(!showSnapshots)}
+                    aria-expanded={showSnapshots}
+                    className="text-caption text-secondary hover:text-primary transition-normal"
+                  >
+                    {showSnapshots
+                      ? 'Hide auto snapshots'
+                      : snapshotCount === 1 ? 'Show 1 auto snapshot' : `Show ${snapshotCount} auto snapshots`}
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Content */}
-            {isLoading ? (
+            {activeTab === 'history' ? (
+              <VersionGraph
+                versions={currentVersions}
+                baseVersionId={baseVersionId}
+                hasUnsavedChanges={hasUnsavedChanges}
+                onLoadVersion={onLoadVersion}
+                onMergeVersion={onMergeVersion}
+              />
+            ) : activeTab === 'partials' ? (
+              <PartialsPanel
+                currentDocumentId={currentDocumentId}
+                currentDocumentName={currentDocumentName}
+                onRenameDocument={onRenameDocument}
+                onOpenDocument={(documentId) => {
+                  onLoadDocument(documentId);
+                  setIsOpen(false);
+                }}
+              />
+            ) : activeTab === 'trash' ? (
+              <TrashPanel
+                currentDocumentId={currentDocumentId}
+                onDocumentChanged={onLoadDocument}
+              />
+            ) : activeTab === 'diagnostics' ? (
+              <DiagnosticsPanel
+                currentDocumentId={currentDocumentId}
+                onDocumentChanged={onLoadDocument}
+              />
+            ) : activeTab === 'storage' ? (
+              <div className="space-y-3">
+                <EncryptionPanel />
+                <StorageUsagePanel
+                  currentDocumentId={currentDocumentId}
+                  onDocumentChanged={onLoadDocument}
+                />
+              </div>
+            ) : isLoading ? (
               <div className="text-center py-8 text-secondary">
                 <svg className="w-8 h-8 mx-auto mb-4 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -315,6 +687,8 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
                               {prompt.name}
                             </h4>
                           </div>
+
+                          <VersionBadges version={prompt} />
                           
                           {prompt.id === currentDocumentId && (
                             <span className="inline-flex items-center px-1.5 sm:px-2 py-0.5 rounded-full text-caption bg-primary-600 text-white border border-primary-600">
@@ -328,8 +702,17 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
                           </span>
                         </div>
                         
+                        {!prompt.snippet?.text && (prompt.note ? (
+                          <p className="text-body-small text-primary mb-1 truncate">{prompt.note}</p>
+                        ) : prompt.suggestedNote && (
+                          <p className="text-body-small text-secondary italic mb-1 truncate" title="Suggested from the sections that changed">
+                            {prompt.suggestedNote}
+                          </p>
+                        ))}
                         <p className="text-caption text-secondary line-clamp-2">
-                          {prompt.summary || getContentPreview(prompt.content)}
+                          {prompt.snippet?.text
+                            ? renderSnippet(prompt.snippet)
+                            : prompt.summary || getContentPreview(prompt.content)}
                         </p>
                         
                         {prompt.type === 'version' && prompt.parentId && (
@@ -341,6 +724,34 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
                         )}
                       </div>
                       
+                      {prompt.type === 'version' && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleOpenLabels(prompt);
+                          }}
+                          className="p-2 text-secondary hover:text-primary hover:bg-surface-secondary rounded-lg transition-normal ml-2"
+                          title="Labels, tags and pin"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                          </svg>
+                        </button>
+                      )}
+
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setCompareId(prompt.id);
+                        }}
+                        className="p-2 text-secondary hover:text-primary hover:bg-surface-secondary rounded-lg transition-normal ml-2"
+                        title="Compare with current content"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                        </svg>
+                      </button>
+
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -361,6 +772,47 @@ export const PromptManager: React.FC<PromptManagerProps> = ({
           </div>
         </div>
       )}
+
+      {labelsTarget && (labelsTarget.documentId === currentDocumentId || labelsDocument) && (
+        <VersionLabelsDialog
+          versionId={labelsTarget.versionId}
+          versions={labelsTarget.documentId === currentDocumentId ? currentVersions : labelsDocument?.versions ?? []}
+          labelHistory={labelsTarget.documentId === currentDocumentId ? currentLabelHistory : labelsDocument?.labelHistory ?? []}
+          onPin={(pinned) => updateLabelsTarget(
+            () => onPinVersion(labelsTarget.versionId, pinned),
+            (documentId) => versionStorage.updateVersionMetadata(documentId, labelsTarget.versionId, { pinned })
+          )}
+          onSetTags={(tags) => updateLabelsTarget(
+            () => onSetVersionTags(labelsTarget.versionId, tags),
+            (documentId) => versionStorage.updateVersionMetadata(documentId, labelsTarget.versionId, { tags })
+          )}
+          onMoveLabel={(label, versionId) => updateLabelsTarget(
+            () => onMoveVersionLabel(label, versionId),
+            (documentId) => versionStorage.moveVersionLabel(documentId, label, versionId)
+          )}
+          onClose={() => {
+            setLabelsTarget(null);
+            setLabelsDocument(null);
+          }}
+        />
+      )}
+
+      {compareId && (
+        <DiffDialog
+          sources={diffSources}
+          initialBeforeId={compareId}
+          initialAfterId={CURRENT_SOURCE_ID}
+          onClose={() => setCompareId(null)}
+        />
+      )}
+
+      {importBundle && (
+        <ImportDialog
+          bundle={importBundle}
+          onClose={() => setImportBundle(null)}
+          onImported={handleImported}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import type { BenchmarkResult } from '../../services/storageBenchmark';
+
+const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+const ms = (value: number) => `${value.toFixed(1)} ms`;
+
+// Development builds only; the benchmark module is loaded when it is run
+export const StorageBenchmarkPanel: React.FC = () => {
+  const [versionCount, setVersionCount] = useState(200);
+  const [promptLines, setPromptLines] = useState(150);
+  const [result, setResult] = useState<BenchmarkResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const { runStorageBenchmark } = await import('../../services/storageBenchmark');
+      setResult(await runStorageBenchmark({ versionCount, promptLines }));
+    } catch (err) {
+      console.error('Failed to run storage benchmark:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run storage benchmark');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const rows = result
+    ? [
+        { label: 'Full copies', format: result.full },
+        { label: 'Snapshots + deltas', format: result.delta },
+      ]
+    : [];
+
+  return (
+    <div className="pt-3 border-t border-primary space-y-2">
+      <h4 className="text-body font-medium text-primary">Storage benchmark</h4>
+      <p className="text-caption text-tertiary">
+        Development builds only. Compares full-copy versions with snapshot-plus-delta versions for a synthetic history.
+      </p>
+      <div className="flex flex-wrap items-center gap-3 text-body-small text-primary">
+        <label className="inline-flex items-center gap-1">
+          Versions
+          <input
+            type="number"
+            min={1}
+            value={versionCount}
+            onChange={(e) => setVersionCount(Math.max(1, Number(e.target.value) || 1))}
+            className="w-20 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary"
+          />
+        </label>
+        <label className="inline-flex items-center gap-1">
+          Prompt lines
+          <input
+            type="number"
+            min={1}
+            value={promptLines}
+            onChange={(e) => setPromptLines(Math.max(1, Number(e.target.value) || 1))}
+            className="w-20 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary"
+          />
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="px-3 py-1 text-body-small font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning ? 'Running...' : 'Run'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-body-small text-error-600" role="alert">{error}</p>
+      )}
+
+      {result && (
+        <>
+          <p className="text-body-small text-secondary">
+            {result.versionCount} versions, ~{result.averageContentLength} characters each.
+            The delta format uses {(result.sizeRatio * 100).toFixed(1)}% of the full-copy size.
+          </p>
+          <table className="w-full text-body-small text-primary">
+            <thead>
+              <tr className="text-caption text-secondary text-right">
+                <th className="py-1 text-left font-medium">Format</th>
+                <th className="py-1 font-medium">Stored size</th>
+                <th className="py-1 font-medium">Encode</th>
+                <th className="py-1 font-medium">Load all versions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ label, format }) => (
+                <tr key={label} className="border-t border-primary text-right">
+                  <td className="py-1 text-left">{label}</td>
+                  <td className="py-1">{kb(format.storedBytes)}</td>
+                  <td className="py-1">{ms(format.encodeMs)}</td>
+                  <td className="py-1">{ms(format.loadMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
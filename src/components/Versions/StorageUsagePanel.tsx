@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { versionStorage } from '../../services/storage';
+import { planPrune } from '../../services/retention';
+import type { RetentionPolicy } from '../../services/retention';
+import type { SnapshotPolicy } from '../../services/snapshots';
+import { AUTO_SNAPSHOT_CONFIG } from '../../config/features';
+
+interface StorageUsagePanelProps {
+  currentDocumentId: string;
+  onDocumentChanged: (documentId: string) => void;
+}
+
+interface DocumentUsageRow {
+  documentId: string;
+  versionCount: number;
+  totalBytes: number;
+  prunableCount: number;
+  prunableBytes: number;
+  override: RetentionPolicy | null;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const parseLimit = (value: string, min = 0): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.max(min, parsed) : null;
+};
+
+interface RetentionPolicyFormProps {
+  policy: RetentionPolicy;
+  onChange: (policy: RetentionPolicy) => void;
+}
+
+const RetentionPolicyForm: React.FC<RetentionPolicyFormProps> = ({ policy, onChange }) => (
+  <div className="flex flex-wrap items-center gap-3 text-body-small text-primary">
+    <label className="inline-flex items-center gap-1">
+      <input
+        type="checkbox"
+        checked={policy.enabled}
+        onChange={(e) => onChange({ ...policy, enabled: e.target.checked })}
+      />
+      Prune on save
+    </label>
+    <label className="inline-flex items-center gap-1">
+      Keep last
+      <input
+        type="number"
+        min={1}
+        value={policy.keepLast ?? ''}
+        placeholder="all"
+        onChange={(e) => onChange({ ...policy, keepLast: parseLimit(e.target.value, 1) })}
+        className="w-16 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary"
+      />
+    </label>
+    <label className="inline-flex items-center gap-1">
+      Daily after
+      <input
+        type="number"
+        min={0}
+        value={policy.dailyAfterDays ?? ''}
+        placeholder="never"
+        onChange={(e) => onChange({ ...policy, dailyAfterDays: parseLimit(e.target.value) })}
+        className="w-16 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary"
+      />
+      days
+    </label>
+  </div>
+);
+
+interface SnapshotPolicyFormProps {
+  policy: SnapshotPolicy;
+  onChange: (policy: SnapshotPolicy) => void;
+}
+
+const SnapshotPolicyForm: React.FC<SnapshotPolicyFormProps> = ({ policy, onChange }) => (
+  <div className="flex flex-wrap items-center gap-3 text-body-small text-primary">
+    <label className="inline-flex items-center gap-1">
+      <input
+        type="checkbox"
+        checked={policy.enabled}
+        onChange={(e) => onChange({ ...policy, enabled: e.target.checked })}
+      />
+      Take snapshots
+    </label>
+    <label className="inline-flex items-center gap-1">
+      When idle for
+      <input
+        type="number"
+        min={1}
+        value={policy.idleSeconds ?? ''}
+        placeholder="never"
+        onChange={(e) => onChange({ ...policy, idleSeconds: parseLimit(e.target.value) || null })}
+        className="w-16 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary"
+      />
+      seconds
+    </label>
+    <label className="inline-flex items-center gap-1">
+      Every
+      <input
+        type="number"
+        min={1}
+        value={policy.intervalMinutes ?? ''}
+        placeholder="never"
+        onChange={(e) => onChange({ ...policy, intervalMinutes: parseLimit(e.target.value) || null })}
+        className="w-16 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary"
+      />
+      minutes
+    </label>
+    <label className="inline-flex items-center gap-1">
+      After
+      <input
+        type="number"
+        min={1}
+        value={policy.editDistance ?? ''}
+        placeholder="never"
+        onChange={(e) => onChange({ ...policy, editDistance: parseLimit(e.target.value) || null })}
+        className="w-20 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary"
+      />
+      changed characters
+    </label>
+  </div>
+);
+
+export const StorageUsagePanel: React.FC<StorageUsagePanelProps> = ({
+  currentDocumentId,
+  onDocumentChanged,
+}) => {
+  const [globalPolicy, setGlobalPolicy] = useState<RetentionPolicy | null>(null);
+  const [snapshotPolicy, setSnapshotPolicy] = useState<SnapshotPolicy | null>(null);
+  const [rows, setRows] = useState<DocumentUsageRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [policy, usage, snapshots] = await Promise.all([
+        versionStorage.getRetentionPolicy(),
+        versionStorage.getUsageReport(),
+        versionStorage.getSnapshotPolicy(),
+      ]);
+      const nextRows: DocumentUsageRow[] = [];
+
+      for (const entry of usage) {
+        const document = await versionStorage.loadDocument(entry.documentId);
+        if (!document) continue;
+
+        const override = await versionStorage.getDocumentRetentionPolicy(entry.documentId);
+        const { prune } = planPrune(document.versions, override ?? policy);
+        const versionTotal = Object.values(entry.versionBytes).reduce((sum, bytes) => sum + bytes, 0);
+
+        nextRows.push({
+          documentId: entry.documentId,
+          versionCount: document.versions.length,
+          totalBytes: entry.documentBytes + versionTotal,
+          prunableCount: prune.length,
+          prunableBytes: prune.reduce((sum, v) => sum + (entry.versionBytes[v.id] ?? 0), 0),
+          override,
+        });
+      }
+
+      nextRows.sort((a, b) => b.totalBytes - a.totalBytes);
+      setGlobalPolicy(policy);
+      setSnapshotPolicy(snapshots);
+      setRows(nextRows);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load storage usage:', err);
+      setError('Failed to load storage usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const savePolicy = async (policy: RetentionPolicy | null, documentId?: string) => {
+    try {
+      await versionStorage.setRetentionPolicy(policy, documentId);
+      await loadUsage();
+    } catch (err) {
+      console.error('Failed to save retention policy:', err);
+      setError('Failed to save retention policy');
+    }
+  };
+
+  const saveSnapshotPolicy = async (policy: SnapshotPolicy) => {
+    setSnapshotPolicy(policy);
+    try {
+      await versionStorage.setSnapshotPolicy(policy);
+    } catch (err) {
+      console.error('Failed to save snapshot policy:', err);
+      setError('Failed to save snapshot policy');
+    }
+  };
+
+  const pruneDocuments = async (documentIds: string[]) => {
+    try {
+      for (const documentId of documentIds) {
+        const pruned = await versionStorage.pruneDocument(documentId);
+        if (pruned.length > 0 && documentId === currentDocumentId) {
+          onDocumentChanged(documentId);
+        }
+      }
+      await loadUsage();
+    } catch (err) {
+      console.error('Failed to prune versions:', err);
+      setError('Failed to prune versions');
+    }
+  };
+
+  const totalBytes = rows.reduce((sum, row) => sum + row.totalBytes, 0);
+  const prunableRows = rows.filter(row => row.prunableCount > 0);
+  const prunableCount = prunableRows.reduce((sum, row) => sum + row.prunableCount, 0);
+  const prunableBytes = prunableRows.reduce((sum, row) => sum + row.prunableBytes, 0);
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <p className="text-body-small text-error-600" role="alert">{error}</p>
+      )}
+
+      {/* Global policy */}
+      <div className="p-3 border border-primary rounded-lg">
+        <h4 className="text-body font-medium text-primary mb-2">Retention policy (all documents)</h4>
+        {globalPolicy && (
+          <RetentionPolicyForm policy={globalPolicy} onChange={(policy) => savePolicy(policy)} />
+        )}
+        <p className="text-caption text-tertiary mt-2">Named, pinned and labelled versions are never pruned.</p>
+      </div>
+
+      {/* Automatic snapshots */}
+      <div className="p-3 border border-primary rounded-lg">
+        <h4 className="text-body font-medium text-primary mb-2">Automatic snapshots</h4>
+        {snapshotPolicy && (
+          <SnapshotPolicyForm policy={snapshotPolicy} onChange={saveSnapshotPolicy} />
+        )}
+        <p className="text-caption text-tertiary mt-2">
+          Unsaved changes are also snapshotted before another version is loaded or the prompt is cleared.
+          While automatic pruning is off, only the newest {AUTO_SNAPSHOT_CONFIG.MAX_KEPT} snapshots are kept,
+          not counting named, pinned or labelled ones.
+        </p>
+      </div>
+
+      {/* Totals */}
+      <div className="flex items-center justify-between">
+        <p className="text-body-small text-secondary">
+          {formatBytes(totalBytes)} used · pruning would free {formatBytes(prunableBytes)} ({prunableCount} versions)
+        </p>
+        <button
+          onClick={() => pruneDocuments(prunableRows.map(row => row.documentId))}
+          disabled={prunableCount === 0 || isLoading}
+          className="px-3 py-1 text-body-small font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Prune all
+        </button>
+      </div>
+
+      {/* Per-document usage */}
+      {isLoading && rows.length === 0 ? (
+        <p className="text-body-small text-secondary text-center py-4">Measuring storage...</p>
+      ) : (
+        <ul className="space-y-2" aria-label="Storage usage by document">
+          {rows.map(row => (
+            <li key={row.documentId} className="p-2 sm:p-3 border border-primary rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-body-small font-medium text-primary truncate">
+                    Document {row.documentId.slice(-8)}
+                    {row.documentId === currentDocumentId && (
+                      <span className="ml-2 text-caption text-secondary">(current)</span>
+                    )}
+                  </p>
+                  <p className="text-caption text-secondary">
+                    {row.versionCount} versions · {formatBytes(row.totalBytes)}
+                    {row.prunableCount > 0 && ` · prune frees ${formatBytes(row.prunableBytes)} (${row.prunableCount} versions)`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => pruneDocuments([row.documentId])}
+                  disabled={row.prunableCount === 0}
+                  className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Prune
+                </button>
+              </div>
+
+              <label className="mt-2 inline-flex items-center gap-1 text-caption text-secondary">
+                <input
+                  type="checkbox"
+                  checked={row.override !== null}
+                  onChange={(e) => savePolicy(e.target.checked ? globalPolicy : null, row.documentId)}
+                />
+                Custom policy for this document
+              </label>
+              {row.override && (
+                <div className="mt-2">
+                  <RetentionPolicyForm
+                    policy={row.override}
+                    onChange={(policy) => savePolicy(policy, row.documentId)}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
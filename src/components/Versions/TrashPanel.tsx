@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { versionStorage, TrashError } from '../../services/storage';
+import type { TrashItem } from '../../services/storage';
+import { StoreLockedError } from '../../services/encryption';
+import { TRASH_CONFIG } from '../../config/features';
+
+interface TrashPanelProps {
+  currentDocumentId: string;
+  onDocumentChanged: (documentId: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const daysUntilPurge = (item: TrashItem) => {
+  const elapsed = Date.now() - new Date(item.deletedAt).getTime();
+  return Math.max(0, Math.ceil(TRASH_CONFIG.RETENTION_DAYS - elapsed / DAY_MS));
+};
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({ currentDocumentId, onDocumentChanged }) => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setItems(await versionStorage.listTrash());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setError(null);
+    try {
+      const documentId = await versionStorage.restoreFromTrash(item.id);
+      if (documentId === currentDocumentId) {
+        onDocumentChanged(documentId);
+      }
+      await loadTrash();
+    } catch (err) {
+      if (err instanceof TrashError) {
+        setError(err.message);
+      } else if (err instanceof StoreLockedError) {
+        setError('Unlock your prompts to restore items');
+      } else {
+        console.error('Failed to restore from trash:', err);
+        setError('Failed to restore from trash');
+      }
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!confirm(`Permanently delete "${item.label}"? This cannot be undone.`)) return;
+    setError(null);
+    try {
+      await versionStorage.purgeFromTrash(item.id);
+      await loadTrash();
+    } catch (err) {
+      console.error('Failed to purge trash item:', err);
+      setError('Failed to delete item');
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(`Permanently delete all ${items.length} items in the trash? This cannot be undone.`)) return;
+    setError(null);
+    try {
+      await versionStorage.emptyTrash();
+      await loadTrash();
+    } catch (err) {
+      console.error('Failed to empty trash:', err);
+      setError('Failed to empty trash');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <p className="text-body-small text-error-600" role="alert">{error}</p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-body-small text-secondary">
+          Deleted items are kept for {TRASH_CONFIG.RETENTION_DAYS} days.
+        </p>
+        <button
+          onClick={handleEmpty}
+          disabled={items.length === 0}
+          className="px-3 py-1 text-body-small font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      {isLoading && items.length === 0 ? (
+        <p className="text-body-small text-secondary text-center py-4">Loading trash...</p>
+      ) : items.length === 0 ? (
+        <p className="text-body-small text-secondary text-center py-4">The trash is empty</p>
+      ) : (
+        <ul className="space-y-2" aria-label="Deleted documents and versions">
+          {items.map(item => (
+            <li key={item.id} className="p-2 sm:p-3 border border-primary rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-body-small font-medium text-primary truncate">
+                    {item.label}
+                    <span className="ml-2 text-caption text-secondary">
+                      {item.kind === 'document'
+                        ? `document · ${item.versionCount} versions`
+                        : `version of Document ${item.documentId.slice(-8)}`}
+                    </span>
+                  </p>
+                  <p className="text-caption text-tertiary">
+                    Deleted {formatDate(item.deletedAt)} · removed in {daysUntilPurge(item)} days
+                  </p>
+                </div>
+                <div className="flex items-center space-sm flex-shrink-0">
+                  <button
+                    onClick={() => handleRestore(item)}
+                    className="px-2 py-1 text-caption font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handlePurge(item)}
+                    className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-secondary hover:text-error hover:bg-error-50 transition-normal"
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
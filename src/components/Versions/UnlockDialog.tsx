@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Dialog } from '../Layout/Dialog';
+import { WrongPassphraseError } from '../../services/encryption';
+
+interface UnlockDialogProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+export const UnlockDialog: React.FC<UnlockDialogProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      if (err instanceof WrongPassphraseError) {
+        setError('Wrong passphrase. Your prompts were not changed; try again.');
+      } else {
+        console.error('Failed to unlock storage:', err);
+        setError('Failed to unlock storage');
+      }
+      setPassphrase('');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <Dialog title="Unlock your prompts" className="max-w-md">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <p className="text-body-small text-secondary">
+          Your saved prompts are encrypted. Enter your passphrase to open them.
+        </p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          autoComplete="current-password"
+          aria-label="Passphrase"
+          className="w-full px-3 py-2 text-body-small border border-primary rounded-lg bg-surface-primary text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        {error && (
+          <p className="text-body-small text-error-600" role="alert">{error}</p>
+        )}
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={!passphrase || isUnlocking}
+            className="px-4 py-2 text-body-small font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </div>
+      </form>
+    </Dialog>
+  );
+};
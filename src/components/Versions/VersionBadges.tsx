@@ -0,0 +1,46 @@
+import React from 'react';
+import type { Version } from '../../types/editor';
+
+interface VersionBadgesProps {
+  version: Pick<Version, 'auto' | 'pinned' | 'labels' | 'tags'>;
+}
+
+/**
+ * Inline badges for a version's labels, pin, tags and snapshot marker
+ */
+export const VersionBadges: React.FC<VersionBadgesProps> = ({ version }) => (
+  <>
+    {version.labels?.map(label => (
+      <span
+        key={`label-${label}`}
+        className="inline-flex items-center px-1.5 py-0.5 rounded-full text-caption font-medium bg-primary-50 text-primary-700 border border-primary-200"
+      >
+        {label}
+      </span>
+    ))}
+    {version.pinned && (
+      <span
+        className="inline-flex items-center px-1.5 py-0.5 rounded-full text-caption bg-warning-50 text-warning-600 border border-primary"
+        title="Pinned"
+      >
+        <svg className="w-3 h-3 mr-0.5" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path d="M16 3a1 1 0 01.7 1.7L15 6.4v4.2l2.7 2.7A1 1 0 0117 15h-4v5a1 1 0 01-2 0v-5H7a1 1 0 01-.7-1.7L9 10.6V6.4L7.3 4.7A1 1 0 018 3h8z" />
+        </svg>
+        Pinned
+      </span>
+    )}
+    {version.tags?.map(tag => (
+      <span
+        key={`tag-${tag}`}
+        className="inline-flex items-center px-1.5 py-0.5 rounded-full text-caption text-secondary border border-primary"
+      >
+        #{tag}
+      </span>
+    ))}
+    {version.auto && (
+      <span className="inline-flex items-center px-1.5 py-0.5 rounded-full text-caption bg-surface-secondary text-secondary border border-primary">
+        Auto
+      </span>
+    )}
+  </>
+);
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import type { Version } from '../../types/editor';
+import { getVersionLabel, omitVersions } from '../../utils/versions';
+import { layoutVersionGraph } from '../../utils/versionGraph';
+import { MergeDialog } from './MergeDialog';
+import { VersionBadges } from './VersionBadges';
+
+interface VersionGraphProps {
+  versions: Version[];
+  baseVersionId?: string;
+  hasUnsavedChanges: boolean;
+  onLoadVersion: (versionId: string) => void;
+  onMergeVersion: (content: string, mergeParentId: string, name: string) => void | Promise<void>;
+}
+
+const ROW_HEIGHT = 44;
+const LANE_WIDTH = 16;
+const NODE_RADIUS = 4;
+
+// Branches cycle through these so neighbouring lanes are told apart
+const LANE_COLORS = [
+  'var(--color-primary-500)',
+  'var(--color-success-500)',
+  'var(--color-warning-500)',
+  'var(--color-error-500)',
+];
+
+const laneX = (lane: number) => lane * LANE_WIDTH + LANE_WIDTH / 2;
+const rowY = (row: number) => row * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export const VersionGraph: React.FC<VersionGraphProps> = ({
+  versions,
+  baseVersionId,
+  hasUnsavedChanges,
+  onLoadVersion,
+  onMergeVersion,
+}) => {
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  // Collapsed snapshots are left out of the graph, joining their neighbours directly; the base always shows
+  const hiddenSnapshotIds = useMemo(
+    () => (showSnapshots ? [] : versions.filter(v => v.auto && v.id !== baseVersionId).map(v => v.id)),
+    [versions, baseVersionId, showSnapshots]
+  );
+  const { rows, laneCount } = useMemo(
+    () => layoutVersionGraph(omitVersions(versions, hiddenSnapshotIds)),
+    [versions, hiddenSnapshotIds]
+  );
+  const snapshotCount = versions.filter(v => v.auto).length;
+  const [mergeId, setMergeId] = useState<string | null>(null);
+  const graphWidth = laneCount * LANE_WIDTH;
+  const base = versions.find(v => v.id === baseVersionId);
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-body-small text-secondary text-center py-4">No saved versions of this prompt yet</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-caption text-secondary">
+        {base
+          ? `Editing from ${getVersionLabel(base)}${hasUnsavedChanges ? ' with unsaved changes' : ''}. Saving adds a version on this branch.`
+          : 'Load a version to continue from it; saving then starts a branch there.'}
+      </p>
+
+      {snapshotCount > 0 && (
+        <button
+          onClick={() => setShowSnapshots(!showSnapshots)}
+          aria-expanded={showSnapshots}
+          className="text-caption text-secondary hover:text-primary transition-normal"
+        >
+          {showSnapshots
+            ? 'Hide auto snapshots'
+            : snapshotCount === 1 ? 'Show 1 auto snapshot' : `Show ${snapshotCount} auto snapshots`}
+        </button>
+      )}
+
+      <div className="relative" role="list" aria-label="Version history graph">
+        <svg
+          className="absolute top-0 left-0 pointer-events-none"
+          width={graphWidth}
+          height={rows.length * ROW_HEIGHT}
+          aria-hidden="true"
+        >
+          {rows.map((row, index) => {
+            if (row.parentRow === null) return null;
+            const parent = rows[row.parentRow];
+            const x = laneX(row.lane);
+            const parentX = laneX(parent.lane);
+            const bendY = rowY(row.parentRow) - ROW_HEIGHT / 2;
+            // Run down the child's lane, then bend into the parent's lane just above it
+            const path = x === parentX
+              ? `M ${x} ${rowY(index)} L ${x} ${rowY(row.parentRow)}`
+              : `M ${x} ${rowY(index)} L ${x} ${bendY} Q ${x} ${rowY(row.parentRow)} ${parentX} ${rowY(row.parentRow)}`;
+            return (
+              <path
+                key={row.version.id}
+                d={path}
+                fill="none"
+                strokeWidth={2}
+                style={{ stroke: LANE_COLORS[row.lane % LANE_COLORS.length] }}
+              />
+            );
+          })}
+          {rows.map((row, index) => {
+            if (row.mergeParentRow === null) return null;
+            const mergeParent = rows[row.mergeParentRow];
+            const x = laneX(row.lane);
+            const parentX = laneX(mergeParent.lane);
+            const parentY = rowY(row.mergeParentRow);
+            // Dashed, so merged-in branches read differently from the main line
+            return (
+              <path
+                key={`merge-${row.version.id}`}
+                d={`M ${x} ${rowY(index)} C ${parentX} ${rowY(index)} ${parentX} ${rowY(index)} ${parentX} ${parentY}`}
+                fill="none"
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                style={{ stroke: LANE_COLORS[mergeParent.lane % LANE_COLORS.length] }}
+              />
+            );
+          })}
+          {rows.map((row, index) => (
+            <circle
+              key={row.version.id}
+              cx={laneX(row.lane)}
+              cy={rowY(index)}
+              r={row.version.id === baseVersionId ? NODE_RADIUS + 2 : NODE_RADIUS}
+              strokeWidth={2}
+              style={{
+                stroke: LANE_COLORS[row.lane % LANE_COLORS.length],
+                fill: row.version.id === baseVersionId
+                  ? LANE_COLORS[row.lane % LANE_COLORS.length]
+                  : 'var(--color-surface-primary)',
+              }}
+            />
+          ))}
+        </svg>
+
+        {rows.map(row => (
+          <div
+            key={row.version.id}
+            role="listitem"
+            className="flex items-center justify-between gap-2 rounded-lg hover:bg-surface-secondary transition-normal"
+            style={{ height: ROW_HEIGHT, paddingLeft: graphWidth + 8 }}
+          >
+            <div className="min-w-0">
+              <p className="text-body-small font-medium text-primary truncate">
+                {getVersionLabel(row.version)}
+                <span className="ml-2 inline-flex gap-1 align-middle">
+                  <VersionBadges version={row.version} />
+                </span>
+                {row.version.id === baseVersionId && (
+                  <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded-full text-caption bg-primary-600 text-white">
+                    Current base
+                  </span>
+                )}
+              </p>
+              <p className="text-caption text-tertiary truncate">{formatDate(row.version.createdAt)}</p>
+            </div>
+            <div className="flex items-center space-sm flex-shrink-0">
+              <button
+                onClick={() => setMergeId(row.version.id)}
+                disabled={!base || row.version.id === baseVersionId || hasUnsavedChanges}
+                className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+                title={hasUnsavedChanges
+                  ? 'Save your changes as a version before merging'
+                  : 'Merge this version into the current base'}
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => onLoadVersion(row.version.id)}
+                disabled={row.version.id === baseVersionId && !hasUnsavedChanges}
+                className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Load this version and continue editing from it"
+              >
+                Load
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {mergeId && base && (
+        <MergeDialog
+          versions={versions}
+          oursId={base.id}
+          theirsId={mergeId}
+          onMerge={(content, name) => onMergeVersion(content, mergeId, name)}
+          onClose={() => setMergeId(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Dialog } from '../Layout/Dialog';
+import type { LabelChange, Version } from '../../types/editor';
+import { VERSION_LABEL_CONFIG } from '../../config/features';
+import { getVersionLabel, normalizeTag } from '../../utils/versions';
+
+interface VersionLabelsDialogProps {
+  versionId: string;
+  versions: Version[];        // every version of the document, to show where labels sit
+  labelHistory: LabelChange[];
+  onPin: (pinned: boolean) => void | Promise<void>;
+  onSetTags: (tags: string[]) => void | Promise<void>;
+  onMoveLabel: (label: string, versionId: string | null) => void | Promise<void>;
+  onClose: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const describeChange = (change: LabelChange) => {
+  const to = change.versionName ?? change.versionId;
+  const from = change.previousVersionName ?? change.previousVersionId;
+  if (to && from) return `moved from ${from} to ${to}`;
+  if (to) return `put on ${to}`;
+  return `taken off ${from ?? 'the document'}`;
+};
+
+export const VersionLabelsDialog: React.FC<VersionLabelsDialogProps> = ({
+  versionId,
+  versions,
+  labelHistory,
+  onPin,
+  onSetTags,
+  onMoveLabel,
+  onClose,
+}) => {
+  const [newTag, setNewTag] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const version = versions.find(v => v.id === versionId);
+
+  if (!version) {
+    return null;
+  }
+
+  const tags = version.tags ?? [];
+  const holderOf = (label: string) => versions.find(v => v.labels?.includes(label));
+  const knownLabels = [...new Set([
+    ...VERSION_LABEL_CONFIG.SUGGESTED,
+    ...versions.flatMap(v => v.labels ?? []),
+    ...labelHistory.map(change => change.label),
+  ])];
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    if (tag && !tags.includes(tag)) {
+      onSetTags([...tags, tag]);
+    }
+    setNewTag('');
+  };
+
+  const addLabel = () => {
+    const label = normalizeTag(newLabel);
+    if (label) {
+      onMoveLabel(label, version.id);
+    }
+    setNewLabel('');
+  };
+
+  return (
+    <Dialog
+      title={`Labels for ${getVersionLabel(version)}`}
+      onClose={onClose}
+      className="max-w-lg"
+      footer={
+        <button
+          onClick={onClose}
+          className="px-3 py-1 text-body-small font-medium rounded-lg bg-primary-600 text-white hover:bg-primary-700 transition-normal"
+        >
+          Done
+        </button>
+      }
+    >
+      <div className="space-y-4 text-body-small text-primary">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={Boolean(version.pinned)}
+            onChange={(e) => onPin(e.target.checked)}
+          />
+          Pinned
+          <span className="text-caption text-tertiary">(never pruned)</span>
+        </label>
+
+        <section>
+          <h4 className="text-body font-medium mb-2">Tags</h4>
+          <div className="flex flex-wrap items-center gap-2">
+            {tags.map(tag => (
+              <span
+                key={tag}
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-caption border border-primary text-secondary"
+              >
+                #{tag}
+                <button
+                  onClick={() => onSetTags(tags.filter(t => t !== tag))}
+                  className="hover:text-error-600"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              type="text"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addTag();
+              }}
+              placeholder="Add tag"
+              className="w-28 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary text-caption"
+            />
+          </div>
+        </section>
+
+        <section>
+          <h4 className="text-body font-medium mb-1">Labels</h4>
+          <p className="text-caption text-tertiary mb-2">Each label is on at most one version of this prompt.</p>
+          <ul className="space-y-1">
+            {knownLabels.map(label => {
+              const holder = holderOf(label);
+              const isHere = holder?.id === version.id;
+              return (
+                <li key={label} className="flex items-center justify-between gap-2">
+                  <span className="min-w-0 truncate">
+                    <span className="font-medium">{label}</span>
+                    <span className="ml-2 text-caption text-secondary">
+                      {isHere ? 'on this version' : holder ? `on ${getVersionLabel(holder)}` : 'not set'}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => onMoveLabel(label, isHere ? null : version.id)}
+                    className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal flex-shrink-0"
+                  >
+                    {isHere ? 'Remove' : holder ? 'Move here' : 'Set here'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex items-center gap-2 mt-2">
+            <input
+              type="text"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addLabel();
+              }}
+              placeholder="New label"
+              className="w-32 px-2 py-1 border border-primary rounded bg-surface-primary text-text-primary text-caption"
+            />
+            <button
+              onClick={addLabel}
+              disabled={!normalizeTag(newLabel)}
+              className="px-2 py-1 text-caption font-medium rounded-lg border border-primary text-primary hover:bg-surface-secondary transition-normal disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Set here
+            </button>
+          </div>
+        </section>
+
+        {labelHistory.length > 0 && (
+          <section>
+            <h4 className="text-body font-medium mb-2">Label history</h4>
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {[...labelHistory].reverse().map((change, index) => (
+                <li key={index} className="text-caption text-secondary">
+                  <span className="text-tertiary">{formatDate(change.changedAt)}</span>{' '}
+                  <span className="font-medium text-primary">{change.label}</span> {describeChange(change)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </Dialog>
+  );
+};
@@ -1,34 +1,60 @@
-import React, { useState } from 'react';
-import type { Version } from '../../types/editor';
+import React, { useMemo, useState } from 'react';
+import type { LabelChange, Version } from '../../types/editor';
+import { getVersionLabel, groupAutoSnapshots } from '../../utils/versions';
+import { suggestVersionNote } from '../../services/changelog';
+import { DiffDialog, CURRENT_SOURCE_ID } from '../Diff';
+import { VersionBadges } from './VersionBadges';
+import { VersionLabelsDialog } from './VersionLabelsDialog';
+import type { DiffSource } from '../Diff';
 import './VersionsPanel.css';
 
 interface VersionsPanelProps {
   versions: Version[];
+  baseVersionId?: string; // version the current content is based on, for the suggested note
   currentContent: string;
   onLoadVersion: (versionId: string) => void;
   onDeleteVersion: (versionId: string) => void;
-  onSaveVersion: (content: string, name?: string) => void;
+  onSaveVersion: (content: string, name?: string, note?: string) => void;
+  onPinVersion: (versionId: string, pinned: boolean) => void | Promise<void>;
+  onSetVersionTags: (versionId: string, tags: string[]) => void | Promise<void>;
+  onMoveVersionLabel: (label: string, versionId: string | null) => void | Promise<void>;
+  labelHistory?: LabelChange[];
   hasUnsavedChanges: boolean;
   className?: string;
 }
 
 export const VersionsPanel: React.FC<VersionsPanelProps> = ({
   versions,
+  baseVersionId,
   currentContent,
   onLoadVersion,
   onDeleteVersion,
   onSaveVersion,
+  onPinVersion,
+  onSetVersionTags,
+  onMoveVersionLabel,
+  labelHistory = [],
   hasUnsavedChanges,
   className = '',
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [newVersionName, setNewVersionName] = useState('');
+  const [newVersionNote, setNewVersionNote] = useState('');
   const [showSuccess, setShowSuccess] = useState(false);
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+  const [expandedSnapshots, setExpandedSnapshots] = useState<Set<string>>(new Set());
+  const [labelsVersionId, setLabelsVersionId] = useState<string | null>(null);
+  // '' for every version, 'pinned', 'label:<name>' or 'tag:<name>'
+  const [versionFilter, setVersionFilter] = useState('');
+
+  const baseContent = versions.find(v => v.id === baseVersionId)?.content ?? null;
+  const suggestedNote = useMemo(() => suggestVersionNote(baseContent, currentContent), [baseContent, currentContent]);
 
   const handleSaveVersion = () => {
     if (currentContent.trim()) {
-      onSaveVersion(currentContent, newVersionName || undefined);
+      onSaveVersion(currentContent, newVersionName || undefined, newVersionNote || undefined);
       setNewVersionName('');
+      setNewVersionNote('');
       setShowSuccess(true);
       setTimeout(() => setShowSuccess(false), 2000);
     }
@@ -44,6 +70,106 @@ export const VersionsPanel: React.FC<VersionsPanelProps> = ({
     });
   };
 
+  const toggleSnapshots = (groupId: string) => {
+    setExpandedSnapshots(prev => {
+      const next = new Set(prev);
+      if (!next.delete(groupId)) next.add(groupId);
+      return next;
+    });
+  };
+
+  const labelNames = [...new Set(versions.flatMap(v => v.labels ?? []))].sort();
+  const tagNames = [...new Set(versions.flatMap(v => v.tags ?? []))].sort();
+  const filteredVersions = versions.filter(version => {
+    if (!versionFilter) return true;
+    if (versionFilter === 'pinned') return Boolean(version.pinned);
+    if (versionFilter.startsWith('label:')) return Boolean(version.labels?.includes(versionFilter.slice('label:'.length)));
+    if (versionFilter.startsWith('tag:')) return Boolean(version.tags?.includes(versionFilter.slice('tag:'.length)));
+    return true;
+  });
+
+  const diffSources: DiffSource[] = [
+    { id: CURRENT_SOURCE_ID, label: 'Current content', content: currentContent },
+    ...versions.map(version => ({
+      id: version.id,
+      label: `${getVersionLabel(version)} · ${formatDate(version.createdAt)}`,
+      content: version.content,
+    })),
+  ];
+
+  const renderVersion = (version: Version) => (
+    <div
+      key={version.id}
+      className="p-3 border border-primary rounded-lg hover:bg-surface-secondary transition-normal"
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center space-sm mb-2">
+            <h4 className="text-body font-medium text-primary truncate">
+              {getVersionLabel(version)}
+            </h4>
+            <VersionBadges version={version} />
+            <span className="text-caption text-secondary">
+              {formatDate(version.createdAt)}
+            </span>
+          </div>
+          {version.note ? (
+            <p className="text-body-small text-primary mb-1">{version.note}</p>
+          ) : version.suggestedNote && (
+            <p className="text-body-small text-secondary italic mb-1" title="Suggested from the sections that changed">
+              {version.suggestedNote}
+            </p>
+          )}
+          <p className="text-caption text-secondary line-clamp-2">
+            {version.summary}
+          </p>
+        </div>
+
+        <div className="flex items-center space-sm ml-4">
+          <button
+            onClick={() => setLabelsVersionId(version.id)}
+            className="p-2 text-secondary hover:text-primary hover:bg-surface-tertiary rounded-lg transition-normal"
+            title="Labels, tags and pin"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => setCompareVersionId(version.id)}
+            className="p-2 text-secondary hover:text-primary hover:bg-surface-tertiary rounded-lg transition-normal"
+            title="Compare with current content"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => onLoadVersion(version.id)}
+            className="p-2 text-secondary hover:text-primary hover:bg-surface-tertiary rounded-lg transition-normal"
+            title="Load this version"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => onDeleteVersion(version.id)}
+            className="p-2 text-secondary hover:text-error hover:bg-error-50 rounded-lg transition-normal"
+            title="Delete this version"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className={`versions-panel ${className}`}>
       {/* Versions Button */}
@@ -91,13 +217,45 @@ export const VersionsPanel: React.FC<VersionsPanelProps> = ({
         className="px-3 py-2 border border-primary rounded-lg bg-surface-primary text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-normal text-body-small"
       />
 
+      {/* Change Note Input; left empty, the suggestion is kept as a suggested note */}
+      <input
+        type="text"
+        value={newVersionNote}
+        onChange={(e) => setNewVersionNote(e.target.value)}
+        placeholder={suggestedNote}
+        title="Change note (optional); if left empty, the suggestion shown is kept as a suggested note"
+        aria-label="Change note"
+        className="px-3 py-2 border border-primary rounded-lg bg-surface-primary text-text-primary placeholder-text-secondary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-normal text-body-small"
+      />
+
       {/* Versions Dropdown */}
       {isOpen && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-surface-primary border border-primary rounded-lg shadow-elevation-3 z-50 max-h-96 overflow-y-auto">
           <div className="p-4">
-            <h3 className="text-heading-4 font-semibold text-primary mb-4">Saved Versions</h3>
+            <div className="flex items-center justify-between gap-2 mb-4">
+              <h3 className="text-heading-4 font-semibold text-primary">Saved Versions</h3>
+              {versions.length > 0 && (
+                <select
+                  value={versionFilter}
+                  onChange={(e) => setVersionFilter(e.target.value)}
+                  aria-label="Filter versions"
+                  className="px-2 py-1 border border-primary rounded-lg bg-surface-primary text-text-primary text-caption"
+                >
+                  <option value="">All versions</option>
+                  <option value="pinned">Pinned</option>
+                  {labelNames.map(name => (
+                    <option key={`label-${name}`} value={`label:${name}`}>Label: {name}</option>
+                  ))}
+                  {tagNames.map(name => (
+                    <option key={`tag-${name}`} value={`tag:${name}`}>Tag: #{name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
             
-            {versions.length === 0 ? (
+            {filteredVersions.length === 0 && versionFilter ? (
+              <p className="text-body-small text-secondary text-center py-4">No versions match this filter</p>
+            ) : versions.length === 0 ? (
               <div className="text-center py-8 text-secondary">
                 <svg className="w-12 h-12 mx-auto mb-4 text-tertiary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -107,48 +265,26 @@ export const VersionsPanel: React.FC<VersionsPanelProps> = ({
               </div>
             ) : (
               <div className="space-y-3">
-                {versions.map((version) => (
-                  <div
-                    key={version.id}
-                    className="p-3 border border-primary rounded-lg hover:bg-surface-secondary transition-normal"
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center space-sm mb-2">
-                          <h4 className="text-body font-medium text-primary truncate">
-                            {version.name}
-                          </h4>
-                          <span className="text-caption text-secondary">
-                            {formatDate(version.createdAt)}
-                          </span>
-                        </div>
-                        <p className="text-caption text-secondary line-clamp-2">
-                          {version.summary}
-                        </p>
-                      </div>
-                      
-                      <div className="flex items-center space-sm ml-4">
-                        <button
-                          onClick={() => onLoadVersion(version.id)}
-                          className="p-2 text-secondary hover:text-primary hover:bg-surface-tertiary rounded-lg transition-normal"
-                          title="Load this version"
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
-                          </svg>
-                        </button>
-                        
-                        <button
-                          onClick={() => onDeleteVersion(version.id)}
-                          className="p-2 text-secondary hover:text-error hover:bg-error-50 rounded-lg transition-normal"
-                          title="Delete this version"
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
-                      </div>
-                    </div>
+                {groupAutoSnapshots(filteredVersions).map((entry) => entry.type === 'version' ? renderVersion(entry.version) : (
+                  <div key={entry.id} className="space-y-3">
+                    <button
+                      onClick={() => toggleSnapshots(entry.id)}
+                      aria-expanded={expandedSnapshots.has(entry.id)}
+                      className="w-full flex items-center space-sm px-3 py-2 text-caption text-secondary border border-dashed border-primary rounded-lg hover:bg-surface-secondary transition-normal"
+                    >
+                      <svg
+                        className={`w-3 h-3 transition-normal ${expandedSnapshots.has(entry.id) ? 'rotate-90' : ''}`}
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                      </svg>
+                      <span>
+                        {entry.versions.length === 1 ? '1 auto snapshot' : `${entry.versions.length} auto snapshots`}
+                      </span>
+                    </button>
+                    {expandedSnapshots.has(entry.id) && entry.versions.map(renderVersion)}
                   </div>
                 ))}
               </div>
@@ -156,6 +292,27 @@ export const VersionsPanel: React.FC<VersionsPanelProps> = ({
           </div>
         </div>
       )}
+
+      {labelsVersionId && (
+        <VersionLabelsDialog
+          versionId={labelsVersionId}
+          versions={versions}
+          labelHistory={labelHistory}
+          onPin={(pinned) => onPinVersion(labelsVersionId, pinned)}
+          onSetTags={(tags) => onSetVersionTags(labelsVersionId, tags)}
+          onMoveLabel={onMoveVersionLabel}
+          onClose={() => setLabelsVersionId(null)}
+        />
+      )}
+
+      {compareVersionId && (
+        <DiffDialog
+          sources={diffSources}
+          initialBeforeId={compareVersionId}
+          initialAfterId={CURRENT_SOURCE_ID}
+          onClose={() => setCompareVersionId(null)}
+        />
+      )}
     </div>
   );
 };
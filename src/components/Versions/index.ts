@@ -1,3 +1,14 @@
 export { VersionsPanel } from './VersionsPanel';
 export { DocumentManager } from './DocumentManager';
 export { PromptManager } from './PromptManager';
+export { ConflictDialog } from './ConflictDialog';
+export { MemoryStorageBanner } from './MemoryStorageBanner';
+export { UnlockDialog } from './UnlockDialog';
+export { EncryptionPanel } from './EncryptionPanel';
+export { TrashPanel } from './TrashPanel';
+export { PartialsPanel } from './PartialsPanel';
+export { DiagnosticsPanel } from './DiagnosticsPanel';
+export { VersionGraph } from './VersionGraph';
+export { MergeDialog } from './MergeDialog';
+export { VersionLabelsDialog } from './VersionLabelsDialog';
+export { VersionBadges } from './VersionBadges';
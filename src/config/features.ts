@@ -3,6 +3,8 @@
  * Controls which features are enabled/disabled across different versions
  */
 
+import type { StorageBackendType } from '../services/backends/types';
+
 // Version flags - controls which version features are active
 export const VERSION_FLAGS = {
   V1_BASIC_EDITOR: true,    // Split view editor with live preview
@@ -51,6 +53,64 @@ export const EDITOR_CONFIG = {
   SPLIT_RATIO: 0.5,         // Fixed 50/50 split for V1
 } as const;
 
+// App-level undo history, kept per document across reloads
+export const UNDO_CONFIG = {
+  MAX_ENTRIES: 100,         // Oldest steps are dropped beyond this
+  TYPING_GROUP_MS: 1000,    // Typing with pauses shorter than this undoes as one step
+  PERSIST_DEBOUNCE_MS: 500, // Wait this long after the last step before saving the history
+} as const;
+
+// Token counting in the status bar
+export const TOKENIZER_CONFIG = {
+  DEFAULT: 'o200k_base' as const, // Tokenizer used until another is picked
+  PERSIST_CHOICE: true,     // Save the picked tokenizer to localStorage
+} as const;
+
+// Storage configuration
+export const STORAGE_CONFIG = {
+  BACKEND: 'localforage' as StorageBackendType, // 'localforage' | 'memory' | 'rest'
+  REST_BASE_URL: 'http://localhost:8787',       // Document server for the 'rest' backend
+  SNAPSHOT_INTERVAL: 10,    // Store a full version snapshot at least every N versions
+} as const;
+
+// Version retention defaults (used until a global policy is saved)
+export const RETENTION_CONFIG = {
+  ENABLED: false,           // Prune automatically when a version is saved
+  KEEP_LAST: 50,            // Always keep the newest N versions
+  DAILY_AFTER_DAYS: 7,      // Older versions are thinned to one per day
+} as const;
+
+// Version labels offered in the label picker; other names can be typed in
+export const VERSION_LABEL_CONFIG = {
+  SUGGESTED: ['production', 'staging', 'development'],
+} as const;
+
+// Automatic snapshot defaults (used until a snapshot policy is saved)
+export const AUTO_SNAPSHOT_CONFIG = {
+  ENABLED: true,            // Take snapshots without the user saving a version
+  IDLE_SECONDS: 60,         // Snapshot after typing pauses this long
+  INTERVAL_MINUTES: 10,     // Snapshot when edits have gone unsaved this long
+  EDIT_DISTANCE: 500,       // Snapshot once this many characters changed since the last version
+  MAX_KEPT: 50,             // Without automatic pruning, older snapshots beyond the newest N are removed
+} as const;
+
+// Full-text search over all prompts and versions
+export const SEARCH_CONFIG = {
+  PERSIST_DEBOUNCE_MS: 2000, // Wait this long after the last change before saving the index
+  MAX_RESULTS: 50,          // Results returned per query
+  SNIPPET_LENGTH: 160,      // Characters of context shown around a match
+} as const;
+
+// Deleted documents and versions stay in the trash this long before being purged
+export const TRASH_CONFIG = {
+  RETENTION_DAYS: 30,       // Days until a trashed item is removed for good
+} as const;
+
+// Encryption at rest (optional, enabled per store from the Storage tab)
+export const ENCRYPTION_CONFIG = {
+  KDF_ITERATIONS: 600000,   // PBKDF2-SHA256 rounds used to derive the key from the passphrase
+} as const;
+
 // Type definitions for feature flags
 export type VersionFlag = keyof typeof VERSION_FLAGS;
 export type FeatureFlag = keyof typeof FEATURE_FLAGS;
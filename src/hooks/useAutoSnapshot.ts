@@ -0,0 +1,70 @@
+import { useState, useEffect, useRef } from 'react';
+import type { DocumentState } from '../types/editor';
+import { versionStorage } from '../services/storage';
+import { DEFAULT_SNAPSHOT_POLICY, measureEditDistance } from '../services/snapshots';
+import type { SnapshotPolicy } from '../services/snapshots';
+
+// Measuring edit distance diffs the whole prompt, so wait for a short pause in typing first
+const EDIT_DISTANCE_CHECK_MS = 1000;
+
+/**
+ * Hook that takes automatic snapshots of a document according to the stored snapshot policy
+ */
+export const useAutoSnapshot = (
+  documentState: DocumentState,
+  takeSnapshot: () => Promise<unknown>
+) => {
+  const [policy, setPolicy] = useState<SnapshotPolicy>(DEFAULT_SNAPSHOT_POLICY);
+  // Timers fire after later renders, so always call the newest callback
+  const takeSnapshotRef = useRef(takeSnapshot);
+
+  useEffect(() => {
+    takeSnapshotRef.current = takeSnapshot;
+  }, [takeSnapshot]);
+
+  useEffect(() => {
+    let cancelled = false;
+    versionStorage.getSnapshotPolicy()
+      .then(stored => {
+        if (!cancelled) setPolicy(stored);
+      })
+      .catch(err => console.warn('Failed to load snapshot policy:', err));
+
+    const unsubscribe = versionStorage.subscribeSnapshotPolicy(setPolicy);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const { content, versions, baseVersionId } = documentState;
+  const baseContent = (versions.find(v => v.id === baseVersionId) ?? versions[0])?.content ?? '';
+  const isDirty = content.trim().length > 0 && content !== baseContent;
+
+  // Idle time and edit distance: re-armed on every change
+  useEffect(() => {
+    if (!policy.enabled || !isDirty) return;
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const { idleSeconds, editDistance } = policy;
+    if (idleSeconds !== null) {
+      timers.push(setTimeout(() => takeSnapshotRef.current(), idleSeconds * 1000));
+    }
+    if (editDistance !== null) {
+      timers.push(setTimeout(() => {
+        if (measureEditDistance(baseContent, content) >= editDistance) {
+          takeSnapshotRef.current();
+        }
+      }, EDIT_DISTANCE_CHECK_MS));
+    }
+    return () => timers.forEach(clearTimeout);
+  }, [policy, isDirty, content, baseContent]);
+
+  // Elapsed time: counted from the first unsaved edit, not reset by further typing
+  useEffect(() => {
+    if (!policy.enabled || !isDirty || policy.intervalMinutes === null) return;
+
+    const timer = setTimeout(() => takeSnapshotRef.current(), policy.intervalMinutes * 60 * 1000);
+    return () => clearTimeout(timer);
+  }, [policy, isDirty, documentState.id, baseVersionId]);
+};
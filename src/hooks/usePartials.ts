@@ -0,0 +1,121 @@
+import { useState, useEffect, useRef } from 'react';
+import type { DocumentState } from '../types/editor';
+import { versionStorage } from '../services/storage';
+import { tabSync } from '../services/tabSync';
+import { EDITOR_CONFIG } from '../config/features';
+import { PartialCycleError, expandPartials, findPartialReferences } from '../services/template';
+import type { ExpansionSegment, PartialLoader } from '../services/template';
+
+interface Expansion {
+  documentId: string;
+  content: string;
+  problems: string[];
+  segments: ExpansionSegment[];
+}
+
+/**
+ * Hook that expands the `{{> name}}` includes in the open document, loading
+ * the partials from storage. Content without includes is returned as is.
+ * Included documents are kept in memory at the revision they were loaded at,
+ * so typing only re-reads storage after a partial is saved or deleted.
+ */
+export const usePartials = (documentState: DocumentState) => {
+  const { id: documentId, name, content } = documentState;
+  const hasIncludes = findPartialReferences(content).length > 0;
+  const [expansion, setExpansion] = useState<Expansion | null>(null);
+  // Bumped when an included prompt may have changed, to expand again
+  const [storageRevision, setStorageRevision] = useState(0);
+  const latestStateRef = useRef(documentState);
+  // Loaded partials by document ID, and document IDs by name
+  const documentsRef = useRef(new Map<string, DocumentState>());
+  const documentIdsRef = useRef(new Map<string, string | null>());
+  // Bumped on every change, so a load that overlapped one is not cached
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    latestStateRef.current = documentState;
+  }, [documentState]);
+
+  useEffect(() => {
+    // A save may rename a document, so names are looked up again after any change
+    const forget = (changedId: string | null, revision?: number) => {
+      const cached = changedId !== null ? documentsRef.current.get(changedId) : undefined;
+      if (cached && revision !== undefined && cached.revision === revision) return;
+      generationRef.current++;
+      documentIdsRef.current.clear();
+      if (changedId === null) {
+        documentsRef.current.clear();
+      } else {
+        documentsRef.current.delete(changedId);
+      }
+      // The open document is included as edited, so its own saves change nothing
+      if (changedId !== latestStateRef.current.id) {
+        setStorageRevision(current => current + 1);
+      }
+    };
+
+    const unsubscribeTabs = tabSync.subscribe(message => {
+      if (message.type === 'document-saved') forget(message.documentId, message.revision);
+      else if (message.type === 'document-deleted') forget(message.documentId);
+      else forget(null);
+    });
+    const unsubscribeDocuments = versionStorage.subscribeDocuments(changedId => forget(changedId));
+    // Locking forgets decrypted content
+    const unsubscribeEncryption = versionStorage.subscribeEncryption(status => {
+      if (status.locked) forget(null);
+    });
+    return () => {
+      unsubscribeTabs();
+      unsubscribeDocuments();
+      unsubscribeEncryption();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hasIncludes) return;
+
+    let cancelled = false;
+    const load: PartialLoader = async ({ name: partialName, pin }) => {
+      const generation = generationRef.current;
+      let id = documentIdsRef.current.get(partialName);
+      if (id === undefined) {
+        id = await versionStorage.findDocumentIdByName(partialName);
+        if (generation === generationRef.current) documentIdsRef.current.set(partialName, id);
+      }
+      // The open document is included as edited, not as last saved
+      let document = id === documentId ? latestStateRef.current : null;
+      if (id !== null && id !== documentId) {
+        document = documentsRef.current.get(id) ?? await versionStorage.loadDocument(id);
+        if (document && generation === generationRef.current) documentsRef.current.set(id, document);
+      }
+      if (!document) return null;
+      if (!pin) return document.content;
+      const version = document.versions.find(v => v.id === pin || v.labels?.includes(pin));
+      return version?.content ?? null;
+    };
+
+    const timer = setTimeout(() => {
+      expandPartials(content, load, name)
+        .then(({ source, problems, segments }) => {
+          if (!cancelled) setExpansion({ documentId, content: source, problems, segments });
+        })
+        .catch(err => {
+          if (cancelled) return;
+          if (!(err instanceof PartialCycleError)) {
+            console.warn('Failed to expand partials:', err);
+          }
+          setExpansion({ documentId, content, problems: [err instanceof Error ? err.message : 'Failed to expand partials'], segments: [] });
+        });
+    }, EDITOR_CONFIG.DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [documentId, name, content, hasIncludes, storageRevision]);
+
+  if (!hasIncludes || expansion?.documentId !== documentId) {
+    return { content, problems: [] as string[], segments: [] as ExpansionSegment[] };
+  }
+  return { content: expansion.content, problems: expansion.problems, segments: expansion.segments };
+};
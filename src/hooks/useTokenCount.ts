@@ -0,0 +1,41 @@
+import { useState, useEffect, useRef } from 'react';
+import { TokenCountClient } from '../services/tokenCountClient';
+import type { TokenCounts, TokenizerId } from '../services/tokenizers';
+
+/**
+ * Hook that counts tokens in a worker, or on the main thread if the worker
+ * cannot run. See TokenCountClient for how requests are queued.
+ */
+export const useTokenCount = (content: string, selection: string, tokenizer: TokenizerId) => {
+  const [counts, setCounts] = useState<TokenCounts | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const clientRef = useRef<TokenCountClient | null>(null);
+
+  useEffect(() => {
+    const client = new TokenCountClient(
+      (response) => {
+        if ('counts' in response) {
+          setCounts(response.counts);
+          setError(null);
+        } else {
+          setError(response.error);
+        }
+      },
+      typeof Worker === 'undefined'
+        ? null
+        : () => new Worker(new URL('../workers/tokenCounter.worker.ts', import.meta.url), { type: 'module' })
+    );
+    clientRef.current = client;
+
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    clientRef.current?.count(tokenizer, content, selection);
+  }, [content, selection, tokenizer]);
+
+  return { counts, error };
+};
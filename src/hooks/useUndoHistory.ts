@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { DocumentState } from '../types/editor';
+import { versionStorage } from '../services/storage';
+import { UNDO_CONFIG } from '../config/features';
+import { createUndoHistory, recordUndo } from '../services/undoHistory';
+import type { UndoEntry, UndoHistory } from '../services/undoHistory';
+
+interface TrackedHistory {
+  documentId: string;
+  history: UndoHistory;
+  loaded: boolean; // false until the stored history was read; nothing is saved before then
+}
+
+/**
+ * Hook that keeps the open document's undo history and saves it to storage
+ */
+export const useUndoHistory = (documentState: DocumentState) => {
+  const [tracked, setTracked] = useState<TrackedHistory>(() => ({
+    documentId: documentState.id,
+    history: createUndoHistory(documentState.content, documentState.baseVersionId),
+    loaded: false,
+  }));
+  const latestStateRef = useRef(documentState);
+  // A save waiting out the debounce, flushed when the document changes
+  const pendingSaveRef = useRef<{ timer: ReturnType<typeof setTimeout>; save: () => void } | null>(null);
+
+  useEffect(() => {
+    latestStateRef.current = documentState;
+  }, [documentState]);
+
+  // Load the stored history whenever another document is opened
+  useEffect(() => {
+    let cancelled = false;
+    const { id: documentId, content, baseVersionId } = latestStateRef.current;
+    setTracked({ documentId, history: createUndoHistory(content, baseVersionId), loaded: false });
+
+    versionStorage.getUndoHistory(documentId)
+      .then(stored => {
+        if (cancelled) return;
+        // The content may have changed elsewhere (or been typed into) since the history was saved
+        const latest = latestStateRef.current;
+        setTracked(current => ({
+          documentId,
+          history: stored
+            ? recordUndo(stored, { operation: 'open', label: 'Opened', content: latest.content, baseVersionId: latest.baseVersionId })
+            : current.history,
+          loaded: true,
+        }));
+      })
+      .catch(err => console.warn('Failed to load undo history:', err));
+
+    return () => {
+      cancelled = true;
+      const pending = pendingSaveRef.current;
+      if (pending) {
+        clearTimeout(pending.timer);
+        pending.save();
+        pendingSaveRef.current = null;
+      }
+    };
+  }, [documentState.id]);
+
+  // The document's ID once it has a stored record; a document that was never saved keeps no history
+  const storedDocumentId = documentState.revision !== undefined ? documentState.id : null;
+
+  // Save a little after the last step, so typing does not rewrite the history on every keystroke.
+  // A history with nothing but the opening step has nothing to undo, so it is not saved.
+  useEffect(() => {
+    if (!tracked.loaded || tracked.documentId !== storedDocumentId || tracked.history.entries.length < 2) return;
+
+    const { documentId, history } = tracked;
+    const save = () => {
+      versionStorage.saveUndoHistory(documentId, history)
+        .catch(err => console.warn('Failed to save undo history:', err));
+    };
+    const timer = setTimeout(() => {
+      pendingSaveRef.current = null;
+      save();
+    }, UNDO_CONFIG.PERSIST_DEBOUNCE_MS);
+    pendingSaveRef.current = { timer, save };
+
+    return () => clearTimeout(timer);
+  }, [tracked, storedDocumentId]);
+
+  /**
+   * Record the state a document is in after an operation
+   */
+  const record = useCallback((state: DocumentState, step: Pick<UndoEntry, 'operation' | 'label'>) => {
+    setTracked(current => current.documentId !== state.id ? current : {
+      ...current,
+      history: recordUndo(current.history, { ...step, content: state.content, baseVersionId: state.baseVersionId }),
+    });
+  }, []);
+
+  /**
+   * Move to a step of the history, returning the state to show, or null if there is no such step
+   */
+  const moveTo = useCallback((position: number): UndoEntry | null => {
+    const { history } = tracked;
+    if (position === history.position || !history.entries[position]) {
+      return null;
+    }
+    setTracked({ ...tracked, history: { ...history, position } });
+    return history.entries[position];
+  }, [tracked]);
+
+  return {
+    history: tracked.history,
+    record,
+    moveTo,
+  };
+};
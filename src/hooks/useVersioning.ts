@@ -1,7 +1,18 @@
-import { useState, useCallback, useEffect } from 'react';
-import type { Version, DocumentState } from '../types/editor';
-import { versionStorage } from '../services/storage';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Version, DocumentState, VariableDefinition, VariableSet } from '../types/editor';
+import { versionStorage, DocumentNameError, StorageConflictError } from '../services/storage';
+import { StoreLockedError } from '../services/encryption';
+import { tabSync } from '../services/tabSync';
+import { planPrune } from '../services/retention';
+import { excessSnapshots } from '../services/snapshots';
+import { suggestVersionNote } from '../services/changelog';
 import { isVersionEnabled } from '../config/features';
+import { generateDocumentId, generateVersionId } from '../utils/ids';
+import { getVersionLabel, moveLabel, removeVersions, updateVersion } from '../utils/versions';
+import { canRedo, canUndo } from '../services/undoHistory';
+import { toPartialName } from '../services/template';
+import { useAutoSnapshot } from './useAutoSnapshot';
+import { useUndoHistory } from './useUndoHistory';
 
 /**
  * Hook for managing prompt versions
@@ -19,112 +30,365 @@ export const useVersioning = (initialContent: string = '', documentId?: string)
     available: boolean;
     driver: string;
     enabled: boolean;
+    persistent: boolean; // false when work only lives in memory for this session
+    reason: string | null;
+    encrypted: boolean;
+    locked: boolean; // encrypted content cannot be read until unlocked
   }>({
     available: false,
     driver: 'unknown',
     enabled: isVersionEnabled('V2_PERSISTENCE'),
+    persistent: true,
+    reason: null,
+    encrypted: false,
+    locked: false,
   });
+  // Set when a save was rejected because another tab changed the document
+  const [conflict, setConflict] = useState<{ documentId: string; storedRevision: number } | null>(null);
+  const pendingWritesRef = useRef(0);
+  const localEditsRef = useRef(0);
+  const latestStateRef = useRef(documentState);
+  // Revision each document was last read or saved at by this hook. Saves from here run one
+  // after another and are stamped with it when they start, so a save queued behind another
+  // is not mistaken for a stale one, while a revision only another tab has seen still is.
+  const revisionsRef = useRef(new Map<string, number>());
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    latestStateRef.current = documentState;
+  }, [documentState]);
 
   /**
-   * Save current content as a new version
+   * Record the revision a document was read or saved at, on the held state too
    */
-  const saveVersion = useCallback(async (content: string, name?: string) => {
-    const newVersion: Version = {
-      id: generateVersionId(),
-      createdAt: new Date().toISOString(),
-      name: name || generateVersionName(),
-      content,
-      summary: generateContentSummary(content),
-    };
+  const adoptRevision = useCallback((documentId: string, revision: number | undefined) => {
+    if (revision === undefined) return;
+    revisionsRef.current.set(documentId, revision);
+    setDocumentState(prev => (prev.id === documentId && prev.revision !== revision ? { ...prev, revision } : prev));
+  }, []);
 
-    const updatedState = {
-      ...documentState,
-      content,
-      versions: [newVersion, ...documentState.versions],
-      updatedAt: new Date().toISOString(),
+  /**
+   * Show a document read from storage, taking its revision as the base for later saves
+   */
+  const adoptStoredState = useCallback((state: DocumentState) => {
+    if (state.revision !== undefined) revisionsRef.current.set(state.id, state.revision);
+    setDocumentState(state);
+  }, []);
+
+  /**
+   * Persist a document state, surfacing conflicts with other tabs
+   */
+  const persistState = useCallback((state: DocumentState, failureMessage: string) => {
+    pendingWritesRef.current++;
+    const save = async () => {
+      try {
+        const revision = revisionsRef.current.get(state.id) ?? state.revision;
+        adoptRevision(state.id, await versionStorage.saveDocument({ ...state, revision }));
+        setError(null);
+      } catch (err) {
+        if (err instanceof StorageConflictError) {
+          setConflict({ documentId: err.documentId, storedRevision: err.storedRevision });
+          return;
+        }
+        if (err instanceof StoreLockedError) {
+          setError('Storage is locked; unlock it to save changes');
+          return;
+        }
+        if (err instanceof DocumentNameError) {
+          setError(err.message);
+          return;
+        }
+        console.warn(`${failureMessage}:`, err);
+        setError(`${failureMessage} (using in-memory only)`);
+      } finally {
+        pendingWritesRef.current--;
+      }
     };
+    saveQueueRef.current = saveQueueRef.current.then(save);
+    return saveQueueRef.current;
+  }, [adoptRevision]);
 
-    setDocumentState(updatedState);
+  /**
+   * Save content as a new version on top of the current base version
+   */
+  const addVersion = useCallback(async (content: string, fields: VersionFields = {}) => {
+    const { state, version } = await appendVersion(documentState, content, fields);
 
-    try {
-      await versionStorage.saveDocument(updatedState);
-      setError(null);
-    } catch (err) {
-      console.warn('Failed to save version to storage:', err);
-      setError('Failed to save version (using in-memory only)');
+    setDocumentState(state);
+
+    await persistState(state, 'Failed to save version');
+
+    return version;
+  }, [documentState, persistState]);
+
+  /**
+   * Save current content as a new version, with an optional name and change note
+   */
+  const saveVersion = useCallback(
+    (content: string, name?: string, note?: string) => addVersion(content, { name, note }),
+    [addVersion]
+  );
+
+  /**
+   * Save the result of merging another version into the current base version
+   */
+  const mergeVersion = useCallback(
+    (content: string, mergeParentId: string, name?: string) => addVersion(content, { name, mergeParentId }),
+    [addVersion]
+  );
+
+  /**
+   * Save unsaved edits as an automatic snapshot; does nothing when there are none
+   */
+  const takeSnapshot = useCallback(async () => {
+    if (!hasUnversionedContent(documentState)) {
+      return null;
     }
+    const { state, version } = await appendVersion(documentState, documentState.content, { auto: true });
 
-    return newVersion;
-  }, [documentState]);
+    // Snapshots run in the background, so keep anything typed (or opened) while the version was prepared
+    const latest = latestStateRef.current;
+    if (latest.id !== state.id) {
+      await persistState(state, 'Failed to save snapshot');
+      return version;
+    }
+    const updatedState = { ...state, content: latest.content, updatedAt: latest.updatedAt };
+
+    setDocumentState(updatedState);
+
+    await persistState(updatedState, 'Failed to save snapshot');
+
+    return version;
+  }, [documentState, persistState]);
+
+  useAutoSnapshot(documentState, takeSnapshot);
+
+  const { history: undoHistory, record: recordUndo, moveTo: moveUndoPosition } = useUndoHistory(documentState);
 
   /**
-   * Load a specific version
+   * Load a specific version, first snapshotting any unsaved edits
    */
   const loadVersion = useCallback(async (versionId: string) => {
     const version = documentState.versions.find(v => v.id === versionId);
     if (version) {
+      let state = documentState;
+      if (hasUnversionedContent(state)) {
+        state = (await appendVersion(state, state.content, { auto: true })).state;
+      }
+
       const updatedState = {
-        ...documentState,
+        ...state,
         content: version.content,
         updatedAt: new Date().toISOString(),
+        baseVersionId: version.id,
       };
       
       setDocumentState(updatedState);
+      recordUndo(updatedState, { operation: 'restore', label: `Restore ${getVersionLabel(version)}` });
+
+      await persistState(updatedState, 'Failed to save current state');
+
+      return version.content;
+    }
+    return null;
+  }, [documentState, persistState, recordUndo]);
+
+  /**
+   * Move a version to the trash. The delete waits for earlier saves and is checked
+   * against the same revision they are; if it fails, the version is put back.
+   */
+  const deleteVersion = useCallback((versionId: string) => {
+    const documentId = documentState.id;
+    const removedState = removeVersions(documentState, [versionId]);
+    setDocumentState(removedState);
+
+    // Undo the removal, keeping anything changed since it was made
+    const putBack = (prev: DocumentState): DocumentState =>
+      prev.id !== documentId || prev.versions !== removedState.versions
+        ? prev
+        : {
+            ...prev,
+            versions: documentState.versions,
+            baseVersionId: prev.baseVersionId === removedState.baseVersionId ? documentState.baseVersionId : prev.baseVersionId,
+            labelHistory: prev.labelHistory === removedState.labelHistory ? documentState.labelHistory : prev.labelHistory,
+          };
 
+    pendingWritesRef.current++;
+    const remove = async () => {
       try {
-        await versionStorage.saveDocument(updatedState);
+        const revision = revisionsRef.current.get(documentId) ?? documentState.revision;
+        adoptRevision(documentId, await versionStorage.deleteVersion(documentId, versionId, revision) ?? undefined);
         setError(null);
       } catch (err) {
-        console.warn('Failed to save current state to storage:', err);
-        setError('Failed to save current state (using in-memory only)');
+        setDocumentState(putBack);
+        if (err instanceof StorageConflictError) {
+          setConflict({ documentId: err.documentId, storedRevision: err.storedRevision });
+          return;
+        }
+        if (err instanceof StoreLockedError) {
+          setError('Storage is locked; unlock it to move versions to the trash');
+          return;
+        }
+        console.warn('Failed to move version to trash:', err);
+        setError('Failed to move version to trash');
+      } finally {
+        pendingWritesRef.current--;
       }
+    };
+    saveQueueRef.current = saveQueueRef.current.then(remove);
+    return saveQueueRef.current;
+  }, [documentState, adoptRevision]);
 
-      return version.content;
+  /**
+   * Apply a change to version metadata (pins, tags, labels) and save it
+   */
+  const updateMetadata = useCallback(async (update: (state: DocumentState) => DocumentState, failureMessage: string) => {
+    const updatedState = update(documentState);
+    if (updatedState === documentState) return;
+
+    setDocumentState(updatedState);
+
+    await persistState(updatedState, failureMessage);
+  }, [documentState, persistState]);
+
+  /**
+   * Pin or unpin a version
+   */
+  const pinVersion = useCallback(
+    (versionId: string, pinned: boolean) =>
+      updateMetadata(state => updateVersion(state, versionId, { pinned }), 'Failed to pin version'),
+    [updateMetadata]
+  );
+
+  /**
+   * Replace a version's tags
+   */
+  const setVersionTags = useCallback(
+    (versionId: string, tags: string[]) =>
+      updateMetadata(state => updateVersion(state, versionId, { tags }), 'Failed to save tags'),
+    [updateMetadata]
+  );
+
+  /**
+   * Move an exclusive label to a version, or remove it when `versionId` is null
+   */
+  const moveVersionLabel = useCallback(
+    (label: string, versionId: string | null) =>
+      updateMetadata(state => moveLabel(state, label, versionId), 'Failed to move label'),
+    [updateMetadata]
+  );
+
+  /**
+   * Replace the saved variable sets and choose which one fills the preview
+   */
+  const setVariableSets = useCallback(
+    (variableSets: VariableSet[], activeVariableSetId?: string) =>
+      updateMetadata(state => ({ ...state, variableSets, activeVariableSetId }), 'Failed to save variable values'),
+    [updateMetadata]
+  );
+
+  /**
+   * Replace the document's variable declarations
+   */
+  const setVariableSchema = useCallback(
+    (variableSchema: VariableDefinition[]) =>
+      updateMetadata(state => ({ ...state, variableSchema }), 'Failed to save variable declarations'),
+    [updateMetadata]
+  );
+
+  /**
+   * Name the document so other prompts can include it as `{{> name}}`, or
+   * remove its name when `name` has nothing usable in it.
+   * Rejects with DocumentNameError if another document has the name.
+   */
+  const setDocumentName = useCallback(async (name: string) => {
+    const normalized = toPartialName(name) || undefined;
+    if (normalized) {
+      const owner = await versionStorage.findDocumentIdByName(normalized);
+      if (owner !== null && owner !== documentState.id) {
+        throw new DocumentNameError(normalized, owner);
+      }
     }
-    return null;
-  }, [documentState]);
+    await updateMetadata(
+      state => (state.name === normalized ? state : { ...state, name: normalized }),
+      'Failed to save prompt name'
+    );
+  }, [documentState.id, updateMetadata]);
 
   /**
-   * Delete a version
+   * Update current content without creating a version; loading the sample
+   * content is recorded as its own undo step rather than as typing
    */
-  const deleteVersion = useCallback(async (versionId: string) => {
+  const updateContent = useCallback(async (content: string, operation: 'edit' | 'sample' = 'edit') => {
     const updatedState = {
       ...documentState,
-      versions: documentState.versions.filter(v => v.id !== versionId),
+      content,
+      updatedAt: new Date().toISOString(),
     };
     
     setDocumentState(updatedState);
+    localEditsRef.current++;
+    recordUndo(updatedState, operation === 'sample'
+      ? { operation, label: 'Load sample' }
+      : { operation, label: 'Typing' });
 
-    try {
-      await versionStorage.saveDocument(updatedState);
-      setError(null);
-    } catch (err) {
-      console.warn('Failed to delete version from storage:', err);
-      setError('Failed to delete version (using in-memory only)');
+    // Auto-save current state to storage
+    await persistState(updatedState, 'Failed to save current state');
+  }, [documentState, persistState, recordUndo]);
+
+  /**
+   * Empty the current content, first snapshotting any unsaved edits
+   */
+  const clearContent = useCallback(async () => {
+    let state = documentState;
+    if (hasUnversionedContent(state)) {
+      state = (await appendVersion(state, state.content, { auto: true })).state;
     }
-  }, [documentState]);
+
+    const updatedState = {
+      ...state,
+      content: '',
+      updatedAt: new Date().toISOString(),
+    };
+
+    setDocumentState(updatedState);
+    localEditsRef.current++;
+    recordUndo(updatedState, { operation: 'clear', label: 'Clear' });
+
+    await persistState(updatedState, 'Failed to save current state');
+  }, [documentState, persistState, recordUndo]);
 
   /**
-   * Update current content without creating a version
+   * Go to a step of the undo history, restoring its content and, while that
+   * version still exists, the version it was based on
    */
-  const updateContent = useCallback(async (content: string) => {
+  const goToUndoStep = useCallback(async (position: number) => {
+    const entry = moveUndoPosition(position);
+    if (!entry) return;
+
+    const baseExists = documentState.versions.some(v => v.id === entry.baseVersionId);
     const updatedState = {
       ...documentState,
-      content,
+      content: entry.content,
+      baseVersionId: baseExists ? entry.baseVersionId : documentState.baseVersionId,
       updatedAt: new Date().toISOString(),
     };
-    
+
     setDocumentState(updatedState);
+    localEditsRef.current++;
 
-    // Auto-save current state to storage
-    try {
-      await versionStorage.saveDocument(updatedState);
-      setError(null);
-    } catch (err) {
-      console.warn('Failed to save current state to storage:', err);
-      setError('Failed to save current state (using in-memory only)');
-    }
-  }, [documentState]);
+    await persistState(updatedState, 'Failed to save current state');
+  }, [documentState, persistState, moveUndoPosition]);
+
+  /**
+   * Undo the last step (typing, clear, sample load or version restore)
+   */
+  const undo = useCallback(() => goToUndoStep(undoHistory.position - 1), [goToUndoStep, undoHistory.position]);
+
+  /**
+   * Redo the last undone step
+   */
+  const redo = useCallback(() => goToUndoStep(undoHistory.position + 1), [goToUndoStep, undoHistory.position]);
 
   /**
    * Get the latest version
@@ -134,13 +398,13 @@ export const useVersioning = (initialContent: string = '', documentId?: string)
   }, [documentState.versions]);
 
   /**
-   * Check if content has changed since last version
+   * Check if content has changed since it was last saved as or loaded from a version
    */
   const hasUnsavedChanges = useCallback(() => {
-    const latestVersion = getLatestVersion();
-    if (!latestVersion) return documentState.content.length > 0;
-    return latestVersion.content !== documentState.content;
-  }, [documentState.content, getLatestVersion]);
+    const baseVersion = getBaseVersion(documentState);
+    if (!baseVersion) return documentState.content.length > 0;
+    return baseVersion.content !== documentState.content;
+  }, [documentState]);
 
   /**
    * Load document from storage
@@ -152,7 +416,8 @@ export const useVersioning = (initialContent: string = '', documentId?: string)
     try {
       const loadedDocument = await versionStorage.loadDocument(docId);
       if (loadedDocument) {
-        setDocumentState(loadedDocument);
+        adoptStoredState(loadedDocument);
+        setConflict(null);
       }
     } catch (err) {
       console.warn('Failed to load document from storage:', err);
@@ -160,7 +425,7 @@ export const useVersioning = (initialContent: string = '', documentId?: string)
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [adoptStoredState]);
 
   /**
    * Create a new document
@@ -174,8 +439,72 @@ export const useVersioning = (initialContent: string = '', documentId?: string)
     };
     setDocumentState(newDocumentState);
     setError(null);
+    setConflict(null);
   }, []);
 
+  /**
+   * Resolve a conflict with another tab
+   * - keep-mine: overwrite the other tab's changes with this tab's state
+   * - use-theirs: discard this tab's changes and load the stored document
+   * - save-mine-as-version: load the stored document and keep this tab's
+   *   content as a new version of it
+   */
+  const resolveConflict = useCallback(async (choice: 'keep-mine' | 'use-theirs' | 'save-mine-as-version') => {
+    if (!conflict) return;
+
+    try {
+      if (choice === 'keep-mine') {
+        adoptRevision(documentState.id, await versionStorage.saveDocument(documentState, { force: true }));
+      } else {
+        const theirs = await versionStorage.loadDocument(conflict.documentId);
+        if (theirs && choice === 'save-mine-as-version') {
+          const copy: Version = {
+            id: generateVersionId(),
+            createdAt: new Date().toISOString(),
+            name: `Conflicted copy ${new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`,
+            content: documentState.content,
+            summary: generateContentSummary(documentState.content),
+            parentId: documentState.baseVersionId,
+          };
+          const merged = { ...theirs, versions: [copy, ...theirs.versions] };
+          adoptStoredState({ ...merged, revision: await versionStorage.saveDocument(merged) });
+        } else if (theirs) {
+          adoptStoredState(theirs);
+        }
+      }
+      setConflict(null);
+      setError(null);
+    } catch (err) {
+      console.warn('Failed to resolve conflict:', err);
+      setError('Failed to resolve conflict with another tab');
+    }
+  }, [conflict, documentState, adoptRevision, adoptStoredState]);
+
+  // Follow changes other tabs make to the open document
+  useEffect(() => {
+    return tabSync.subscribe(async (message) => {
+      if (message.type === 'document-deleted' && message.documentId === documentState.id) {
+        setError('This prompt was deleted in another tab');
+        return;
+      }
+
+      const affectsCurrent = message.type === 'workspace-changed'
+        || (message.type === 'document-saved' && message.documentId === documentState.id);
+      if (!affectsCurrent || pendingWritesRef.current > 0) {
+        // A write in flight will detect the conflict itself
+        return;
+      }
+
+      const editsBefore = localEditsRef.current;
+      const latest = await versionStorage.loadDocument(documentState.id);
+      // Only apply if nothing was typed here while loading
+      // Its revision is only taken on with its content; otherwise the next save must still see the conflict
+      if (latest && localEditsRef.current === editsBefore && pendingWritesRef.current === 0) {
+        adoptStoredState(latest);
+      }
+    });
+  }, [documentState.id, adoptStoredState]);
+
   /**
    * Initialize storage and check availability
    */
@@ -186,11 +515,17 @@ export const useVersioning = (initialContent: string = '', documentId?: string)
       // Check storage availability
       const available = await versionStorage.isStorageAvailable();
       const driver = versionStorage.getCurrentDriver();
+      const { persistent, reason } = versionStorage.getPersistenceStatus();
+      const { enabled: encrypted, locked } = versionStorage.getEncryptionStatus();
       
       setStorageStatus({
         available,
         driver,
         enabled: isVersionEnabled('V2_PERSISTENCE'),
+        persistent,
+        reason,
+        encrypted,
+        locked,
       });
 
       if (documentId) {
@@ -202,6 +537,10 @@ export const useVersioning = (initialContent: string = '', documentId?: string)
         available: false,
         driver: 'none',
         enabled: isVersionEnabled('V2_PERSISTENCE'),
+        persistent: false,
+        reason: 'Storage could not be initialized',
+        encrypted: false,
+        locked: false,
       });
       setError(null); // Don't show error to user, just log it
     }
@@ -212,12 +551,54 @@ export const useVersioning = (initialContent: string = '', documentId?: string)
     initializeStorage();
   }, [initializeStorage]);
 
+  // Track encryption being turned on/off, locked or unlocked (here or in another tab)
+  useEffect(() => {
+    return versionStorage.subscribeEncryption(({ enabled, locked }) => {
+      setStorageStatus(status => ({ ...status, encrypted: enabled, locked }));
+    });
+  }, []);
+
+  /**
+   * Unlock encrypted storage; rejects with WrongPassphraseError if the passphrase does not match
+   */
+  const unlockStorage = useCallback(async (passphrase: string) => {
+    await versionStorage.unlock(passphrase);
+    setError(null);
+  }, []);
+
+  // Warn before leaving when this session's work only lives in memory
+  useEffect(() => {
+    if (storageStatus.persistent || !documentState.content) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [storageStatus.persistent, documentState.content]);
+
   return {
     documentState,
     saveVersion,
+    mergeVersion,
+    takeSnapshot,
     loadVersion,
     deleteVersion,
+    pinVersion,
+    setVersionTags,
+    moveVersionLabel,
+    setVariableSets,
+    setVariableSchema,
+    setDocumentName,
     updateContent,
+    clearContent,
+    undoHistory,
+    canUndo: canUndo(undoHistory),
+    canRedo: canRedo(undoHistory),
+    undo,
+    redo,
+    goToUndoStep,
     getLatestVersion,
     hasUnsavedChanges,
     loadDocumentFromStorage,
@@ -225,35 +606,75 @@ export const useVersioning = (initialContent: string = '', documentId?: string)
     isLoading,
     error,
     storageStatus,
+    conflict,
+    resolveConflict,
+    unlockStorage,
   };
 };
 
+type VersionFields = Partial<Pick<Version, 'name' | 'note' | 'mergeParentId' | 'auto'>>;
+
 /**
- * Generate a unique document ID
+ * Add a version of `content` on top of a state's base version, applying the
+ * document's retention policy when automatic pruning is on, or else the cap on
+ * automatic snapshots when the new version is one.
+ * Versions saved without a note get a suggested one from the sections that
+ * changed, kept apart from notes the user wrote.
  */
-function generateDocumentId(): string {
-  return `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+async function appendVersion(
+  documentState: DocumentState,
+  content: string,
+  fields: VersionFields
+): Promise<{ state: DocumentState; version: Version }> {
+  const version: Version = {
+    id: generateVersionId(),
+    createdAt: new Date().toISOString(),
+    name: fields.name || undefined,
+    note: fields.note?.trim() || undefined,
+    content,
+    summary: generateContentSummary(content),
+    parentId: documentState.baseVersionId,
+    mergeParentId: fields.mergeParentId,
+    auto: fields.auto || undefined,
+  };
+  if (!version.note) {
+    const base = documentState.versions.find(v => v.id === documentState.baseVersionId);
+    version.suggestedNote = suggestVersionNote(base?.content ?? null, content);
+  }
+
+  let state: DocumentState = {
+    ...documentState,
+    content,
+    versions: [version, ...documentState.versions],
+    updatedAt: new Date().toISOString(),
+    baseVersionId: version.id,
+  };
+
+  const policy = await versionStorage.getRetentionPolicy(documentState.id);
+  if (policy.enabled) {
+    state = removeVersions(state, planPrune(state.versions, policy).prune.map(v => v.id));
+  } else if (version.auto) {
+    state = removeVersions(state, excessSnapshots(state.versions).map(v => v.id));
+  }
+
+  return { state, version };
 }
 
 /**
- * Generate a unique version ID
+ * The version being edited, falling back to the newest for documents saved before bases were tracked
  */
-function generateVersionId(): string {
-  return `ver_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+function getBaseVersion(documentState: DocumentState): Version | null {
+  return documentState.versions.find(v => v.id === documentState.baseVersionId)
+    ?? documentState.versions[0]
+    ?? null;
 }
 
 /**
- * Generate a version name based on timestamp
+ * Whether the content holds edits that no version has captured yet
  */
-function generateVersionName(): string {
-  const now = new Date();
-  const date = now.toLocaleDateString('en-US', { 
-    month: 'short', 
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit'
-  });
-  return `Version ${date}`;
+function hasUnversionedContent(documentState: DocumentState): boolean {
+  if (!documentState.content.trim()) return false;
+  return getBaseVersion(documentState)?.content !== documentState.content;
 }
 
 /**
@@ -0,0 +1,331 @@
+/**
+ * Encrypted Storage Backend
+ * Wraps another backend and seals selected fields of selected records with a
+ * passphrase-derived key, leaving the rest of each record readable. Records
+ * written before encryption was enabled are returned as they are, so a store
+ * can be converted one record at a time.
+ * A passphrase change is recorded before any record is re-sealed, so one that
+ * is interrupted is finished on the next unlock with either passphrase.
+ */
+
+import {
+  createEncryptionMeta,
+  decryptText,
+  encryptText,
+  unlockKey,
+  StoreLockedError,
+  WrongPassphraseError,
+} from '../encryption';
+import type { EncryptedPayload, EncryptionMeta } from '../encryption';
+import type { StorageBackend } from './types';
+
+export const ENCRYPTION_META_KEY = 'encryption-meta';
+export const ENCRYPTION_REKEY_KEY = 'encryption-rekey';
+
+// Lists the top-level fields of a record that must be encrypted, by storage key
+export type SealedFields = (key: string) => readonly string[];
+
+type StoredRecord = Record<string, unknown> & { sealed?: EncryptedPayload };
+
+/**
+ * A passphrase change in progress. Each passphrase is kept sealed under the
+ * other's key, so whichever one is entered next can recover both keys; the
+ * record is removed once every record is under the new key.
+ */
+interface PendingRekey {
+  from: EncryptionMeta;
+  to: EncryptionMeta;
+  fromPassphrase: EncryptedPayload; // sealed with the new key
+  toPassphrase: EncryptedPayload;   // sealed with the old key
+}
+
+function isSealed(value: unknown): value is StoredRecord & { sealed: EncryptedPayload } {
+  return typeof value === 'object' && value !== null && 'sealed' in value;
+}
+
+export class EncryptedBackend implements StorageBackend {
+  readonly inner: StorageBackend;
+  private sealedFields: SealedFields;
+  private meta: EncryptionMeta | null = null;
+  private key: CryptoKey | null = null;
+  private rekey: PendingRekey | null = null;
+  private previousKey: CryptoKey | null = null; // old key while a passphrase change is finished
+
+  constructor(inner: StorageBackend, sealedFields: SealedFields) {
+    this.inner = inner;
+    this.sealedFields = sealedFields;
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get persistent(): boolean {
+    return this.inner.persistent;
+  }
+
+  get isEnabled(): boolean {
+    return this.meta !== null;
+  }
+
+  get isLocked(): boolean {
+    return this.meta !== null && this.key === null;
+  }
+
+  ready(): Promise<void> {
+    return this.inner.ready();
+  }
+
+  /**
+   * Read the stored encryption metadata; forgets the key if it no longer matches
+   */
+  async loadMeta(): Promise<void> {
+    const meta = await this.inner.getItem<EncryptionMeta>(ENCRYPTION_META_KEY);
+    const rekey = await this.inner.getItem<PendingRekey>(ENCRYPTION_REKEY_KEY);
+    if (meta?.salt !== this.meta?.salt || rekey?.to.salt !== this.rekey?.to.salt) {
+      this.key = null;
+      this.previousKey = null;
+    }
+    this.meta = meta;
+    this.rekey = rekey;
+  }
+
+  /**
+   * Derive the key from a passphrase; throws WrongPassphraseError if it does not match.
+   * While a passphrase change is unfinished either the old or the new passphrase unlocks.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.meta) {
+      throw new Error('Encryption is not enabled');
+    }
+    if (!this.rekey) {
+      this.key = await unlockKey(passphrase, this.meta);
+      return;
+    }
+
+    const { from, to, fromPassphrase, toPassphrase } = this.rekey;
+    let fromKey: CryptoKey;
+    let toKey: CryptoKey;
+    try {
+      toKey = await unlockKey(passphrase, to);
+      fromKey = await unlockKey(await decryptText(toKey, fromPassphrase), from);
+    } catch (error) {
+      if (!(error instanceof WrongPassphraseError)) throw error;
+      fromKey = await unlockKey(passphrase, from);
+      toKey = await unlockKey(await decryptText(fromKey, toPassphrase), to);
+    }
+    this.key = toKey;
+    this.previousKey = fromKey;
+  }
+
+  lock(): void {
+    this.key = null;
+    this.previousKey = null;
+  }
+
+  /**
+   * Finish work an earlier session left undone, once unlocked: an interrupted
+   * passphrase change, and fields that are sealed now but were stored in plain text.
+   * Resolves to whether a passphrase change was finished.
+   */
+  async resealPending(): Promise<boolean> {
+    if (!this.meta || !this.key) return false;
+    const rekeyed = this.rekey !== null;
+    if (this.rekey) {
+      await this.finishRekey();
+    }
+
+    for (const key of await this.inner.keys()) {
+      const fields = this.sealedFields(key);
+      if (fields.length === 0) continue;
+      const stored = await this.inner.getItem<unknown>(key);
+      if (typeof stored !== 'object' || stored === null) continue;
+      if (fields.some(field => field in stored)) {
+        const value = isSealed(stored) ? await this.open(stored, this.openingKeys()) : stored;
+        await this.inner.setItem(key, await this.seal(key, value, this.key));
+      }
+    }
+    return rekeyed;
+  }
+
+  /**
+   * Start encrypting with a new passphrase and seal every existing record.
+   * The metadata is written first: if sealing is interrupted the store holds
+   * a mix of sealed and plain records, which reads back fine.
+   */
+  async enable(passphrase: string): Promise<void> {
+    if (this.meta) {
+      throw new Error('Encryption is already enabled');
+    }
+    const { meta, key } = await createEncryptionMeta(passphrase);
+    await this.inner.setItem(ENCRYPTION_META_KEY, meta);
+    this.meta = meta;
+    this.key = key;
+    await this.resealAll([], key);
+  }
+
+  /**
+   * Re-encrypt every sealed record under a key derived from a new passphrase
+   */
+  async changePassphrase(current: string, next: string): Promise<void> {
+    if (!this.meta) {
+      throw new Error('Encryption is not enabled');
+    }
+    if (this.rekey) {
+      // An earlier change has to be finished first, or records would end up under three keys
+      await this.unlock(current);
+      await this.finishRekey();
+    }
+    const currentKey = await unlockKey(current, this.meta);
+    const { meta, key } = await createEncryptionMeta(next);
+    const rekey: PendingRekey = {
+      from: this.meta,
+      to: meta,
+      fromPassphrase: await encryptText(key, current),
+      toPassphrase: await encryptText(currentKey, next),
+    };
+    await this.inner.setItem(ENCRYPTION_REKEY_KEY, rekey);
+    this.rekey = rekey;
+    this.key = key;
+    this.previousKey = currentKey;
+    await this.finishRekey();
+  }
+
+  /**
+   * Decrypt every record and stop encrypting
+   */
+  async disable(passphrase: string): Promise<void> {
+    if (!this.meta) {
+      return;
+    }
+    if (this.rekey) {
+      await this.unlock(passphrase);
+      await this.finishRekey();
+    }
+    const currentKey = await unlockKey(passphrase, this.meta);
+    await this.resealAll([currentKey], null);
+    await this.inner.removeItem(ENCRYPTION_META_KEY);
+    this.meta = null;
+    this.key = null;
+  }
+
+  async getItem<T>(key: string): Promise<T | null> {
+    const value = await this.inner.getItem<unknown>(key);
+    if (!isSealed(value)) {
+      return value as T | null;
+    }
+    if (!this.key) {
+      throw new StoreLockedError();
+    }
+    return await this.open(value, this.openingKeys()) as T;
+  }
+
+  /**
+   * Read a record as stored, without decrypting. Sealed fields are missing
+   * from the result, so only use it for fields that are never sealed.
+   */
+  async peek<T>(key: string): Promise<T | null> {
+    return this.inner.getItem<T>(key);
+  }
+
+  async setItem<T>(key: string, value: T): Promise<void> {
+    if (!this.meta || this.sealedFields(key).length === 0) {
+      return this.inner.setItem(key, value);
+    }
+    if (!this.key) {
+      throw new StoreLockedError();
+    }
+    await this.inner.setItem(key, await this.seal(key, value, this.key));
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.inner.removeItem(key);
+  }
+
+  keys(): Promise<string[]> {
+    return this.inner.keys();
+  }
+
+  /**
+   * Remove every item but keep encryption turned on
+   */
+  async clear(): Promise<void> {
+    await this.inner.clear();
+    if (this.meta) {
+      await this.inner.setItem(ENCRYPTION_META_KEY, this.meta);
+    }
+  }
+
+  /**
+   * Move every record onto the new key of a passphrase change, then make the
+   * new metadata current and drop the pending change
+   */
+  private async finishRekey(): Promise<void> {
+    if (!this.rekey || !this.key || !this.previousKey) {
+      throw new StoreLockedError();
+    }
+    // Records re-sealed before an interruption already open with the new key
+    await this.resealAll([this.key, this.previousKey], this.key);
+    await this.inner.setItem(ENCRYPTION_META_KEY, this.rekey.to);
+    this.meta = this.rekey.to;
+    await this.inner.removeItem(ENCRYPTION_REKEY_KEY);
+    this.rekey = null;
+    this.previousKey = null;
+  }
+
+  // Keys sealed records may be under, the current one first
+  private openingKeys(): CryptoKey[] {
+    return [this.key, this.previousKey].filter((key): key is CryptoKey => key !== null);
+  }
+
+  /**
+   * Rewrite every record that has sealed fields, decrypting with whichever of
+   * `from` opens it and encrypting with `to` (null meaning plain text)
+   */
+  private async resealAll(from: CryptoKey[], to: CryptoKey | null): Promise<void> {
+    for (const key of await this.inner.keys()) {
+      if (this.sealedFields(key).length === 0) continue;
+
+      const stored = await this.inner.getItem<unknown>(key);
+      if (stored === null) continue;
+      if (isSealed(stored) && from.length === 0) {
+        throw new StoreLockedError();
+      }
+
+      const value = isSealed(stored) ? await this.open(stored, from) : stored;
+      await this.inner.setItem(key, to ? await this.seal(key, value, to) : value);
+    }
+  }
+
+  private async seal(key: string, value: unknown, cryptoKey: CryptoKey): Promise<unknown> {
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+
+    const record: StoredRecord = { ...(value as StoredRecord) };
+    const secret: Record<string, unknown> = {};
+    for (const field of this.sealedFields(key)) {
+      if (field in record) {
+        secret[field] = record[field];
+        delete record[field];
+      }
+    }
+    record.sealed = await encryptText(cryptoKey, JSON.stringify(secret));
+    return record;
+  }
+
+  private async open(value: StoredRecord & { sealed: EncryptedPayload }, cryptoKeys: CryptoKey[]): Promise<StoredRecord> {
+    const record: StoredRecord = { ...value };
+    delete record.sealed;
+    let failure: unknown;
+    for (const cryptoKey of cryptoKeys) {
+      try {
+        return { ...record, ...JSON.parse(await decryptText(cryptoKey, value.sealed)) };
+      } catch (error) {
+        // AES-GCM rejects any key but the one the record was sealed with
+        failure = error;
+      }
+    }
+    throw failure;
+  }
+}
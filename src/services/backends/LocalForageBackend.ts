@@ -0,0 +1,59 @@
+/**
+ * LocalForage Storage Backend
+ * Persists to IndexedDB with automatic fallback (IndexedDB -> WebSQL -> localStorage)
+ */
+
+import localforage from 'localforage';
+import type { StorageBackend } from './types';
+
+export class LocalForageBackend implements StorageBackend {
+  readonly persistent = true;
+  private store: LocalForage;
+
+  constructor() {
+    // Configure localForage
+    this.store = localforage.createInstance({
+      name: 'markdown-prompt-editor',
+      version: 1.0,
+      storeName: 'versions',
+      description: 'Markdown Prompt Editor - Document and Version Storage'
+    });
+
+    // Set driver priority: IndexedDB -> WebSQL -> localStorage
+    this.store.setDriver([
+      localforage.INDEXEDDB,
+      localforage.WEBSQL,
+      localforage.LOCALSTORAGE
+    ]).catch(() => {
+      // No driver is available; ready() rejects with the same error
+    });
+  }
+
+  get name(): string {
+    return this.store.driver() || 'unknown';
+  }
+
+  async ready(): Promise<void> {
+    await this.store.ready();
+  }
+
+  getItem<T>(key: string): Promise<T | null> {
+    return this.store.getItem<T>(key);
+  }
+
+  async setItem<T>(key: string, value: T): Promise<void> {
+    await this.store.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.store.removeItem(key);
+  }
+
+  keys(): Promise<string[]> {
+    return this.store.keys();
+  }
+
+  clear(): Promise<void> {
+    return this.store.clear();
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Memory Storage Backend
+ * Keeps everything in a Map for the lifetime of the page; nothing survives a reload
+ */
+
+import type { StorageBackend } from './types';
+
+export class MemoryBackend implements StorageBackend {
+  readonly name = 'memory';
+  readonly persistent = false;
+  private items = new Map<string, unknown>();
+
+  async ready(): Promise<void> {
+    // Always available
+  }
+
+  async getItem<T>(key: string): Promise<T | null> {
+    // Hand out copies so callers cannot mutate stored values in place,
+    // matching the behaviour of the persistent backends
+    return this.items.has(key) ? structuredClone(this.items.get(key) as T) : null;
+  }
+
+  async setItem<T>(key: string, value: T): Promise<void> {
+    this.items.set(key, structuredClone(value));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.items.keys()];
+  }
+
+  async clear(): Promise<void> {
+    this.items.clear();
+  }
+}
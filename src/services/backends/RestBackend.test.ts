@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from '../../../server/reference-server.js';
+import type { ReferenceServer } from '../../../server/reference-server.js';
+import { RestBackend } from './RestBackend';
+import { VersionStorageService } from '../storage';
+
+describe('RestBackend against the reference server', () => {
+  let server: ReferenceServer;
+  let backend: RestBackend;
+
+  beforeAll(async () => {
+    server = await startServer({ port: 0 });
+    backend = new RestBackend(`${server.url}/`);
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => backend.clear());
+
+  it('reads back what it stores, under keys that need escaping', async () => {
+    await backend.ready();
+    const value = { content: 'Be kind.\n', tags: ['tone'], nested: { count: 2 } };
+
+    await backend.setItem('version:ver_1', value);
+    await backend.setItem('a/b c?', 'text');
+
+    expect(await backend.getItem('version:ver_1')).toEqual(value);
+    expect(await backend.getItem('a/b c?')).toBe('text');
+    expect((await backend.keys()).sort()).toEqual(['a/b c?', 'version:ver_1']);
+  });
+
+  it('reads missing and removed items as null', async () => {
+    await backend.setItem('gone', 1);
+    await backend.removeItem('gone');
+    await backend.removeItem('never-there');
+
+    expect(await backend.getItem('gone')).toBeNull();
+    expect(await backend.getItem('never-there')).toBeNull();
+  });
+
+  it('stores undefined as null rather than sending a body the server rejects', async () => {
+    await backend.setItem('empty', undefined);
+
+    expect(await backend.getItem('empty')).toBeNull();
+    expect(await backend.keys()).toEqual(['empty']);
+  });
+
+  it('clears every item', async () => {
+    await backend.setItem('one', 1);
+    await backend.setItem('two', 2);
+
+    await backend.clear();
+
+    expect(await backend.keys()).toEqual([]);
+  });
+
+  it('saves and loads documents through version storage', async () => {
+    const storage = new VersionStorageService(backend);
+    await storage.saveDocument({
+      id: 'doc_rest',
+      name: 'support-bot',
+      content: 'Be kind.\nUse lists.\n',
+      versions: [
+        { id: 'ver_rest_2', createdAt: '2024-06-10T13:00:00.000Z', content: 'Be kind.\nUse lists.\n', summary: 'Lists', parentId: 'ver_rest_1' },
+        { id: 'ver_rest_1', createdAt: '2024-06-10T12:00:00.000Z', content: 'Be kind.\n', summary: 'First' },
+      ],
+      updatedAt: '2024-06-10T13:00:00.000Z',
+      baseVersionId: 'ver_rest_2',
+    });
+
+    const loaded = await new VersionStorageService(new RestBackend(server.url)).loadDocument('doc_rest');
+
+    expect(loaded).toMatchObject({ name: 'support-bot', content: 'Be kind.\nUse lists.\n', baseVersionId: 'ver_rest_2' });
+    expect(loaded?.versions.map(v => [v.id, v.content])).toEqual([
+      ['ver_rest_2', 'Be kind.\nUse lists.\n'],
+      ['ver_rest_1', 'Be kind.\n'],
+    ]);
+  });
+
+  it('reports errors the server responds with', async () => {
+    await expect(new RestBackend(`${server.url}/missing`).ready()).rejects.toThrow('Storage server responded 404 to GET /health');
+  });
+});
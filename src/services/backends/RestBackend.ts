@@ -0,0 +1,71 @@
+/**
+ * REST Storage Backend
+ * Stores items on a document server over HTTP (see server/reference-server.js)
+ *
+ * Protocol
+ * - GET    /health       -> 200 when the server is up
+ * - GET    /items        -> JSON array of keys
+ * - GET    /items/:key   -> JSON value, or 404
+ * - PUT    /items/:key   -> store the JSON request body
+ * - DELETE /items/:key   -> remove one item
+ * - DELETE /items        -> remove every item
+ */
+
+import type { StorageBackend } from './types';
+
+export class RestBackend implements StorageBackend {
+  readonly persistent = true;
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  get name(): string {
+    return `rest (${this.baseUrl})`;
+  }
+
+  async ready(): Promise<void> {
+    await this.request('GET', '/health');
+  }
+
+  async getItem<T>(key: string): Promise<T | null> {
+    const response = await this.request('GET', this.itemPath(key), undefined, [404]);
+    return response.status === 404 ? null : (await response.json()) as T;
+  }
+
+  async setItem<T>(key: string, value: T): Promise<void> {
+    // JSON.stringify(undefined) is not JSON, so undefined is stored as null and reads back as missing
+    await this.request('PUT', this.itemPath(key), JSON.stringify(value ?? null));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('DELETE', this.itemPath(key), undefined, [404]);
+  }
+
+  async keys(): Promise<string[]> {
+    const response = await this.request('GET', '/items');
+    return (await response.json()) as string[];
+  }
+
+  async clear(): Promise<void> {
+    await this.request('DELETE', '/items');
+  }
+
+  private itemPath(key: string): string {
+    return `/items/${encodeURIComponent(key)}`;
+  }
+
+  private async request(method: string, path: string, body?: string, allowedStatuses: number[] = []): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      body,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    });
+
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      throw new Error(`Storage server responded ${response.status} to ${method} ${path}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,24 @@
+import { STORAGE_CONFIG } from '../../config/features';
+import { LocalForageBackend } from './LocalForageBackend';
+import { MemoryBackend } from './MemoryBackend';
+import { RestBackend } from './RestBackend';
+import { EncryptedBackend, ENCRYPTION_META_KEY } from './EncryptedBackend';
+import type { SealedFields } from './EncryptedBackend';
+import type { StorageBackend, StorageBackendType } from './types';
+
+export { LocalForageBackend, MemoryBackend, RestBackend, EncryptedBackend, ENCRYPTION_META_KEY };
+export type { StorageBackend, StorageBackendType, SealedFields };
+
+/**
+ * Create the storage backend selected in STORAGE_CONFIG
+ */
+export function createStorageBackend(type: StorageBackendType = STORAGE_CONFIG.BACKEND): StorageBackend {
+  switch (type) {
+    case 'memory':
+      return new MemoryBackend();
+    case 'rest':
+      return new RestBackend(STORAGE_CONFIG.REST_BASE_URL);
+    case 'localforage':
+      return new LocalForageBackend();
+  }
+}
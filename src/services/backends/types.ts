@@ -0,0 +1,23 @@
+/**
+ * Storage Backend Interface
+ * Minimal async key-value contract the version storage service is built on
+ */
+
+export type StorageBackendType = 'localforage' | 'memory' | 'rest';
+
+export interface StorageBackend {
+  // Human-readable name of the underlying store (e.g. the localForage driver)
+  readonly name: string;
+  // Whether data survives a page reload
+  readonly persistent: boolean;
+
+  /**
+   * Resolve once the backend can be used; reject if it is unavailable
+   */
+  ready(): Promise<void>;
+  getItem<T>(key: string): Promise<T | null>;
+  setItem<T>(key: string, value: T): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { buildChangelog, changelogFileName, suggestVersionNote } from './changelog';
+import type { Version } from '../types/editor';
+
+const version = (id: string, hour: number, content: string, extra: Partial<Version> = {}): Version => ({
+  id,
+  createdAt: `2024-06-10T${String(hour).padStart(2, '0')}:00:00.000Z`,
+  content,
+  summary: id,
+  ...extra,
+});
+
+const generatedAt = new Date('2024-06-11T00:00:00.000Z');
+
+describe('suggestVersionNote', () => {
+  it('names the sections that changed', () => {
+    expect(suggestVersionNote(null, '# Tone\n')).toBe('Initial version');
+    expect(suggestVersionNote('# Tone\nBe kind.\n', '# Tone\nBe brief.\n# Examples\nOne.\n')).toBe('Update Tone; add Examples');
+    expect(suggestVersionNote('# Tone\n', '# Tone\n')).toBe('No changes');
+  });
+});
+
+describe('buildChangelog', () => {
+  const versions = [
+    version('ver_2', 2, '# Tone\nBe brief.\n', { parentId: 'ver_1', note: 'Shorter answers', labels: ['production'] }),
+    version('ver_1', 1, '# Tone\nBe kind.\n', { name: 'First' }),
+  ];
+
+  it('titles the changelog with the document name', () => {
+    const changelog = buildChangelog({ id: 'doc_0123456789', name: 'support-bot', versions }, generatedAt);
+
+    expect(changelog.split('\n')[0]).toBe('# Changelog: support-bot');
+  });
+
+  it('falls back to the end of the document ID for unnamed documents', () => {
+    const changelog = buildChangelog({ id: 'doc_0123456789', versions }, generatedAt);
+
+    expect(changelog.split('\n')[0]).toBe('# Changelog: Document 23456789');
+  });
+
+  it('lists versions newest first with their notes, labels and section changes', () => {
+    const changelog = buildChangelog({ id: 'doc_a', name: 'support-bot', versions: [...versions].reverse() }, generatedAt);
+
+    expect(changelog).toContain('Generated 2024-06-11T00:00:00.000Z · 2 versions');
+    expect(changelog.indexOf('Shorter answers')).toBeLessThan(changelog.indexOf('## First'));
+    expect(changelog).toContain('**production**');
+    expect(changelog).toContain('Changes since First:\n\n- Modified: Tone');
+    expect(changelog).toContain('- First version');
+  });
+});
+
+describe('changelogFileName', () => {
+  it('names the file after the document, or the end of its ID', () => {
+    expect(changelogFileName({ id: 'doc_0123456789', name: 'support-bot' })).toBe('changelog-support-bot.md');
+    expect(changelogFileName({ id: 'doc_0123456789', name: 'Sales / EMEA v2' })).toBe('changelog-Sales-EMEA-v2.md');
+    expect(changelogFileName({ id: 'doc_0123456789' })).toBe('changelog-23456789.md');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Changelog Service
+ * Suggests change notes for new versions and builds a markdown changelog of a
+ * document's versions from their notes and section-level changes
+ */
+
+import type { DocumentState } from '../types/editor';
+import { summarizeSectionChanges } from '../utils/diff';
+import type { SectionChange } from '../utils/diff';
+import { findPreviousVersion, getDocumentLabel, getVersionLabel } from '../utils/versions';
+
+// Section names listed in a suggested note before the rest are counted
+const MAX_NAMED_SECTIONS = 3;
+
+const sectionName = (change: SectionChange) => change.heading || 'introduction';
+
+const listSections = (changes: SectionChange[]) => {
+  const names = changes.map(sectionName);
+  if (names.length <= MAX_NAMED_SECTIONS) return names.join(', ');
+  return `${names.slice(0, MAX_NAMED_SECTIONS).join(', ')} and ${names.length - MAX_NAMED_SECTIONS} more`;
+};
+
+/**
+ * A one-line note describing which sections changed, e.g.
+ * "Update Context, Rules; add Examples". `before` is null for a first version.
+ */
+export function suggestVersionNote(before: string | null, after: string): string {
+  if (before === null) {
+    return 'Initial version';
+  }
+
+  const changes = summarizeSectionChanges(before, after);
+  if (changes.length === 0) {
+    return before === after ? 'No changes' : 'Whitespace changes';
+  }
+
+  const parts: string[] = [];
+  const modified = changes.filter(c => c.type === 'modified');
+  const added = changes.filter(c => c.type === 'added');
+  const removed = changes.filter(c => c.type === 'removed');
+  if (modified.length > 0) parts.push(`update ${listSections(modified)}`);
+  if (added.length > 0) parts.push(`add ${listSections(added)}`);
+  if (removed.length > 0) parts.push(`remove ${listSections(removed)}`);
+
+  const note = parts.join('; ');
+  return note.charAt(0).toUpperCase() + note.slice(1);
+}
+
+/**
+ * Markdown changelog of a document's versions, newest first
+ */
+export function buildChangelog(document: Pick<DocumentState, 'id' | 'name' | 'versions'>, generatedAt: Date = new Date()): string {
+  const versions = [...document.versions].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+  const lines = [
+    `# Changelog: ${getDocumentLabel(document)}`,
+    '',
+    `Generated ${generatedAt.toISOString()} · ${versions.length} versions`,
+  ];
+
+  for (const version of versions) {
+    const previous = findPreviousVersion(document.versions, version);
+    lines.push('', `## ${getVersionLabel(version)}`, '', `*${version.createdAt}*${version.auto ? ' · automatic snapshot' : ''}`);
+
+    const markers = [
+      ...(version.labels ?? []).map(label => `**${label}**`),
+      ...(version.tags ?? []).map(tag => `#${tag}`),
+    ];
+    if (version.pinned) markers.push('pinned');
+    if (markers.length > 0) lines.push('', markers.join(' · '));
+
+    if (version.note) lines.push('', version.note);
+    else if (version.suggestedNote) lines.push('', `*Suggested note: ${version.suggestedNote}*`);
+
+    if (version.mergeParentId !== undefined) {
+      const merged = document.versions.find(v => v.id === version.mergeParentId);
+      lines.push('', `Merges ${merged ? getVersionLabel(merged) : 'a deleted version'}`);
+    }
+
+    if (!previous) {
+      lines.push('', '- First version');
+      continue;
+    }
+    const changes = summarizeSectionChanges(previous.content, version.content);
+    lines.push('', `Changes since ${getVersionLabel(previous)}:`, '');
+    if (changes.length === 0) {
+      lines.push('- No section changes');
+    }
+    for (const change of changes) {
+      const type = change.type.charAt(0).toUpperCase() + change.type.slice(1);
+      lines.push(`- ${type}: ${change.heading || '(introduction)'}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * File name for a document's changelog: its name made safe for file systems, or the end of its ID
+ */
+export function changelogFileName(document: Pick<DocumentState, 'id' | 'name'>): string {
+  return `changelog-${document.name ? document.name.replace(/[^a-z0-9_.-]+/gi, '-') : document.id.slice(-8)}.md`;
+}
+
+/**
+ * Offer a document's changelog as a downloadable .md file
+ */
+export function downloadChangelog(document: Pick<DocumentState, 'id' | 'name' | 'versions'>): void {
+  const blob = new Blob([buildChangelog(document)], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = changelogFileName(document);
+  link.click();
+  URL.revokeObjectURL(url);
+}
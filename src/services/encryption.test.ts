@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { StoreLockedError, WrongPassphraseError } from './encryption';
+import { VersionStorageService } from './storage';
+import { MemoryBackend } from './backends';
+import type { DocumentState } from '../types/editor';
+
+// Fails the nth write from when it is armed, like a tab closed halfway through re-encrypting
+class InterruptedBackend extends MemoryBackend {
+  private writesLeft = Infinity;
+
+  failOnWrite(n: number) {
+    this.writesLeft = n;
+  }
+
+  async setItem<T>(key: string, value: T): Promise<void> {
+    if (--this.writesLeft <= 0) {
+      this.writesLeft = Infinity;
+      throw new Error('Write interrupted');
+    }
+    return super.setItem(key, value);
+  }
+}
+
+const documentState = (id: string, content: string): DocumentState => ({
+  id,
+  content,
+  versions: [
+    { id: `${id}_v2`, createdAt: '2024-06-10T13:00:00.000Z', content, summary: 'Second', parentId: `${id}_v1`, note: 'secret note' },
+    { id: `${id}_v1`, createdAt: '2024-06-10T12:00:00.000Z', content: 'First draft\n', summary: 'First' },
+  ],
+  updatedAt: '2024-06-10T13:00:00.000Z',
+  baseVersionId: `${id}_v2`,
+});
+
+const contents = async (storage: VersionStorageService, id: string) => {
+  const document = await storage.loadDocument(id);
+  return [document?.content, ...(document?.versions.map(v => v.content) ?? [])];
+};
+
+describe('encryption at rest', () => {
+  let backend: InterruptedBackend;
+  let storage: VersionStorageService;
+
+  beforeEach(async () => {
+    backend = new InterruptedBackend();
+    storage = new VersionStorageService(backend);
+    await storage.saveDocument(documentState('doc_a', 'Be kind.\n'));
+    await storage.saveDocument(documentState('doc_b', 'Use lists.\n'));
+    await storage.enableEncryption('old passphrase');
+  });
+
+  it('keeps sealed fields out of the stored records', async () => {
+    expect(JSON.stringify(await backend.getItem('document:doc_a'))).not.toContain('Be kind');
+    expect(JSON.stringify(await backend.getItem('version:doc_a_v2'))).not.toContain('secret note');
+  });
+
+  it('reads everything back after a passphrase change, and only with the new passphrase', async () => {
+    await storage.changePassphrase('old passphrase', 'new passphrase');
+
+    expect(await contents(storage, 'doc_a')).toEqual(['Be kind.\n', 'Be kind.\n', 'First draft\n']);
+
+    const reopened = new VersionStorageService(backend);
+    await expect(reopened.loadDocument('doc_a')).rejects.toBeInstanceOf(StoreLockedError);
+    await expect(reopened.unlock('old passphrase')).rejects.toBeInstanceOf(WrongPassphraseError);
+    await reopened.unlock('new passphrase');
+    expect(await contents(reopened, 'doc_a')).toEqual(['Be kind.\n', 'Be kind.\n', 'First draft\n']);
+    expect(await contents(reopened, 'doc_b')).toEqual(['Use lists.\n', 'Use lists.\n', 'First draft\n']);
+    expect(await backend.getItem('encryption-rekey')).toBeNull();
+  });
+
+  it('changes nothing when the current passphrase is wrong', async () => {
+    const stored = await backend.getItem('document:doc_a');
+
+    await expect(storage.changePassphrase('wrong', 'new passphrase')).rejects.toBeInstanceOf(WrongPassphraseError);
+
+    expect(await backend.getItem('document:doc_a')).toEqual(stored);
+    const reopened = new VersionStorageService(backend);
+    await reopened.unlock('old passphrase');
+    expect(await contents(reopened, 'doc_a')).toEqual(['Be kind.\n', 'Be kind.\n', 'First draft\n']);
+  });
+
+  it('stays readable with the old passphrase when a change is interrupted, and finishes it on unlock', async () => {
+    // The pending change is recorded, one record is re-sealed, then the next write fails
+    backend.failOnWrite(3);
+    await expect(storage.changePassphrase('old passphrase', 'new passphrase')).rejects.toThrow('Write interrupted');
+    expect(await backend.getItem('encryption-rekey')).not.toBeNull();
+
+    const reopened = new VersionStorageService(backend);
+    await reopened.unlock('old passphrase');
+
+    expect(await contents(reopened, 'doc_a')).toEqual(['Be kind.\n', 'Be kind.\n', 'First draft\n']);
+    expect(await contents(reopened, 'doc_b')).toEqual(['Use lists.\n', 'Use lists.\n', 'First draft\n']);
+    expect(await backend.getItem('encryption-rekey')).toBeNull();
+
+    // The change went through, so from now on only the new passphrase unlocks
+    const later = new VersionStorageService(backend);
+    await expect(later.unlock('old passphrase')).rejects.toBeInstanceOf(WrongPassphraseError);
+    await later.unlock('new passphrase');
+    expect(await contents(later, 'doc_b')).toEqual(['Use lists.\n', 'Use lists.\n', 'First draft\n']);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Encryption Service
+ * Passphrase-derived AES-GCM encryption for stored prompt content, built on WebCrypto
+ */
+
+import { ENCRYPTION_CONFIG } from '../config/features';
+
+// Base64-encoded AES-GCM ciphertext and the IV it was sealed with
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+/**
+ * Stored alongside encrypted data. The verifier is a known text sealed with
+ * the key, so a wrong passphrase is detected before any content is touched.
+ */
+export interface EncryptionMeta {
+  salt: string;
+  iterations: number;
+  verifier: EncryptedPayload;
+  createdAt: string;
+}
+
+/**
+ * Thrown when a passphrase does not match the one the store was encrypted with
+ */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is incorrect');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+/**
+ * Thrown when encrypted content is read or written before the store is unlocked
+ */
+export class StoreLockedError extends Error {
+  constructor() {
+    super('Storage is locked; unlock it with the passphrase first');
+    this.name = 'StoreLockedError';
+  }
+}
+
+const VERIFIER_TEXT = 'markdown-prompt-editor';
+
+/**
+ * Check that WebCrypto is usable (it requires a secure context)
+ */
+export function isEncryptionSupported(): boolean {
+  return typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase with PBKDF2
+ */
+export async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt text with a fresh random IV
+ */
+export async function encryptText(key: CryptoKey, text: string): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/**
+ * Decrypt a payload; rejects if the key is wrong or the data was tampered with
+ */
+export async function decryptText(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return new TextDecoder().decode(data);
+}
+
+/**
+ * Set up encryption for a new passphrase, returning the metadata to store and the key
+ */
+export async function createEncryptionMeta(passphrase: string): Promise<{ meta: EncryptionMeta; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iterations = ENCRYPTION_CONFIG.KDF_ITERATIONS;
+  const key = await deriveKey(passphrase, salt, iterations);
+
+  return {
+    meta: {
+      salt: toBase64(salt),
+      iterations,
+      verifier: await encryptText(key, VERIFIER_TEXT),
+      createdAt: new Date().toISOString(),
+    },
+    key,
+  };
+}
+
+/**
+ * Derive the key for stored metadata, throwing WrongPassphraseError if it does not match
+ */
+export async function unlockKey(passphrase: string, meta: EncryptionMeta): Promise<CryptoKey> {
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    if (await decryptText(key, meta.verifier) === VERIFIER_TEXT) {
+      return key;
+    }
+  } catch {
+    // AES-GCM authentication fails for any other key
+  }
+  throw new WrongPassphraseError();
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,304 @@
+import { describe, expect, it } from 'vitest';
+import { checkIntegrity, repairIssue } from './integrity';
+import type { IntegrityIssueType, QuarantinedRecord, RepairAction } from './integrity';
+import { MemoryBackend } from './backends';
+
+const UPDATED_AT = '2024-06-10T12:00:00.000Z';
+
+const document = (id: string, versionIds: string[] = [], extra: Record<string, unknown> = {}) => ({
+  id,
+  content: `${id} content`,
+  versionIds,
+  updatedAt: UPDATED_AT,
+  revision: 1,
+  ...extra,
+});
+
+const version = (id: string, documentId: string, hour: number, extra: Record<string, unknown> = {}) => ({
+  id,
+  documentId,
+  createdAt: `2024-06-0${hour}T12:00:00.000Z`,
+  content: `${id} content`,
+  depth: 0,
+  ...extra,
+});
+
+const indexEntry = (id: string, versionCount = 0) => ({ id, updatedAt: UPDATED_AT, versionCount, revision: 1 });
+
+const undoHistory = { entries: [{ operation: 'open', label: 'Opened', content: '', createdAt: UPDATED_AT }], position: 0 };
+
+// A store with the given records, listing every document in the index unless the records include one
+const seed = async (records: Record<string, unknown>) => {
+  const store = new MemoryBackend();
+  for (const [key, value] of Object.entries(records)) {
+    await store.setItem(key, value);
+  }
+  if (!('document-index' in records)) {
+    const documents = Object.entries(records).filter(([key]) => key.startsWith('document:'));
+    await store.setItem('document-index', documents.map(([key]) => indexEntry(key.slice('document:'.length))));
+  }
+  return store;
+};
+
+const issueTypes = async (store: MemoryBackend) => (await checkIntegrity(store)).issues.map(issue => issue.type);
+
+// Apply a repair (the suggested one unless given) to the issue of a type, resolving to the documents it changed
+const repair = async (store: MemoryBackend, type: IntegrityIssueType, action?: RepairAction) => {
+  const issue = (await checkIntegrity(store)).issues.find(candidate => candidate.type === type);
+  if (!issue) throw new Error(`No ${type} issue found`);
+  return repairIssue(store, issue, action ?? issue.repairs[0]);
+};
+
+describe('checkIntegrity', () => {
+  it('finds nothing wrong with consistent records', async () => {
+    const store = await seed({
+      'document:a': document('a', ['v2', 'v1']),
+      'version:v2': version('v2', 'a', 2),
+      'version:v1': version('v1', 'a', 1),
+      'undo:a': undoHistory,
+    });
+
+    const report = await checkIntegrity(store);
+
+    expect(report).toMatchObject({ documentCount: 1, versionCount: 2, issues: [] });
+  });
+
+  it('reports each problem once with its suggested repair first', async () => {
+    const store = await seed({
+      'document:a': document('a', ['v1', 'v1', 'missing']),
+      'version:v1': version('v1', 'a', 1),
+      'version:bad': { id: 'bad' },
+    });
+
+    const { issues } = await checkIntegrity(store);
+
+    expect(issues.map(issue => [issue.type, issue.repairs[0]])).toEqual([
+      ['malformed-record', 'quarantine'],
+      ['duplicate-reference', 'dedupe-references'],
+      ['dangling-reference', 'remove-reference'],
+    ]);
+    expect(issues[2].versionIds).toEqual(['missing']);
+    // The same problem keeps its ID across checks
+    expect((await checkIntegrity(store)).issues.map(issue => issue.id)).toEqual(issues.map(issue => issue.id));
+  });
+});
+
+describe('repairIssue', () => {
+  it('refuses a repair that does not apply to the issue', async () => {
+    const store = await seed({ 'document:a': document('a', ['missing']) });
+    const [issue] = (await checkIntegrity(store)).issues;
+
+    await expect(repairIssue(store, issue, 'recover-document')).rejects.toThrow('does not apply');
+  });
+
+  describe('document index', () => {
+    it('rebuilds a damaged index from the documents', async () => {
+      const store = await seed({ 'document:a': document('a'), 'document:b': document('b'), 'document-index': { broken: true } });
+      expect(await issueTypes(store)).toEqual(['malformed-index']);
+
+      await repair(store, 'malformed-index');
+
+      expect((await store.getItem<{ id: string }[]>('document-index'))?.map(entry => entry.id).sort()).toEqual(['a', 'b']);
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('drops duplicate and stale entries and adds missing ones', async () => {
+      const store = await seed({
+        'document:a': document('a'),
+        'document:b': document('b'),
+        'document-index': [indexEntry('a'), indexEntry('a'), indexEntry('gone')],
+      });
+      expect(await issueTypes(store)).toEqual(['duplicate-index-entry', 'stale-index-entry', 'missing-index-entry']);
+
+      // Entries are recomputed from the documents, so every entry without one goes too
+      await repair(store, 'duplicate-index-entry');
+      expect(await issueTypes(store)).toEqual(['missing-index-entry']);
+
+      await repair(store, 'missing-index-entry');
+      expect((await store.getItem<{ id: string }[]>('document-index'))?.map(entry => entry.id)).toEqual(['a', 'b']);
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('removes an entry for a document that does not exist', async () => {
+      const store = await seed({ 'document:a': document('a'), 'document-index': [indexEntry('gone'), indexEntry('a')] });
+
+      await repair(store, 'stale-index-entry');
+
+      expect(await store.getItem('document-index')).toEqual([indexEntry('a')]);
+      expect(await issueTypes(store)).toEqual([]);
+    });
+  });
+
+  describe('quarantine', () => {
+    it('moves a malformed document aside with the reason and its original value', async () => {
+      const store = await seed({ 'document:a': document('a'), 'document:bad': { id: 'bad', content: 42 } });
+
+      await repair(store, 'malformed-record');
+
+      expect(await store.getItem('document:bad')).toBeNull();
+      const record = await store.getItem<QuarantinedRecord>('quarantine:document:bad');
+      expect(record).toMatchObject({ key: 'document:bad', value: { id: 'bad', content: 42 } });
+      expect(record?.reason).toContain('document:bad');
+      expect((await store.getItem<{ id: string }[]>('document-index'))?.map(entry => entry.id)).toEqual(['a']);
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('takes a quarantined version out of the history that lists it', async () => {
+      const store = await seed({
+        'document:a': document('a', ['v2', 'v1']),
+        'version:v2': version('v2', 'a', 2, { content: undefined, delta: { baseId: 'gone', ops: [] }, depth: 1 }),
+        'version:v1': version('v1', 'a', 1),
+      });
+      expect(await issueTypes(store)).toEqual(['broken-content']);
+
+      expect(await repair(store, 'broken-content')).toEqual(['a']);
+
+      expect(await store.getItem('quarantine:version:v2')).not.toBeNull();
+      expect(await store.getItem('document:a')).toMatchObject({ versionIds: ['v1'], revision: 2 });
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('moves every orphaned version of a deleted document aside', async () => {
+      const store = await seed({ 'version:v1': version('v1', 'lost', 1), 'version:v2': version('v2', 'lost', 2) });
+
+      await repair(store, 'orphaned-versions', 'quarantine');
+
+      expect(await store.keys()).toEqual(expect.arrayContaining(['quarantine:version:v1', 'quarantine:version:v2']));
+      expect(await store.getItem('version:v1')).toBeNull();
+      expect(await issueTypes(store)).toEqual([]);
+    });
+  });
+
+  describe('dates', () => {
+    it('resets an unreadable version date to its document\'s', async () => {
+      const store = await seed({ 'document:a': document('a', ['v1']), 'version:v1': version('v1', 'a', 1, { createdAt: 'soon' }) });
+
+      expect(await repair(store, 'invalid-date')).toEqual(['a']);
+
+      expect(await store.getItem('version:v1')).toMatchObject({ createdAt: UPDATED_AT });
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('resets an unreadable document date to now', async () => {
+      const store = await seed({ 'document:a': document('a', [], { updatedAt: 'yesterday' }) });
+
+      await repair(store, 'invalid-date');
+
+      const repaired = await store.getItem<{ updatedAt: string; revision: number }>('document:a');
+      expect(isNaN(new Date(repaired!.updatedAt).getTime())).toBe(false);
+      expect(repaired?.revision).toBe(2);
+      expect(await issueTypes(store)).toEqual([]);
+    });
+  });
+
+  describe('references', () => {
+    it('removes references to versions that do not exist', async () => {
+      const store = await seed({ 'document:a': document('a', ['v1', 'missing']), 'version:v1': version('v1', 'a', 1) });
+
+      await repair(store, 'dangling-reference');
+
+      expect(await store.getItem('document:a')).toMatchObject({ versionIds: ['v1'] });
+      expect((await store.getItem<{ versionCount: number }[]>('document-index'))?.[0].versionCount).toBe(1);
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('lists a version once in a document', async () => {
+      const store = await seed({ 'document:a': document('a', ['v1', 'v1']), 'version:v1': version('v1', 'a', 1) });
+
+      await repair(store, 'duplicate-reference');
+
+      expect(await store.getItem('document:a')).toMatchObject({ versionIds: ['v1'] });
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('keeps a version listed by several documents in its own', async () => {
+      const store = await seed({
+        'document:a': document('a', ['v1']),
+        'document:b': document('b', ['v1', 'v2']),
+        'version:v1': version('v1', 'b', 1),
+        'version:v2': version('v2', 'b', 2),
+      });
+
+      expect(await repair(store, 'duplicate-reference')).toEqual(['a']);
+
+      expect(await store.getItem('document:a')).toMatchObject({ versionIds: [] });
+      expect(await store.getItem('document:b')).toMatchObject({ versionIds: ['v1', 'v2'] });
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('gives a version the owner of the document that lists it', async () => {
+      const store = await seed({
+        'document:a': document('a', ['v1']),
+        'document:b': document('b'),
+        'version:v1': version('v1', 'b', 1),
+      });
+      expect(await issueTypes(store)).toEqual(['owner-mismatch']);
+
+      await repair(store, 'owner-mismatch');
+
+      expect(await store.getItem('version:v1')).toMatchObject({ documentId: 'a' });
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('reattaches an unlisted version in date order', async () => {
+      const store = await seed({
+        'document:a': document('a', ['v3', 'v1']),
+        'version:v3': version('v3', 'a', 3),
+        'version:v2': version('v2', 'a', 2),
+        'version:v1': version('v1', 'a', 1),
+      });
+
+      expect(await repair(store, 'unlisted-version')).toEqual(['a']);
+
+      expect(await store.getItem('document:a')).toMatchObject({ versionIds: ['v3', 'v2', 'v1'], revision: 2 });
+      expect(await issueTypes(store)).toEqual([]);
+    });
+  });
+
+  describe('recovering documents', () => {
+    it('rebuilds a deleted document from its orphaned versions', async () => {
+      const store = await seed({
+        'version:v1': version('v1', 'lost', 1, { content: 'Line one\n' }),
+        'version:v2': version('v2', 'lost', 2, { content: undefined, delta: { baseId: 'v1', ops: [[0, 1], [1, 'Line two\n']] }, depth: 1 }),
+      });
+
+      expect(await repair(store, 'orphaned-versions')).toEqual(['lost']);
+
+      expect(await store.getItem('document:lost')).toMatchObject({
+        id: 'lost',
+        content: 'Line one\nLine two\n',
+        versionIds: ['v2', 'v1'],
+        updatedAt: '2024-06-02T12:00:00.000Z',
+      });
+      expect((await store.getItem<{ id: string }[]>('document-index'))?.map(entry => entry.id)).toEqual(['lost']);
+      expect(await issueTypes(store)).toEqual([]);
+    });
+
+    it('uses a new ID when the old one has been taken since', async () => {
+      const store = await seed({ 'version:v1': version('v1', 'lost', 1) });
+      const [issue] = (await checkIntegrity(store)).issues;
+      await store.setItem('document:lost', document('lost'));
+
+      const [recoveredId] = await repairIssue(store, issue, 'recover-document');
+
+      expect(recoveredId).not.toBe('lost');
+      expect(await store.getItem(`document:${recoveredId}`)).toMatchObject({ content: 'v1 content', versionIds: ['v1'] });
+      expect(await store.getItem('version:v1')).toMatchObject({ documentId: recoveredId });
+    });
+  });
+
+  describe('orphaned undo histories', () => {
+    it('are found and discarded, leaving those of existing documents', async () => {
+      const store = await seed({ 'document:kept': document('kept'), 'undo:kept': undoHistory, 'undo:gone': undoHistory });
+
+      const { issues } = await checkIntegrity(store);
+      expect(issues).toMatchObject([{ type: 'orphaned-undo-history', key: 'undo:gone', documentId: 'gone' }]);
+
+      await repairIssue(store, issues[0], 'discard');
+
+      expect(await store.getItem('undo:gone')).toBeNull();
+      expect(await store.getItem('undo:kept')).toEqual(undoHistory);
+      expect(await issueTypes(store)).toEqual([]);
+    });
+  });
+});
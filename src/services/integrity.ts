@@ -0,0 +1,600 @@
+/**
+ * Storage Integrity Check
+ * Finds records the storage service cannot load correctly (orphaned versions,
+ * dangling or duplicated references, malformed records) and records left
+ * behind by deleted documents, and repairs them.
+ * Like the migrations, it reads and writes the storage layout directly and
+ * validates every record instead of trusting its shape.
+ */
+
+import { decodeContent } from './versionEncoding';
+import type { EncodedContent, VersionDelta } from './versionEncoding';
+import type { StorageBackend } from './backends/types';
+import { generateDocumentId } from '../utils/ids';
+
+export const QUARANTINE_PREFIX = 'quarantine:';
+
+const INDEX_KEY = 'document-index';
+const DOCUMENT_PREFIX = 'document:';
+const VERSION_PREFIX = 'version:';
+const UNDO_PREFIX = 'undo:';
+
+export type IntegrityIssueType =
+  | 'malformed-index'       // the document index is not a list of entries
+  | 'missing-index-entry'   // a document is not listed in the index, so it never shows up
+  | 'stale-index-entry'     // an index entry points at a document that does not exist
+  | 'duplicate-index-entry'
+  | 'malformed-record'      // a document or version record lacks required fields
+  | 'invalid-date'
+  | 'dangling-reference'    // a document lists a version that does not exist
+  | 'duplicate-reference'   // a version is listed twice by one document, or by several
+  | 'owner-mismatch'        // a version names a different document than the one listing it
+  | 'unlisted-version'      // a version of an existing document is missing from its list
+  | 'orphaned-versions'     // versions whose document no longer exists
+  | 'orphaned-undo-history' // an undo history whose document no longer exists
+  | 'broken-content';       // a version's content cannot be rebuilt from its deltas
+
+export type RepairAction =
+  | 'rebuild-index'
+  | 'add-index-entry'
+  | 'remove-index-entry'
+  | 'dedupe-index'
+  | 'quarantine'
+  | 'reset-date'
+  | 'remove-reference'
+  | 'dedupe-references'
+  | 'set-owner'
+  | 'reattach'
+  | 'recover-document'
+  | 'discard';
+
+export interface IntegrityIssue {
+  id: string; // stable for the same problem across checks
+  type: IntegrityIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  key: string; // storage key of the record the issue is about
+  documentId?: string;
+  versionIds?: string[];
+  repairs: RepairAction[]; // first is the suggested one
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  documentCount: number;
+  versionCount: number;
+  issues: IntegrityIssue[];
+}
+
+export interface QuarantinedRecord {
+  key: string;
+  reason: string;
+  quarantinedAt: string;
+  value: unknown;
+}
+
+interface DocumentRecord {
+  id: string;
+  name?: string;
+  content: string;
+  versionIds: string[];
+  updatedAt: string;
+  revision?: number;
+}
+
+interface VersionRecord {
+  id: string;
+  documentId: string;
+  createdAt: string;
+  content?: string;
+  delta?: VersionDelta;
+  depth?: number;
+}
+
+interface IndexEntry {
+  id: string;
+  updatedAt: string;
+  versionCount: number;
+  revision?: number;
+  name?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+
+const newestFirst = (a: { createdAt: string }, b: { createdAt: string }) =>
+  (new Date(b.createdAt).getTime() || 0) - (new Date(a.createdAt).getTime() || 0);
+
+function isDocumentRecord(value: unknown, id: string): value is DocumentRecord {
+  return isRecord(value)
+    && value.id === id
+    && typeof value.content === 'string'
+    && typeof value.updatedAt === 'string'
+    && Array.isArray(value.versionIds)
+    && value.versionIds.every(versionId => typeof versionId === 'string');
+}
+
+function isVersionRecord(value: unknown, id: string): value is VersionRecord {
+  const hasContent = isRecord(value)
+    && (typeof value.content === 'string'
+      || (isRecord(value.delta) && typeof value.delta.baseId === 'string' && Array.isArray(value.delta.ops)));
+  return hasContent
+    && (value as Record<string, unknown>).id === id
+    && typeof (value as Record<string, unknown>).documentId === 'string'
+    && typeof (value as Record<string, unknown>).createdAt === 'string';
+}
+
+function toEncoded(record: VersionRecord): EncodedContent {
+  return { content: record.content, delta: record.delta, depth: record.depth ?? 0 };
+}
+
+/**
+ * Everything the checks and repairs need, read in one pass
+ */
+interface Snapshot {
+  documents: Map<string, DocumentRecord>;
+  versions: Map<string, VersionRecord>;
+  malformedKeys: Set<string>;
+  undoHistoryIds: Set<string>; // documents with a stored undo history
+  index: IndexEntry[] | null; // null when the stored index is malformed
+}
+
+async function readSnapshot(store: StorageBackend): Promise<Snapshot> {
+  const snapshot: Snapshot = {
+    documents: new Map(),
+    versions: new Map(),
+    malformedKeys: new Set(),
+    undoHistoryIds: new Set(),
+    index: [],
+  };
+
+  for (const key of await store.keys()) {
+    if (key.startsWith(DOCUMENT_PREFIX)) {
+      const id = key.slice(DOCUMENT_PREFIX.length);
+      const value = await store.getItem<unknown>(key);
+      if (isDocumentRecord(value, id)) {
+        snapshot.documents.set(id, value);
+      } else {
+        snapshot.malformedKeys.add(key);
+      }
+    } else if (key.startsWith(VERSION_PREFIX)) {
+      const id = key.slice(VERSION_PREFIX.length);
+      const value = await store.getItem<unknown>(key);
+      if (isVersionRecord(value, id)) {
+        snapshot.versions.set(id, value);
+      } else {
+        snapshot.malformedKeys.add(key);
+      }
+    } else if (key.startsWith(UNDO_PREFIX)) {
+      snapshot.undoHistoryIds.add(key.slice(UNDO_PREFIX.length));
+    }
+  }
+
+  const index = await store.getItem<unknown>(INDEX_KEY);
+  if (index === null) {
+    snapshot.index = [];
+  } else if (Array.isArray(index) && index.every(entry => isRecord(entry) && typeof entry.id === 'string')) {
+    snapshot.index = index as IndexEntry[];
+  } else {
+    snapshot.index = null;
+  }
+
+  return snapshot;
+}
+
+/**
+ * Check every document, version and the document index
+ */
+export async function checkIntegrity(store: StorageBackend): Promise<IntegrityReport> {
+  const { documents, versions, malformedKeys, undoHistoryIds, index } = await readSnapshot(store);
+  const issues: IntegrityIssue[] = [];
+  const add = (issue: Omit<IntegrityIssue, 'id'>) => {
+    issues.push({ ...issue, id: `${issue.type}:${issue.key}:${issue.versionIds?.join(',') ?? ''}` });
+  };
+
+  for (const key of malformedKeys) {
+    add({
+      type: 'malformed-record',
+      severity: 'error',
+      message: `${key} is missing required fields and cannot be loaded`,
+      key,
+      repairs: ['quarantine'],
+    });
+  }
+
+  // Document index
+  if (index === null) {
+    add({
+      type: 'malformed-index',
+      severity: 'error',
+      message: 'The document list is damaged, so documents may not show up',
+      key: INDEX_KEY,
+      repairs: ['rebuild-index'],
+    });
+  } else {
+    const seen = new Set<string>();
+    for (const entry of index) {
+      if (seen.has(entry.id)) {
+        add({
+          type: 'duplicate-index-entry',
+          severity: 'warning',
+          message: `Document ${entry.id} is listed more than once`,
+          key: INDEX_KEY,
+          documentId: entry.id,
+          repairs: ['dedupe-index'],
+        });
+      } else if (!documents.has(entry.id) && !malformedKeys.has(`${DOCUMENT_PREFIX}${entry.id}`)) {
+        add({
+          type: 'stale-index-entry',
+          severity: 'warning',
+          message: `The document list includes ${entry.id}, which does not exist`,
+          key: INDEX_KEY,
+          documentId: entry.id,
+          repairs: ['remove-index-entry'],
+        });
+      }
+      seen.add(entry.id);
+    }
+    for (const id of documents.keys()) {
+      if (!seen.has(id)) {
+        add({
+          type: 'missing-index-entry',
+          severity: 'error',
+          message: `Document ${id} exists but is not listed, so it never shows up`,
+          key: INDEX_KEY,
+          documentId: id,
+          repairs: ['add-index-entry'],
+        });
+      }
+    }
+  }
+
+  // Documents and the versions they list
+  const listedBy = new Map<string, string[]>();
+  for (const document of documents.values()) {
+    const key = `${DOCUMENT_PREFIX}${document.id}`;
+    if (!isValidDate(document.updatedAt)) {
+      add({
+        type: 'invalid-date',
+        severity: 'warning',
+        message: `Document ${document.id} has an unreadable date "${document.updatedAt}"`,
+        key,
+        documentId: document.id,
+        repairs: ['reset-date'],
+      });
+    }
+
+    const unique = new Set(document.versionIds);
+    if (unique.size !== document.versionIds.length) {
+      add({
+        type: 'duplicate-reference',
+        severity: 'warning',
+        message: `Document ${document.id} lists some versions more than once`,
+        key,
+        documentId: document.id,
+        repairs: ['dedupe-references'],
+      });
+    }
+
+    const dangling = [...unique].filter(id => !versions.has(id) && !malformedKeys.has(`${VERSION_PREFIX}${id}`));
+    if (dangling.length > 0) {
+      add({
+        type: 'dangling-reference',
+        severity: 'warning',
+        message: `Document ${document.id} lists ${dangling.length} version(s) that no longer exist`,
+        key,
+        documentId: document.id,
+        versionIds: dangling,
+        repairs: ['remove-reference'],
+      });
+    }
+
+    unique.forEach(id => listedBy.set(id, [...(listedBy.get(id) ?? []), document.id]));
+  }
+
+  // Versions and who owns them
+  const orphans = new Map<string, string[]>();
+  const resolved = new Map<string, string>();
+  const lookup = async (baseId: string) => {
+    const base = versions.get(baseId);
+    return base ? toEncoded(base) : null;
+  };
+
+  for (const version of versions.values()) {
+    const key = `${VERSION_PREFIX}${version.id}`;
+    const owners = listedBy.get(version.id) ?? [];
+
+    if (!isValidDate(version.createdAt)) {
+      add({
+        type: 'invalid-date',
+        severity: 'warning',
+        message: `Version ${version.id} has an unreadable date "${version.createdAt}"`,
+        key,
+        documentId: version.documentId,
+        versionIds: [version.id],
+        repairs: ['reset-date'],
+      });
+    }
+
+    if (owners.length > 1) {
+      add({
+        type: 'duplicate-reference',
+        severity: 'error',
+        message: `Version ${version.id} is listed by ${owners.length} documents`,
+        key,
+        documentId: version.documentId,
+        versionIds: [version.id],
+        repairs: ['dedupe-references'],
+      });
+    } else if (owners.length === 1 && owners[0] !== version.documentId) {
+      add({
+        type: 'owner-mismatch',
+        severity: 'warning',
+        message: `Version ${version.id} is listed by document ${owners[0]} but belongs to ${version.documentId}`,
+        key,
+        documentId: owners[0],
+        versionIds: [version.id],
+        repairs: ['set-owner'],
+      });
+    } else if (owners.length === 0 && documents.has(version.documentId)) {
+      add({
+        type: 'unlisted-version',
+        severity: 'error',
+        message: `Version ${version.id} is missing from the history of document ${version.documentId}`,
+        key,
+        documentId: version.documentId,
+        versionIds: [version.id],
+        repairs: ['reattach', 'quarantine'],
+      });
+    } else if (owners.length === 0) {
+      orphans.set(version.documentId, [...(orphans.get(version.documentId) ?? []), version.id]);
+    }
+
+    try {
+      await decodeContent(version.id, toEncoded(version), lookup, resolved);
+    } catch (error) {
+      add({
+        type: 'broken-content',
+        severity: 'error',
+        message: `Version ${version.id} cannot be rebuilt: ${error instanceof Error ? error.message : String(error)}`,
+        key,
+        documentId: version.documentId,
+        versionIds: [version.id],
+        repairs: ['quarantine'],
+      });
+    }
+  }
+
+  for (const [documentId, versionIds] of orphans) {
+    add({
+      type: 'orphaned-versions',
+      severity: 'error',
+      message: `${versionIds.length} version(s) belong to document ${documentId}, which no longer exists`,
+      key: `${DOCUMENT_PREFIX}${documentId}`,
+      documentId,
+      versionIds,
+      repairs: ['recover-document', 'quarantine'],
+    });
+  }
+
+  for (const documentId of undoHistoryIds) {
+    if (!documents.has(documentId) && !malformedKeys.has(`${DOCUMENT_PREFIX}${documentId}`)) {
+      add({
+        type: 'orphaned-undo-history',
+        severity: 'warning',
+        message: `An undo history is left over from document ${documentId}, which no longer exists`,
+        key: `${UNDO_PREFIX}${documentId}`,
+        documentId,
+        repairs: ['discard'],
+      });
+    }
+  }
+
+  return {
+    checkedAt: new Date().toISOString(),
+    documentCount: documents.size,
+    versionCount: versions.size,
+    issues,
+  };
+}
+
+/**
+ * Apply one repair to an issue from checkIntegrity, resolving to the IDs of
+ * documents whose records were changed or created
+ */
+export async function repairIssue(
+  store: StorageBackend,
+  issue: IntegrityIssue,
+  action: RepairAction
+): Promise<string[]> {
+  if (!issue.repairs.includes(action)) {
+    throw new Error(`Repair "${action}" does not apply to ${issue.type}`);
+  }
+
+  const snapshot = await readSnapshot(store);
+  const { documents, versions, malformedKeys } = snapshot;
+  const touched = new Set<string>();
+
+  const saveDocument = async (document: DocumentRecord) => {
+    // Bump the revision so tabs holding the old history cannot overwrite the repair
+    const record = { ...document, revision: (document.revision ?? 0) + 1 };
+    await store.setItem(`${DOCUMENT_PREFIX}${document.id}`, record);
+    documents.set(document.id, record);
+    touched.add(document.id);
+  };
+
+  switch (action) {
+    case 'rebuild-index':
+    case 'add-index-entry':
+    case 'remove-index-entry':
+    case 'dedupe-index':
+      // Recomputed from the document records below
+      break;
+
+    case 'quarantine': {
+      const keys = issue.type === 'orphaned-versions'
+        ? (issue.versionIds ?? []).map(id => `${VERSION_PREFIX}${id}`)
+        : [issue.key];
+      for (const key of keys) {
+        await quarantine(store, key, issue.message);
+        malformedKeys.delete(key);
+        if (key.startsWith(VERSION_PREFIX)) {
+          const id = key.slice(VERSION_PREFIX.length);
+          for (const document of documents.values()) {
+            if (document.versionIds.includes(id)) {
+              await saveDocument({ ...document, versionIds: document.versionIds.filter(v => v !== id) });
+            }
+          }
+        } else {
+          documents.delete(key.slice(DOCUMENT_PREFIX.length));
+        }
+      }
+      break;
+    }
+
+    case 'reset-date': {
+      const version = issue.versionIds?.[0] ? versions.get(issue.versionIds[0]) : undefined;
+      if (version) {
+        const owner = documents.get(version.documentId);
+        const createdAt = owner && isValidDate(owner.updatedAt) ? owner.updatedAt : new Date().toISOString();
+        await store.setItem(issue.key, { ...version, createdAt });
+        if (owner) touched.add(owner.id);
+      } else if (issue.documentId && documents.has(issue.documentId)) {
+        await saveDocument({ ...documents.get(issue.documentId)!, updatedAt: new Date().toISOString() });
+      }
+      break;
+    }
+
+    case 'remove-reference': {
+      const document = issue.documentId ? documents.get(issue.documentId) : undefined;
+      if (document) {
+        const removed = new Set(issue.versionIds);
+        await saveDocument({ ...document, versionIds: document.versionIds.filter(id => !removed.has(id)) });
+      }
+      break;
+    }
+
+    case 'dedupe-references': {
+      if (issue.key.startsWith(DOCUMENT_PREFIX)) {
+        const document = issue.documentId ? documents.get(issue.documentId) : undefined;
+        if (document) {
+          await saveDocument({ ...document, versionIds: [...new Set(document.versionIds)] });
+        }
+      } else {
+        // Keep the version in its own document's history if that lists it, else the first listing
+        const version = versions.get(issue.versionIds?.[0] ?? '');
+        if (!version) break;
+        const owners = [...documents.values()].filter(d => d.versionIds.includes(version.id));
+        const keeper = owners.find(d => d.id === version.documentId) ?? owners[0];
+        for (const document of owners) {
+          if (document !== keeper) {
+            await saveDocument({ ...document, versionIds: document.versionIds.filter(id => id !== version.id) });
+          }
+        }
+        if (keeper && keeper.id !== version.documentId) {
+          await store.setItem(issue.key, { ...version, documentId: keeper.id });
+        }
+      }
+      break;
+    }
+
+    case 'set-owner': {
+      const version = versions.get(issue.versionIds?.[0] ?? '');
+      if (version && issue.documentId) {
+        await store.setItem(issue.key, { ...version, documentId: issue.documentId });
+        touched.add(issue.documentId);
+      }
+      break;
+    }
+
+    case 'reattach': {
+      const document = issue.documentId ? documents.get(issue.documentId) : undefined;
+      if (document) {
+        const listed = [...new Set([...document.versionIds, ...(issue.versionIds ?? [])])]
+          .map(id => versions.get(id))
+          .filter((v): v is VersionRecord => v !== undefined)
+          .sort(newestFirst);
+        await saveDocument({ ...document, versionIds: listed.map(v => v.id) });
+      }
+      break;
+    }
+
+    case 'recover-document': {
+      const recovered = (issue.versionIds ?? [])
+        .map(id => versions.get(id))
+        .filter((v): v is VersionRecord => v !== undefined)
+        .sort(newestFirst);
+      if (recovered.length === 0) break;
+
+      // Reuse the missing document's ID unless a document has taken it since
+      const documentId = issue.documentId && !documents.has(issue.documentId)
+        ? issue.documentId
+        : generateDocumentId();
+      let content = '';
+      try {
+        content = await decodeContent(recovered[0].id, toEncoded(recovered[0]), async (baseId) => {
+          const base = versions.get(baseId);
+          return base ? toEncoded(base) : null;
+        });
+      } catch {
+        // The newest version is damaged too; recover the history with empty current content
+      }
+      for (const version of recovered) {
+        if (version.documentId !== documentId) {
+          await store.setItem(`${VERSION_PREFIX}${version.id}`, { ...version, documentId });
+        }
+      }
+      await saveDocument({
+        id: documentId,
+        content,
+        versionIds: recovered.map(v => v.id),
+        updatedAt: isValidDate(recovered[0].createdAt) ? recovered[0].createdAt : new Date().toISOString(),
+      });
+      break;
+    }
+
+    case 'discard':
+      await store.removeItem(issue.key);
+      break;
+  }
+
+  // Keep the document index consistent with the document records
+  const rebuildAll = snapshot.index === null || action === 'rebuild-index';
+  const rebuilt: IndexEntry[] = [];
+  const seen = new Set<string>();
+  for (const entry of snapshot.index ?? []) {
+    if (seen.has(entry.id)) continue;
+    const document = documents.get(entry.id);
+    if (document) {
+      rebuilt.push({ ...entry, updatedAt: document.updatedAt, versionCount: document.versionIds.length, revision: document.revision });
+      seen.add(entry.id);
+    } else if (malformedKeys.has(`${DOCUMENT_PREFIX}${entry.id}`)) {
+      // Left for its own malformed-record issue
+      rebuilt.push(entry);
+      seen.add(entry.id);
+    }
+  }
+  for (const document of documents.values()) {
+    const include = rebuildAll
+      || touched.has(document.id)
+      || (action === 'add-index-entry' && document.id === issue.documentId);
+    if (include && !seen.has(document.id)) {
+      rebuilt.push({ id: document.id, updatedAt: document.updatedAt, versionCount: document.versionIds.length, revision: document.revision, name: document.name });
+    }
+  }
+  await store.setItem(INDEX_KEY, rebuilt);
+
+  return [...touched];
+}
+
+/**
+ * Move a record aside under `quarantine:<key>` so it no longer affects loading
+ */
+async function quarantine(store: StorageBackend, key: string, reason: string): Promise<void> {
+  const value = await store.getItem<unknown>(key);
+  const record: QuarantinedRecord = { key, reason, quarantinedAt: new Date().toISOString(), value };
+  await store.setItem(`${QUARANTINE_PREFIX}${key}`, record);
+  await store.removeItem(key);
+}
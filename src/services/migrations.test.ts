@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATION_BACKUP_KEY,
+  MIGRATIONS,
+  MigrationError,
+  SCHEMA_VERSION_KEY,
+  detectSchemaVersion,
+  runMigrations,
+} from './migrations';
+import { MemoryBackend } from './backends';
+
+// Long enough that storing the newer version as a delta is worthwhile
+const older = Array.from({ length: 20 }, (_, i) => `line ${i + 1}\n`).join('');
+const newer = `${older}line 21\n`;
+
+const legacyStore = async () => {
+  const store = new MemoryBackend();
+  await store.setItem('app-data', {
+    documents: {
+      doc: { id: 'doc', content: newer, updatedAt: '2024-03-01T10:00:00.000Z' },
+    },
+    versions: {
+      v1: {
+        id: 'v1',
+        documentId: 'doc',
+        name: 'Version Mar 1, 09:00 AM',
+        content: older,
+        summary: 'First',
+        createdAt: '2024-03-01T09:00:00.000Z',
+      },
+      v2: {
+        id: 'v2',
+        documentId: 'doc',
+        name: 'Release candidate',
+        content: newer,
+        summary: 'Second',
+        createdAt: '2024-03-01T10:00:00.000Z',
+      },
+    },
+  });
+  return store;
+};
+
+describe('migrations', () => {
+  it('treats an empty store as current', async () => {
+    expect(await detectSchemaVersion(new MemoryBackend())).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('upgrades a legacy blob to the current layout', async () => {
+    const store = await legacyStore();
+
+    expect(await runMigrations(store)).toBe(CURRENT_SCHEMA_VERSION);
+
+    expect(await store.getItem('app-data')).toBeNull();
+    expect(await store.getItem(SCHEMA_VERSION_KEY)).toBe(CURRENT_SCHEMA_VERSION);
+    expect(await store.getItem('document-index')).toEqual([
+      { id: 'doc', updatedAt: '2024-03-01T10:00:00.000Z', versionCount: 2 },
+    ]);
+    expect(await store.getItem<{ versionIds: string[] }>('document:doc')).toMatchObject({ versionIds: ['v2', 'v1'] });
+
+    // Generated names are dropped, names the user gave are kept
+    const first = await store.getItem<Record<string, unknown>>('version:v1');
+    const second = await store.getItem<Record<string, unknown>>('version:v2');
+    expect(first).not.toHaveProperty('name');
+    expect(second?.name).toBe('Release candidate');
+
+    // The oldest version is a snapshot, the newer one a delta against it
+    expect(first).toMatchObject({ content: older, depth: 0 });
+    expect(second).toMatchObject({ delta: { baseId: 'v1' }, depth: 1 });
+    expect(second).not.toHaveProperty('content');
+  });
+
+  it('restores the backup when a step fails', async () => {
+    const store = await legacyStore();
+    const failing = MIGRATIONS.map(m => m.from === 2
+      ? { ...m, migrate: async () => { throw new Error('boom'); } }
+      : m);
+
+    await expect(runMigrations(store, failing)).rejects.toBeInstanceOf(MigrationError);
+
+    expect(await store.getItem('app-data')).not.toBeNull();
+    expect(await store.getItem('document-index')).toBeNull();
+    expect(await store.getItem(MIGRATION_BACKUP_KEY)).toMatchObject({ schemaVersion: 1 });
+  });
+
+  it('refuses data from a newer schema', async () => {
+    const store = new MemoryBackend();
+    await store.setItem(SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION + 1);
+
+    await expect(runMigrations(store)).rejects.toBeInstanceOf(MigrationError);
+  });
+});
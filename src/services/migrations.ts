@@ -0,0 +1,255 @@
+/**
+ * Storage Schema Migrations
+ * Upgrades persisted data from older layouts to the current schema, one step at a time
+ */
+
+import { encodeContent } from './versionEncoding';
+import type { StorageBackend } from './backends/types';
+
+export const SCHEMA_VERSION_KEY = 'schema-version';
+export const MIGRATION_BACKUP_KEY = 'migration-backup';
+
+/**
+ * Schema history
+ * 1 - single `app-data` blob holding every document and version
+ * 2 - `document-index`, `document:<id>` and `version:<id>` records
+ * 3 - versions only carry a `name` when the user gave one
+ * 4 - version content is stored as snapshots plus line deltas
+ */
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (store: StorageBackend) => Promise<void>;
+}
+
+export interface MigrationBackup {
+  schemaVersion: number;
+  createdAt: string;
+  items: Record<string, unknown>;
+}
+
+export class MigrationError extends Error {
+  readonly fromVersion: number;
+  readonly toVersion: number;
+
+  constructor(message: string, fromVersion: number, toVersion: number) {
+    super(message);
+    this.name = 'MigrationError';
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+  }
+}
+
+// Record shapes as they were at schema version 1
+interface LegacyAppData {
+  documents?: Record<string, { id: string; content: string; updatedAt: string }>;
+  versions?: Record<string, {
+    id: string;
+    documentId: string;
+    name?: string;
+    content: string;
+    summary: string;
+    createdAt: string;
+  }>;
+}
+
+/**
+ * Registered migrations, ordered by source version.
+ * Migrations describe the layout they write explicitly instead of reusing the
+ * storage service's key helpers, so later layout changes cannot alter them.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Split the app-data blob into per-document and per-version records',
+    migrate: async (store) => {
+      const data = await store.getItem<LegacyAppData>('app-data');
+      const documents = Object.values(data?.documents ?? {});
+      const versions = Object.values(data?.versions ?? {});
+      const index = [];
+
+      for (const document of documents) {
+        const documentVersions = versions
+          .filter(v => v.documentId === document.id)
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+        for (const version of documentVersions) {
+          await store.setItem(`version:${version.id}`, version);
+        }
+
+        await store.setItem(`document:${document.id}`, {
+          id: document.id,
+          content: document.content,
+          versionIds: documentVersions.map(v => v.id),
+          updatedAt: document.updatedAt,
+        });
+
+        index.push({
+          id: document.id,
+          updatedAt: document.updatedAt,
+          versionCount: documentVersions.length,
+        });
+      }
+
+      await store.setItem('document-index', index);
+      await store.removeItem('app-data');
+    },
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'Drop generated version names so user-named versions can be told apart',
+    migrate: async (store) => {
+      // Matches names produced by the old default, e.g. "Version Aug 30, 02:15 PM"
+      const generatedName = /^Version [A-Z][a-z]{2} \d{1,2}, \d{2}:\d{2}[\s\u202f](AM|PM)$/;
+      const keys = (await store.keys()).filter(key => key.startsWith('version:'));
+
+      for (const key of keys) {
+        const version = await store.getItem<{ name?: string }>(key);
+        if (version?.name && generatedName.test(version.name)) {
+          const updated = { ...version };
+          delete updated.name;
+          await store.setItem(key, updated);
+        }
+      }
+    },
+  },
+  {
+    from: 3,
+    to: 4,
+    description: 'Re-encode version histories as snapshots plus deltas',
+    migrate: async (store) => {
+      const keys = (await store.keys()).filter(key => key.startsWith('document:'));
+
+      for (const key of keys) {
+        const document = await store.getItem<{ versionIds: string[] }>(key);
+        if (!document) continue;
+
+        // versionIds are newest-first; encode oldest-first so each base exists
+        let base: { id: string; content: string; depth: number } | undefined;
+        for (const id of [...document.versionIds].reverse()) {
+          const version = await store.getItem<{ id: string; content: string }>(`version:${id}`);
+          if (!version) continue;
+
+          const encoded = encodeContent(version.content, base);
+          const record: Record<string, unknown> = { ...version, depth: encoded.depth };
+          if (encoded.delta) {
+            delete record.content;
+            record.delta = encoded.delta;
+          }
+          await store.setItem(`version:${id}`, record);
+          base = { id, content: version.content, depth: encoded.depth };
+        }
+      }
+    },
+  },
+];
+
+/**
+ * Work out which schema version the stored data is in.
+ * Stores written before versioning existed have no marker: a legacy blob means
+ * version 1, and an empty store can start at the current version.
+ */
+export async function detectSchemaVersion(store: StorageBackend): Promise<number> {
+  const stored = await store.getItem<number>(SCHEMA_VERSION_KEY);
+  if (typeof stored === 'number') {
+    return stored;
+  }
+
+  const keys = await store.keys();
+  if (keys.includes('app-data')) {
+    return 1;
+  }
+  if (keys.includes('document-index')) {
+    // Per-record layout written before schema markers existed
+    return 2;
+  }
+  return CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Copy every stored item (except older backups) and persist the copy
+ */
+async function createBackup(store: StorageBackend, schemaVersion: number): Promise<MigrationBackup> {
+  const items: Record<string, unknown> = {};
+  for (const key of await store.keys()) {
+    if (key !== MIGRATION_BACKUP_KEY) {
+      items[key] = await store.getItem(key);
+    }
+  }
+
+  const backup: MigrationBackup = {
+    schemaVersion,
+    createdAt: new Date().toISOString(),
+    items,
+  };
+  await store.setItem(MIGRATION_BACKUP_KEY, backup);
+  return backup;
+}
+
+/**
+ * Replace the store contents with a backup, keeping the backup itself
+ */
+async function restoreBackup(store: StorageBackend, backup: MigrationBackup): Promise<void> {
+  await store.clear();
+  for (const [key, value] of Object.entries(backup.items)) {
+    await store.setItem(key, value);
+  }
+  await store.setItem(MIGRATION_BACKUP_KEY, backup);
+}
+
+/**
+ * Bring the store up to CURRENT_SCHEMA_VERSION.
+ * The data is backed up before the first step; if any step fails the backup is
+ * restored and a MigrationError is thrown.
+ */
+export async function runMigrations(
+  store: StorageBackend,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> {
+  const startVersion = await detectSchemaVersion(store);
+
+  if (startVersion > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Stored data uses schema version ${startVersion}, which is newer than this app supports (${CURRENT_SCHEMA_VERSION})`,
+      startVersion,
+      CURRENT_SCHEMA_VERSION
+    );
+  }
+
+  if (startVersion === CURRENT_SCHEMA_VERSION) {
+    await store.setItem(SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION);
+    return CURRENT_SCHEMA_VERSION;
+  }
+
+  const backup = await createBackup(store, startVersion);
+  let version = startVersion;
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = migrations.find(m => m.from === version);
+    if (!step) {
+      await restoreBackup(store, backup);
+      throw new MigrationError(`No migration registered from schema version ${version}`, version, CURRENT_SCHEMA_VERSION);
+    }
+
+    try {
+      await step.migrate(store);
+      await store.setItem(SCHEMA_VERSION_KEY, step.to);
+      version = step.to;
+    } catch (error) {
+      console.error(`Storage migration ${step.from} -> ${step.to} failed, rolling back:`, error);
+      await restoreBackup(store, backup);
+      throw new MigrationError(
+        `Migration from schema version ${step.from} to ${step.to} failed`,
+        step.from,
+        step.to
+      );
+    }
+  }
+
+  return version;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { planPrune } from './retention';
+import type { Version } from '../types/editor';
+
+const now = new Date('2024-06-10T12:00:00.000Z');
+
+const version = (id: string, createdAt: string, extra: Partial<Version> = {}): Version => ({
+  id,
+  createdAt,
+  content: id,
+  summary: id,
+  ...extra,
+});
+
+// Newest first, as documents list them
+const versions = [
+  version('today-2', '2024-06-10T11:00:00.000Z'),
+  version('today-1', '2024-06-10T10:00:00.000Z'),
+  version('yesterday', '2024-06-09T10:00:00.000Z'),
+  version('old-late', '2024-05-01T14:00:00.000Z'),
+  version('old-early', '2024-05-01T12:00:00.000Z'),
+  version('old-named', '2024-05-01T11:00:00.000Z', { name: 'Launch' }),
+];
+
+const ids = (list: Version[]) => list.map(v => v.id);
+
+describe('planPrune', () => {
+  it('keeps the newest versions and one per day once they are old', () => {
+    const { keep, prune } = planPrune(versions, { enabled: true, keepLast: 2, dailyAfterDays: 7 }, now);
+
+    expect(ids(keep)).toEqual(['today-2', 'today-1', 'old-late', 'old-named']);
+    expect(ids(prune)).toEqual(['yesterday', 'old-early']);
+  });
+
+  it('keeps everything recent without a limit', () => {
+    const { prune } = planPrune(versions, { enabled: true, keepLast: null, dailyAfterDays: null }, now);
+
+    expect(prune).toEqual([]);
+  });
+
+  it('never prunes the newest version, even when asked to keep none', () => {
+    const { keep } = planPrune(versions, { enabled: true, keepLast: 0, dailyAfterDays: null }, now);
+
+    expect(ids(keep)).toEqual(['today-2', 'old-named']);
+  });
+});
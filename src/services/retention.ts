@@ -0,0 +1,81 @@
+/**
+ * Version Retention
+ * Decides which versions of a document a retention policy would prune
+ */
+
+import type { Version } from '../types/editor';
+import { RETENTION_CONFIG } from '../config/features';
+
+export interface RetentionPolicy {
+  enabled: boolean;               // apply automatically when a version is saved
+  keepLast: number | null;        // newest N versions are kept (at least 1); null keeps all recent versions
+  dailyAfterDays: number | null;  // versions older than this keep one per day; null disables thinning
+}
+
+export interface PrunePlan {
+  keep: Version[];
+  prune: Version[];
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  enabled: RETENTION_CONFIG.ENABLED,
+  keepLast: RETENTION_CONFIG.KEEP_LAST,
+  dailyAfterDays: RETENTION_CONFIG.DAILY_AFTER_DAYS,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Named, pinned and labelled versions are never pruned
+ */
+export function isProtectedVersion(version: Version): boolean {
+  return Boolean(version.pinned || version.name || version.labels?.length);
+}
+
+/**
+ * Split versions into those a policy keeps and those it prunes.
+ * - Versions within `dailyAfterDays` are kept if they are among the newest `keepLast`;
+ *   the newest is always among them, so pruning on save never removes the version just saved.
+ * - Older versions are thinned to the newest version of each calendar day.
+ * - Protected versions are always kept.
+ * Input order is preserved in both lists.
+ */
+export function planPrune(versions: Version[], policy: RetentionPolicy, now: Date = new Date()): PrunePlan {
+  const newestFirst = [...versions].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+  const rank = new Map(newestFirst.map((version, index) => [version.id, index]));
+  const dailyKeepers = new Set<string>();
+  const seenDays = new Set<string>();
+  const cutoff = policy.dailyAfterDays === null ? null : now.getTime() - policy.dailyAfterDays * DAY_MS;
+  const keepLast = policy.keepLast === null ? null : Math.max(1, policy.keepLast);
+
+  if (cutoff !== null) {
+    for (const version of newestFirst) {
+      const created = new Date(version.createdAt);
+      if (created.getTime() >= cutoff) continue;
+      const day = created.toDateString();
+      if (!seenDays.has(day)) {
+        seenDays.add(day);
+        dailyKeepers.add(version.id);
+      }
+    }
+  }
+
+  const keep: Version[] = [];
+  const prune: Version[] = [];
+
+  for (const version of versions) {
+    const created = new Date(version.createdAt).getTime();
+    const isOld = cutoff !== null && created < cutoff;
+    const isRecentKeeper = !isOld && (keepLast === null || (rank.get(version.id) ?? 0) < keepLast);
+
+    if (isProtectedVersion(version) || isRecentKeeper || dailyKeepers.has(version.id)) {
+      keep.push(version);
+    } else {
+      prune.push(version);
+    }
+  }
+
+  return { keep, prune };
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { SearchIndex, buildSnippet, parseSearchQuery } from './searchIndex';
+import { VersionStorageService } from './storage';
+import { MemoryBackend } from './backends';
+import type { DocumentState, Version } from '../types/editor';
+
+const version = (id: string, content: string, createdAt: string, extra: Partial<Version> = {}): Version => ({
+  id,
+  createdAt,
+  content,
+  summary: content,
+  ...extra,
+});
+
+const documentState = (id: string, content: string, versions: Version[] = [], extra: Partial<DocumentState> = {}): DocumentState => ({
+  id,
+  content,
+  versions,
+  updatedAt: '2024-06-10T12:00:00.000Z',
+  ...extra,
+});
+
+const search = (index: SearchIndex, query: string) => index.search(parseSearchQuery(query)).map(hit => hit.id);
+
+describe('parseSearchQuery', () => {
+  it('reads terms, phrases, prefixes and filters', () => {
+    const query = parseSearchQuery('"system prompt" tone* gpt-4 type:versions after:2024-06-01 before:2024-07-01');
+
+    expect(query.clauses).toEqual([
+      { kind: 'phrase', terms: ['system', 'prompt'] },
+      { kind: 'prefix', prefix: 'tone' },
+      { kind: 'phrase', terms: ['gpt', '4'] },
+    ]);
+    expect(query.type).toBe('version');
+    expect(query.after?.getDate()).toBe(1);
+    expect(query.before?.getMonth()).toBe(6);
+    expect(query.errors).toEqual([]);
+  });
+
+  it('ignores filters it cannot read and says why', () => {
+    const query = parseSearchQuery('tone type:folder before:June');
+
+    expect(query.clauses).toEqual([{ kind: 'term', term: 'tone' }]);
+    expect(query.type).toBeNull();
+    expect(query.before).toBeNull();
+    expect(query.errors).toEqual([
+      'Unknown type "folder" (use type:document or type:version)',
+      'Invalid date "June" (use YYYY-MM-DD)',
+    ]);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('ranks entries by how well they match, boosting names and notes', () => {
+    const index = new SearchIndex();
+    index.indexDocument(documentState('doc_a', 'Be kind. Be kind to everyone, kind always.'), 1);
+    index.indexDocument(documentState('doc_b', 'Be kind once, in a long prompt about many other things entirely.'), 1);
+    index.indexDocument(documentState('doc_c', 'Nothing here', [
+      version('ver_named', 'Unrelated text', '2024-06-01T12:00:00.000Z', { name: 'Kind tone' }),
+    ]), 1);
+
+    expect(search(index, 'kind')).toEqual(['ver_named', 'doc_a', 'doc_b']);
+    expect(search(index, 'kind nothing')).toEqual([]);
+    expect(search(index, '"kind to everyone"')).toEqual(['doc_a']);
+    expect(search(index, 'unrel*')).toEqual(['ver_named']);
+  });
+
+  it('filters by type and date', () => {
+    const index = new SearchIndex();
+    index.indexDocument(documentState('doc_a', 'tone', [
+      version('ver_may', 'tone', '2024-05-15T12:00:00.000Z'),
+      version('ver_june', 'tone', '2024-06-05T12:00:00.000Z'),
+    ]), 1);
+
+    expect(search(index, 'tone type:document')).toEqual(['doc_a']);
+    expect(search(index, 'tone type:version').sort()).toEqual(['ver_june', 'ver_may']);
+    expect(search(index, 'tone type:version after:2024-06-01')).toEqual(['ver_june']);
+    expect(search(index, 'tone before:2024-06-01')).toEqual(['ver_may']);
+  });
+
+  it('labels documents by name, falling back to their ID', () => {
+    const index = new SearchIndex();
+    index.indexDocument(documentState('doc_named', 'tone', [], { name: 'support-bot' }), 1);
+    index.indexDocument(documentState('doc_0123456789', 'tone'), 1);
+
+    const labels = index.search(parseSearchQuery('tone')).map(hit => hit.label).sort();
+    expect(labels).toEqual(['Document 23456789', 'support-bot']);
+  });
+
+  it('updates a document in place and forgets removed versions and documents', () => {
+    const index = new SearchIndex();
+    const kept = version('ver_kept', 'kept text', '2024-06-01T12:00:00.000Z');
+    index.indexDocument(documentState('doc_a', 'first draft', [
+      kept,
+      version('ver_dropped', 'dropped text', '2024-05-01T12:00:00.000Z'),
+    ]), 1);
+    index.indexDocument(documentState('doc_b', 'other draft'), 1);
+
+    index.indexDocument(documentState('doc_a', 'second draft', [kept]), 2);
+
+    expect(index.getIndexedRevision('doc_a')).toBe(2);
+    expect(search(index, 'first')).toEqual([]);
+    expect(search(index, 'second')).toEqual(['doc_a']);
+    expect(search(index, 'dropped')).toEqual([]);
+    expect(search(index, 'kept')).toEqual(['ver_kept']);
+
+    index.removeDocument('doc_a');
+
+    expect(index.getIndexedDocumentIds()).toEqual(['doc_b']);
+    expect(search(index, 'draft')).toEqual(['doc_b']);
+  });
+
+  it('reads back what it saved', () => {
+    const index = new SearchIndex();
+    index.indexDocument(documentState('doc_a', 'saved tone', [version('ver_a', 'saved', '2024-06-01T12:00:00.000Z')]), 3);
+
+    const restored = SearchIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+
+    expect(restored.getIndexedRevision('doc_a')).toBe(3);
+    expect(search(restored, 'saved')).toEqual(search(index, 'saved'));
+    expect(SearchIndex.fromJSON({ ...index.toJSON(), format: 99 }).getIndexedDocumentIds()).toEqual([]);
+  });
+});
+
+describe('searching storage', () => {
+  it('brings a loaded index up to date with documents saved or deleted since it was stored', async () => {
+    const backend = new MemoryBackend();
+    const writer = new VersionStorageService(backend);
+    const revision = await writer.saveDocument(documentState('doc_a', 'alpha'));
+    await writer.saveDocument(documentState('doc_gone', 'alpha'));
+
+    // The index as another session stored it, before doc_a changed and doc_gone was deleted
+    const stale = new SearchIndex();
+    stale.indexDocument(documentState('doc_a', 'alpha'), revision);
+    stale.indexDocument(documentState('doc_gone', 'alpha'), 1);
+    await writer.saveDocument({ ...documentState('doc_a', 'beta'), revision });
+    await writer.deleteDocument('doc_gone');
+    await backend.setItem('search-index', stale.toJSON());
+
+    const reader = new VersionStorageService(backend);
+
+    expect((await reader.search('alpha')).results).toEqual([]);
+    expect((await reader.search('beta')).results.map(result => result.id)).toEqual(['doc_a']);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('cuts a window around the first match and marks the matched terms', () => {
+    const content = `${'filler '.repeat(40)}the kind tone\nstays kind`;
+
+    const snippet = buildSnippet(content, ['kind'], 40);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text).not.toContain('\n');
+    expect(snippet.highlights.map(([start, end]) => snippet.text.slice(start, end))).toEqual(['kind', 'kind']);
+  });
+});
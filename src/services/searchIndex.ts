@@ -0,0 +1,392 @@
+/**
+ * Search Index
+ * Inverted index over document and version text with BM25 ranking, phrase and
+ * prefix queries, type/date filters and highlighted snippets. The index is
+ * plain data so the storage service can persist it between sessions.
+ */
+
+import type { DocumentState } from '../types/editor';
+import { SEARCH_CONFIG } from '../config/features';
+import { getDocumentLabel, getVersionLabel } from '../utils/versions';
+
+export type SearchEntryType = 'document' | 'version';
+
+interface IndexedEntry {
+  id: string;
+  type: SearchEntryType;
+  documentId: string;
+  label: string;
+  date: string; // updatedAt for documents, createdAt for versions
+  length: number; // number of indexed tokens
+}
+
+/**
+ * Postings list positions of a term per entry. Name tokens (a version's name
+ * and note) are stored after NAME_OFFSET so phrases never run from the content into the name.
+ */
+type Postings = Map<string, number[]>;
+
+export interface SerializedSearchIndex {
+  format: number;
+  documents: Record<string, { revision: number; entryIds: string[] }>;
+  entries: Record<string, IndexedEntry>;
+  postings: Record<string, Record<string, number[]>>;
+}
+
+type QueryClause =
+  | { kind: 'term'; term: string }
+  | { kind: 'prefix'; prefix: string }
+  | { kind: 'phrase'; terms: string[] };
+
+export interface SearchQuery {
+  clauses: QueryClause[];
+  type: SearchEntryType | null;
+  before: Date | null; // only entries dated earlier than this
+  after: Date | null;  // only entries dated on or after this
+  errors: string[];
+}
+
+export interface SearchHit {
+  id: string;
+  type: SearchEntryType;
+  documentId: string;
+  label: string;
+  date: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>; // [start, end) offsets into text
+}
+
+const INDEX_FORMAT = 1;
+const NAME_OFFSET = 1_000_000;
+const NAME_BOOST = 3;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Split text into lowercase word tokens with their character offsets
+ */
+export function tokenize(text: string): Array<{ term: string; start: number; end: number }> {
+  return [...text.matchAll(TOKEN_PATTERN)].map(match => ({
+    term: match[0].toLowerCase(),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Parse a query such as `"system prompt" tone* type:version after:2026-01-01`.
+ * Problems (unknown filter values, bad dates) are collected in `errors`
+ * and the offending part is ignored.
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = { clauses: [], type: null, before: null, after: null, errors: [] };
+  const parts = query.match(/"[^"]*"?|\S+/g) ?? [];
+
+  for (const part of parts) {
+    if (part.startsWith('"')) {
+      const terms = tokenize(part.replace(/"/g, '')).map(t => t.term);
+      if (terms.length === 1) parsed.clauses.push({ kind: 'term', term: terms[0] });
+      else if (terms.length > 1) parsed.clauses.push({ kind: 'phrase', terms });
+      continue;
+    }
+
+    const filter = part.match(/^(type|before|after):(.*)$/i);
+    if (filter) {
+      const [, name, value] = filter;
+      const key = name.toLowerCase();
+      if (key === 'type') {
+        const type = value.toLowerCase().replace(/s$/, '');
+        if (type === 'document' || type === 'version') parsed.type = type;
+        else parsed.errors.push(`Unknown type "${value}" (use type:document or type:version)`);
+      } else {
+        const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : null;
+        if (!date || isNaN(date.getTime())) parsed.errors.push(`Invalid date "${value}" (use YYYY-MM-DD)`);
+        else if (key === 'before') parsed.before = date;
+        else parsed.after = date;
+      }
+      continue;
+    }
+
+    const isPrefix = part.endsWith('*');
+    const terms = tokenize(part).map(t => t.term);
+    if (isPrefix && terms.length === 1) {
+      parsed.clauses.push({ kind: 'prefix', prefix: terms[0] });
+    } else if (terms.length === 1) {
+      parsed.clauses.push({ kind: 'term', term: terms[0] });
+    } else if (terms.length > 1) {
+      // Tokens joined by punctuation, e.g. "gpt-4", must appear together
+      parsed.clauses.push({ kind: 'phrase', terms });
+    }
+  }
+
+  return parsed;
+}
+
+export class SearchIndex {
+  private documents = new Map<string, { revision: number; entryIds: string[] }>();
+  private entries = new Map<string, IndexedEntry>();
+  private postings = new Map<string, Postings>();
+
+  /**
+   * Restore an index saved with toJSON(); returns an empty index for unknown formats
+   */
+  static fromJSON(data: SerializedSearchIndex | null): SearchIndex {
+    const index = new SearchIndex();
+    if (!data || data.format !== INDEX_FORMAT) {
+      return index;
+    }
+
+    index.documents = new Map(Object.entries(data.documents));
+    index.entries = new Map(Object.entries(data.entries));
+    for (const [term, postings] of Object.entries(data.postings)) {
+      index.postings.set(term, new Map(Object.entries(postings)));
+    }
+    return index;
+  }
+
+  toJSON(): SerializedSearchIndex {
+    const postings: SerializedSearchIndex['postings'] = {};
+    this.postings.forEach((entries, term) => {
+      postings[term] = Object.fromEntries(entries);
+    });
+    return {
+      format: INDEX_FORMAT,
+      documents: Object.fromEntries(this.documents),
+      entries: Object.fromEntries(this.entries),
+      postings,
+    };
+  }
+
+  /**
+   * Revision of a document as last indexed, or null if it is not indexed
+   */
+  getIndexedRevision(documentId: string): number | null {
+    return this.documents.get(documentId)?.revision ?? null;
+  }
+
+  getIndexedDocumentIds(): string[] {
+    return [...this.documents.keys()];
+  }
+
+  /**
+   * (Re)index a document's current content and its versions. Version content
+   * never changes, so versions already indexed with the same label are kept.
+   */
+  indexDocument(document: DocumentState, revision: number): void {
+    const unchanged = new Set(document.versions
+      .filter(version => {
+        const entry = this.entries.get(version.id);
+        return entry?.documentId === document.id && entry.label === getVersionLabel(version);
+      })
+      .map(version => version.id));
+    const previousIds = this.documents.get(document.id)?.entryIds ?? [];
+    this.removeEntries(previousIds.filter(id => !unchanged.has(id)));
+
+    this.addEntry(
+      { id: document.id, type: 'document', documentId: document.id, label: getDocumentLabel(document), date: document.updatedAt },
+      document.content,
+      ''
+    );
+    for (const version of document.versions) {
+      if (unchanged.has(version.id)) continue;
+      this.addEntry(
+        { id: version.id, type: 'version', documentId: document.id, label: getVersionLabel(version), date: version.createdAt },
+        version.content,
+        [version.name, version.note ?? version.suggestedNote].filter(Boolean).join('\n')
+      );
+    }
+
+    this.documents.set(document.id, {
+      revision,
+      entryIds: [document.id, ...document.versions.map(v => v.id)],
+    });
+  }
+
+  removeDocument(documentId: string): void {
+    const indexed = this.documents.get(documentId);
+    if (!indexed) return;
+
+    this.removeEntries(indexed.entryIds);
+    this.documents.delete(documentId);
+  }
+
+  /**
+   * Find entries matching every clause and filter, best first
+   */
+  search(query: SearchQuery, limit: number = SEARCH_CONFIG.MAX_RESULTS): SearchHit[] {
+    let candidates = [...this.entries.values()].filter(entry => {
+      if (query.type && entry.type !== query.type) return false;
+      const time = new Date(entry.date).getTime();
+      if (query.before && !(time < query.before.getTime())) return false;
+      if (query.after && !(time >= query.after.getTime())) return false;
+      return true;
+    });
+
+    const scores = new Map<string, number>();
+    const matched = new Map<string, Set<string>>();
+    const averageLength = candidates.reduce((sum, e) => sum + e.length, 0) / (candidates.length || 1);
+
+    for (const clause of query.clauses) {
+      const clauseScores = this.scoreClause(clause, averageLength);
+      candidates = candidates.filter(entry => clauseScores.has(entry.id));
+      clauseScores.forEach(({ score, terms }, id) => {
+        scores.set(id, (scores.get(id) ?? 0) + score);
+        const entryTerms = matched.get(id) ?? new Set<string>();
+        terms.forEach(term => entryTerms.add(term));
+        matched.set(id, entryTerms);
+      });
+    }
+
+    return candidates
+      .map(entry => ({
+        id: entry.id,
+        type: entry.type,
+        documentId: entry.documentId,
+        label: entry.label,
+        date: entry.date,
+        score: scores.get(entry.id) ?? 0,
+        matchedTerms: [...(matched.get(entry.id) ?? [])],
+      }))
+      .sort((a, b) => b.score - a.score || new Date(b.date).getTime() - new Date(a.date).getTime())
+      .slice(0, limit);
+  }
+
+  private removeEntries(ids: string[]): void {
+    if (ids.length === 0) return;
+
+    ids.forEach(id => this.entries.delete(id));
+    this.postings.forEach((postings, term) => {
+      ids.forEach(id => postings.delete(id));
+      if (postings.size === 0) this.postings.delete(term);
+    });
+  }
+
+  private addEntry(entry: Omit<IndexedEntry, 'length'>, content: string, name: string): void {
+    const contentTokens = tokenize(content);
+    const nameTokens = tokenize(name);
+    this.entries.set(entry.id, { ...entry, length: contentTokens.length + nameTokens.length });
+
+    const add = (term: string, position: number) => {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(term, postings);
+      }
+      const positions = postings.get(entry.id);
+      if (positions) positions.push(position);
+      else postings.set(entry.id, [position]);
+    };
+    contentTokens.forEach((token, i) => add(token.term, i));
+    nameTokens.forEach((token, i) => add(token.term, NAME_OFFSET + i));
+  }
+
+  /**
+   * BM25 score per matching entry for one clause, with the index terms it matched
+   */
+  private scoreClause(clause: QueryClause, averageLength: number): Map<string, { score: number; terms: string[] }> {
+    const result = new Map<string, { score: number; terms: string[] }>();
+    const add = (id: string, score: number, terms: string[]) => {
+      const existing = result.get(id);
+      result.set(id, existing
+        ? { score: existing.score + score, terms: [...existing.terms, ...terms] }
+        : { score, terms });
+    };
+
+    if (clause.kind === 'term') {
+      this.scoreTerm(clause.term, averageLength).forEach((score, id) => add(id, score, [clause.term]));
+    } else if (clause.kind === 'prefix') {
+      for (const term of this.postings.keys()) {
+        if (term.startsWith(clause.prefix)) {
+          this.scoreTerm(term, averageLength).forEach((score, id) => add(id, score, [term]));
+        }
+      }
+    } else {
+      const frequencies = this.phraseFrequencies(clause.terms);
+      frequencies.forEach((frequency, id) => {
+        const score = clause.terms.reduce(
+          (sum, term) => sum + this.bm25(frequency, this.postings.get(term)?.size ?? 0, id, averageLength),
+          0
+        );
+        add(id, score, clause.terms);
+      });
+    }
+
+    return result;
+  }
+
+  private scoreTerm(term: string, averageLength: number): Map<string, number> {
+    const scores = new Map<string, number>();
+    const postings = this.postings.get(term);
+    if (!postings) return scores;
+
+    postings.forEach((positions, id) => {
+      const nameHits = positions.filter(p => p >= NAME_OFFSET).length;
+      const frequency = positions.length - nameHits + NAME_BOOST * nameHits;
+      scores.set(id, this.bm25(frequency, postings.size, id, averageLength));
+    });
+    return scores;
+  }
+
+  /**
+   * Count the occurrences of consecutive terms per entry
+   */
+  private phraseFrequencies(terms: string[]): Map<string, number> {
+    const frequencies = new Map<string, number>();
+    const lists = terms.map(term => this.postings.get(term));
+    if (lists.some(list => !list)) return frequencies;
+
+    const [first, ...rest] = lists as Postings[];
+    first.forEach((positions, id) => {
+      const following = rest.map(list => new Set(list.get(id) ?? []));
+      const count = positions.filter(p => following.every((set, i) => set.has(p + i + 1))).length;
+      if (count > 0) frequencies.set(id, count);
+    });
+    return frequencies;
+  }
+
+  private bm25(frequency: number, documentFrequency: number, id: string, averageLength: number): number {
+    const total = this.entries.size;
+    const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    const length = this.entries.get(id)?.length ?? 0;
+    const norm = frequency + K1 * (1 - B + B * (length / (averageLength || 1)));
+    return idf * (frequency * (K1 + 1)) / norm;
+  }
+}
+
+/**
+ * Cut a window of text around the first match and mark every matched term in it
+ */
+export function buildSnippet(content: string, matchedTerms: string[], length: number = SEARCH_CONFIG.SNIPPET_LENGTH): SearchSnippet {
+  const wanted = new Set(matchedTerms);
+  const tokens = tokenize(content);
+  const firstMatch = tokens.find(token => wanted.has(token.term));
+
+  let start = 0;
+  if (firstMatch && firstMatch.start > length / 3) {
+    start = firstMatch.start - Math.floor(length / 3);
+    // Start at a word boundary
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < firstMatch.start) start = space + 1;
+  }
+  const end = Math.min(content.length, start + length);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const highlights: Array<[number, number]> = tokens
+    .filter(token => wanted.has(token.term) && token.start >= start && token.end <= end)
+    .map(token => [token.start - start + prefix.length, token.end - start + prefix.length]);
+
+  return {
+    // Replace each whitespace character on its own so highlight offsets stay valid
+    text: `${prefix}${content.slice(start, end).replace(/\s/g, ' ')}${suffix}`,
+    highlights,
+  };
+}
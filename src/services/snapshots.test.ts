@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { excessSnapshots, measureEditDistance } from './snapshots';
+import type { Version } from '../types/editor';
+
+const version = (id: string, hour: number, extra: Partial<Version> = {}): Version => ({
+  id,
+  createdAt: `2024-06-10T${String(hour).padStart(2, '0')}:00:00.000Z`,
+  content: id,
+  summary: id,
+  auto: true,
+  ...extra,
+});
+
+describe('measureEditDistance', () => {
+  it('is zero for unchanged text', () => {
+    expect(measureEditDistance('Be brief.\n', 'Be brief.\n')).toBe(0);
+  });
+
+  it('counts inserted and deleted characters', () => {
+    expect(measureEditDistance('Be brief.', 'Be very brief.')).toBe('very '.length);
+    expect(measureEditDistance('Be very brief.', 'Be brief.')).toBe('very '.length);
+    expect(measureEditDistance('', 'x'.repeat(600))).toBeGreaterThanOrEqual(500);
+  });
+
+  it('counts a replaced word on both sides', () => {
+    expect(measureEditDistance('Use lists.', 'Use tables.')).toBe('lists'.length + 'tables'.length);
+  });
+});
+
+describe('excessSnapshots', () => {
+  it('picks the oldest snapshots beyond the limit, ignoring saved versions', () => {
+    const versions = [
+      version('snap-4', 4),
+      version('saved', 3, { auto: undefined }),
+      version('snap-3', 3),
+      version('snap-2', 2),
+      version('snap-1', 1),
+    ];
+
+    expect(excessSnapshots(versions, 2).map(v => v.id)).toEqual(['snap-2', 'snap-1']);
+    expect(excessSnapshots(versions, 10)).toEqual([]);
+  });
+
+  it('keeps named, pinned and labelled snapshots and the newest one', () => {
+    const versions = [
+      version('snap-4', 4),
+      version('named', 3, { name: 'Draft' }),
+      version('pinned', 2, { pinned: true }),
+      version('labelled', 1, { labels: ['staging'] }),
+      version('snap-0', 0),
+    ];
+
+    expect(excessSnapshots(versions, 0).map(v => v.id)).toEqual(['snap-0']);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Automatic Snapshots
+ * When to save a version without the user asking for one
+ */
+
+import type { Version } from '../types/editor';
+import { AUTO_SNAPSHOT_CONFIG } from '../config/features';
+import { diffSequences, splitWords } from '../utils/diff';
+import { isProtectedVersion } from './retention';
+
+export interface SnapshotPolicy {
+  enabled: boolean;
+  idleSeconds: number | null;     // snapshot after typing pauses this long; null disables
+  intervalMinutes: number | null; // snapshot when edits have gone unsaved this long; null disables
+  editDistance: number | null;    // snapshot once this many characters changed; null disables
+}
+
+export const DEFAULT_SNAPSHOT_POLICY: SnapshotPolicy = {
+  enabled: AUTO_SNAPSHOT_CONFIG.ENABLED,
+  idleSeconds: AUTO_SNAPSHOT_CONFIG.IDLE_SECONDS,
+  intervalMinutes: AUTO_SNAPSHOT_CONFIG.INTERVAL_MINUTES,
+  editDistance: AUTO_SNAPSHOT_CONFIG.EDIT_DISTANCE,
+};
+
+/**
+ * Approximate number of characters inserted or deleted between two texts,
+ * measured over words so it stays cheap on long prompts
+ */
+export function measureEditDistance(before: string, after: string): number {
+  let distance = 0;
+  for (const op of diffSequences(splitWords(before), splitWords(after))) {
+    if (op.type !== 'equal') {
+      distance += op.items.reduce((sum, item) => sum + item.length, 0);
+    }
+  }
+  return distance;
+}
+
+/**
+ * Automatic snapshots beyond the newest `limit`, which are removed when a snapshot
+ * is taken while automatic pruning is off, so they cannot pile up without bound.
+ * Snapshots that were named, pinned or labelled are kept like saved versions.
+ */
+export function excessSnapshots(versions: Version[], limit: number = AUTO_SNAPSHOT_CONFIG.MAX_KEPT): Version[] {
+  const snapshots = versions
+    .filter(version => version.auto && !isProtectedVersion(version))
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  return snapshots.slice(Math.max(1, limit));
+}
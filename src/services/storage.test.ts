@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DocumentNameError, StorageConflictError, VersionStorageService } from './storage';
+import { MemoryBackend } from './backends';
+import type { DocumentState, Version } from '../types/editor';
+
+const version = (id: string, content: string): Version => ({
+  id,
+  createdAt: new Date().toISOString(),
+  content,
+  summary: `Saved ${id}`,
+});
+
+const documentState = (id: string, content: string, versions: Version[] = []): DocumentState => ({
+  id,
+  content,
+  versions,
+  updatedAt: new Date().toISOString(),
+});
+
+describe('VersionStorageService', () => {
+  let backend: MemoryBackend;
+  let storage: VersionStorageService;
+
+  beforeEach(() => {
+    backend = new MemoryBackend();
+    storage = new VersionStorageService(backend);
+  });
+
+  describe('document isolation', () => {
+    it('never changes another document when saving one', async () => {
+      await storage.saveDocument(documentState('a', 'A1', [version('a1', 'A1')]));
+      await storage.saveDocument(documentState('b', 'B1', [version('b1', 'B1')]));
+      const before = await backend.getItem('document:b');
+
+      const a = (await storage.loadDocument('a'))!;
+      await storage.saveDocument({ ...a, content: 'A2', versions: [version('a2', 'A2'), ...a.versions] });
+
+      expect(await backend.getItem('document:b')).toEqual(before);
+      const b = await storage.loadDocument('b');
+      expect(b?.content).toBe('B1');
+      expect(b?.versions.map(v => v.id)).toEqual(['b1']);
+    });
+
+    it('keeps other documents when one is deleted', async () => {
+      await storage.saveDocument(documentState('a', 'A', [version('a1', 'A')]));
+      await storage.saveDocument(documentState('b', 'B', [version('b1', 'B')]));
+
+      await storage.deleteDocument('a');
+
+      expect(await storage.loadDocument('a')).toBeNull();
+      expect((await storage.loadDocument('b'))?.versions.map(v => v.content)).toEqual(['B']);
+    });
+  });
+
+  describe('conflicts', () => {
+    it('rejects a save based on an older revision', async () => {
+      await storage.saveDocument(documentState('a', 'one'));
+      const first = (await storage.loadDocument('a'))!;
+      const second = (await storage.loadDocument('a'))!;
+
+      await storage.saveDocument({ ...first, content: 'two' });
+
+      await expect(storage.saveDocument({ ...second, content: 'three' })).rejects.toBeInstanceOf(StorageConflictError);
+      expect((await storage.loadDocument('a'))?.content).toBe('two');
+    });
+
+    it('accepts consecutive saves that carry the returned revision', async () => {
+      const revision = await storage.saveDocument(documentState('a', 'one'));
+      const next = await storage.saveDocument({ ...documentState('a', 'two'), revision });
+
+      expect(next).toBe(revision + 1);
+    });
+  });
+
+  describe('deleting versions', () => {
+    it('moves a version to the trash and restores it', async () => {
+      await storage.saveDocument(documentState('a', 'A2', [version('a2', 'A2'), version('a1', 'A1')]));
+
+      await storage.deleteVersion('a', 'a1');
+
+      expect((await storage.loadDocument('a'))?.versions.map(v => v.id)).toEqual(['a2']);
+      const [item] = await storage.listTrash();
+      expect(item).toMatchObject({ kind: 'version', documentId: 'a', versionCount: 1 });
+
+      expect(await storage.restoreFromTrash(item.id)).toBe('a');
+      expect((await storage.loadDocument('a'))?.versions.map(v => v.content)).toEqual(['A2', 'A1']);
+      expect(await storage.listTrash()).toEqual([]);
+    });
+
+    it('accepts a save queued behind a delete once it carries the delete\'s revision', async () => {
+      const revision = await storage.saveDocument(documentState('a', 'A2', [version('a2', 'A2'), version('a1', 'A1')]));
+
+      const deleted = await storage.deleteVersion('a', 'a1', revision);
+      await expect(
+        storage.saveDocument({ ...documentState('a', 'A3', [version('a2', 'A2')]), revision })
+      ).rejects.toBeInstanceOf(StorageConflictError);
+      await storage.saveDocument({ ...documentState('a', 'A3', [version('a2', 'A2')]), revision: deleted! });
+
+      expect((await storage.loadDocument('a'))?.content).toBe('A3');
+      expect(await storage.listTrash()).toHaveLength(1);
+    });
+
+    it('rejects a delete based on an older revision without trashing anything', async () => {
+      const revision = await storage.saveDocument(documentState('a', 'A1', [version('a1', 'A1')]));
+      await storage.saveDocument({ ...documentState('a', 'A2', [version('a1', 'A1')]), revision });
+
+      await expect(storage.deleteVersion('a', 'a1', revision)).rejects.toBeInstanceOf(StorageConflictError);
+
+      expect((await storage.loadDocument('a'))?.versions.map(v => v.id)).toEqual(['a1']);
+      expect(await storage.listTrash()).toEqual([]);
+    });
+  });
+
+  describe('change listeners', () => {
+    it('are told which document was saved or deleted', async () => {
+      const changed: (string | null)[] = [];
+      const unsubscribe = storage.subscribeDocuments(documentId => changed.push(documentId));
+
+      await storage.saveDocument(documentState('a', 'A'));
+      await storage.deleteDocument('a');
+      await storage.clearAll();
+      unsubscribe();
+      await storage.saveDocument(documentState('b', 'B'));
+
+      expect(changed).toEqual(['a', 'a', null]);
+    });
+  });
+
+  describe('document names', () => {
+    it('leaves storage untouched when the name is taken', async () => {
+      await storage.saveDocument({ ...documentState('a', 'A'), name: 'intro' });
+      await storage.saveDocument(documentState('b', 'B', [version('b1', 'B')]));
+      const b = (await storage.loadDocument('b'))!;
+      const keys = await backend.keys();
+
+      await expect(
+        storage.saveDocument({ ...b, name: 'intro', content: 'B2', versions: [version('b2', 'B2'), ...b.versions] })
+      ).rejects.toBeInstanceOf(DocumentNameError);
+
+      expect(await backend.keys()).toEqual(keys);
+      expect((await storage.loadDocument('b'))?.content).toBe('B');
+    });
+  });
+});
@@ -1,30 +1,257 @@
-import localforage from 'localforage';
-import type { DocumentState } from '../types/editor';
-import { isVersionEnabled } from '../config/features';
+import type { DocumentState, LabelChange, VariableDefinition, VariableSet, Version } from '../types/editor';
+import { isVersionEnabled, SEARCH_CONFIG, TRASH_CONFIG } from '../config/features';
+import { CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY, MIGRATION_BACKUP_KEY, runMigrations } from './migrations';
+import { DEFAULT_RETENTION_POLICY, planPrune } from './retention';
+import type { RetentionPolicy } from './retention';
+import { DEFAULT_SNAPSHOT_POLICY } from './snapshots';
+import type { SnapshotPolicy } from './snapshots';
+import { isUndoHistory } from './undoHistory';
+import type { UndoHistory } from './undoHistory';
+import { encodeContent, decodeContent } from './versionEncoding';
+import { tabSync } from './tabSync';
+import { StoreLockedError } from './encryption';
+import { SearchIndex, buildSnippet, parseSearchQuery } from './searchIndex';
+import { QUARANTINE_PREFIX, checkIntegrity, repairIssue } from './integrity';
+import type { IntegrityIssue, IntegrityReport, QuarantinedRecord, RepairAction } from './integrity';
+import type { SearchEntryType, SearchHit, SearchSnippet, SerializedSearchIndex } from './searchIndex';
+import { createStorageBackend, EncryptedBackend, MemoryBackend } from './backends';
+import type { StorageBackend } from './backends';
+import type { EncodedContent, VersionDelta } from './versionEncoding';
+import { findPartialReferences } from './template';
+import type { PartialReference } from './template';
+import { generateDocumentId, generateTrashId, generateVersionId } from '../utils/ids';
+import { getDocumentLabel, getVersionLabel, moveLabel, removeVersions, renameDocumentVersions, renameVersions, updateVersion } from '../utils/versions';
 
 /**
- * LocalForage Storage Service for Version Management
- * Provides unified storage API with automatic fallback (IndexedDB -> WebSQL -> localStorage)
+ * Storage layout
+ * - `document-index`: list of every stored document with summary metadata, including
+ *   the name it can be included by as a partial (names are unique and stay readable)
+ * - `document:<id>`: current content of a document and its ordered version IDs
+ * - `version:<id>`: a single version, tagged with its document ID; its content is
+ *   either a full snapshot or a delta against an older version of the same document
+ * - `retention-policy` / `retention-policy:<id>`: global and per-document retention policies
+ * - `snapshot-policy`: when automatic snapshots are taken
+ * - `undo:<id>`: a document's undo history, kept across reloads
+ * - `trash:<id>`: a deleted document (with its versions) or version, until restored or purged
+ * - `search-index`: full-text index over documents and versions; not kept while encryption is on
+ * - `quarantine:<key>`: a damaged record moved aside by an integrity repair, under its original key
+ * - `encryption-meta`: present when encryption at rest is on; document and version
+ *   content, variable values and defaults, version names, notes, summaries, tags and
+ *   labels are then sealed, while IDs, dates and version lists stay readable
+ * - `encryption-rekey`: present while a passphrase change is unfinished
+ */
+const INDEX_KEY = 'document-index';
+const documentKey = (documentId: string) => `document:${documentId}`;
+const versionKey = (versionId: string) => `version:${versionId}`;
+const GLOBAL_POLICY_KEY = 'retention-policy';
+const policyKey = (documentId: string) => `retention-policy:${documentId}`;
+const SNAPSHOT_POLICY_KEY = 'snapshot-policy';
+const UNDO_PREFIX = 'undo:';
+const undoKey = (documentId: string) => `${UNDO_PREFIX}${documentId}`;
+const TRASH_PREFIX = 'trash:';
+const trashKey = (entryId: string) => `${TRASH_PREFIX}${entryId}`;
+const SEARCH_INDEX_KEY = 'search-index';
+
+// Fields encrypted when encryption at rest is on
+const sealedFields = (key: string): readonly string[] => {
+  if (key.startsWith('document:')) return ['content', 'variableSets', 'variableSchema', 'labelHistory'];
+  if (key.startsWith('version:')) return ['content', 'delta', 'name', 'note', 'suggestedNote', 'summary', 'tags', 'labels'];
+  if (key.startsWith(TRASH_PREFIX)) return ['document', 'version', 'label'];
+  if (key.startsWith(UNDO_PREFIX)) return ['entries'];
+  if (key.startsWith(QUARANTINE_PREFIX)) return ['value'];
+  return [];
+};
+
+export interface DocumentUsage {
+  documentId: string;
+  documentBytes: number;
+  versionBytes: Record<string, number>;
+}
+
+export interface DocumentIndexEntry {
+  id: string;
+  updatedAt: string;
+  versionCount: number;
+  revision?: number; // missing on entries written before revisions were tracked here
+  name?: string;
+}
+
+export interface SearchResult extends SearchHit {
+  snippet: SearchSnippet;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  errors: string[]; // parts of the query that were ignored, and why
+}
+
+export interface SearchOptions {
+  type?: SearchEntryType; // restrict results unless the query has its own type: filter
+  limit?: number;
+}
+
+interface StoredDocument {
+  id: string;
+  name?: string;
+  content: string;
+  versionIds: string[]; // newest-first
+  updatedAt: string;
+  revision?: number; // incremented on every save
+  baseVersionId?: string;
+  labelHistory?: LabelChange[];
+  variableSets?: VariableSet[];
+  activeVariableSetId?: string;
+  variableSchema?: VariableDefinition[];
+}
+
+/**
+ * Summary of a trashed document or version, readable without its content
+ */
+export interface TrashItem {
+  id: string;
+  kind: 'document' | 'version';
+  documentId: string;
+  label: string;
+  deletedAt: string;
+  versionCount: number;
+}
+
+// Trashed items keep their decoded content so restoring never depends on other records
+interface TrashEntry extends TrashItem {
+  document?: DocumentState; // kind 'document', with all its versions
+  version?: Version;        // kind 'version'
+}
+
+/**
+ * A named document and the documents that include it
+ */
+export interface PartialInfo {
+  documentId: string;
+  name: string;
+  updatedAt: string;
+  usedBy: PartialUsage[];
+}
+
+export interface PartialUsage {
+  documentId: string;
+  documentName?: string;
+  references: PartialReference[]; // includes of this partial, with any section and pin
+}
+
+/**
+ * Thrown when a document is given a name another document already has
+ */
+export class DocumentNameError extends Error {
+  readonly documentName: string;
+  readonly ownerId: string; // the document that has the name
+
+  constructor(documentName: string, ownerId: string) {
+    super(`Another prompt is already named "${documentName}"`);
+    this.name = 'DocumentNameError';
+    this.documentName = documentName;
+    this.ownerId = ownerId;
+  }
+}
+
+/**
+ * Thrown when a trash operation cannot be carried out
+ */
+export class TrashError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrashError';
+  }
+}
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  locked: boolean;
+}
+
+export interface SaveOptions {
+  force?: boolean; // overwrite even if another tab saved a newer revision
+}
+
+/**
+ * Thrown when a save is based on an older revision than the stored one,
+ * i.e. the document was changed elsewhere since this tab last read it
+ */
+export class StorageConflictError extends Error {
+  readonly documentId: string;
+  readonly storedRevision: number;
+
+  constructor(documentId: string, storedRevision: number) {
+    super(`Document ${documentId} was changed elsewhere (revision ${storedRevision})`);
+    this.name = 'StorageConflictError';
+    this.documentId = documentId;
+    this.storedRevision = storedRevision;
+  }
+}
+
+// Version content is stored encoded, either in full or as a delta (see versionEncoding)
+interface StoredVersion extends Omit<Version, 'content'> {
+  documentId: string;
+  content?: string;
+  delta?: VersionDelta;
+  depth?: number;
+}
+
+interface VersionEncodingInfo {
+  baseId: string | null;
+  depth: number;
+}
+
+function toEncodedContent(record: StoredVersion): EncodedContent {
+  return { content: record.content, delta: record.delta, depth: record.depth ?? 0 };
+}
+
+/**
+ * Strip storage-only fields from a version record, keeping every Version field
+ */
+function fromStoredVersion(record: StoredVersion, content: string): Version {
+  const version: Partial<StoredVersion> = { ...record };
+  delete version.documentId;
+  delete version.delta;
+  delete version.depth;
+  return { ...version, content } as Version;
+}
+
+/**
+ * Storage Service for Version Management
+ * Provides the document/version storage API on top of a pluggable StorageBackend
+ * (localForage by default, see STORAGE_CONFIG.BACKEND)
  */
 class VersionStorageService {
-  private store: LocalForage;
+  private backend: EncryptedBackend;
   private isInitialized = false;
+  private initPromise: Promise<void> | null = null;
+  private schemaVersion: number | null = null;
+  // Why the service fell back to memory-only storage, if it did
+  private fallbackReason: string | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  // Last version object written or read per ID, used to skip unchanged writes
+  private versionCache = new Map<string, Version>();
+  // How each stored version's content is encoded, to know what depends on what
+  private encodingCache = new Map<string, VersionEncodingInfo>();
+  private encryptionListeners = new Set<(status: EncryptionStatus) => void>();
+  private snapshotPolicyListeners = new Set<(policy: SnapshotPolicy) => void>();
+  // Told the ID of a document saved or deleted in this tab, or null when any may have changed
+  private documentListeners = new Set<(documentId: string | null) => void>();
+  // Loaded on first search, then kept current as documents are saved and deleted
+  private searchIndex: SearchIndex | null = null;
+  private searchIndexTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor() {
-    // Configure localForage
-    this.store = localforage.createInstance({
-      name: 'markdown-prompt-editor',
-      version: 1.0,
-      storeName: 'versions',
-      description: 'Markdown Prompt Editor - Document and Version Storage'
-    });
+  constructor(backend: StorageBackend = createStorageBackend()) {
+    this.backend = new EncryptedBackend(backend, sealedFields);
 
-    // Set driver priority: IndexedDB -> WebSQL -> localStorage
-    this.store.setDriver([
-      localforage.INDEXEDDB,
-      localforage.WEBSQL,
-      localforage.LOCALSTORAGE
-    ]);
+    // Another tab turned encryption on or off, or changed the passphrase
+    tabSync.subscribe((message) => {
+      if (message.type === 'encryption-changed' && this.isInitialized) {
+        this.reloadEncryption().catch(error => {
+          console.error('Failed to reload encryption settings:', error);
+        });
+      }
+    });
   }
 
   /**
@@ -35,48 +262,81 @@ class VersionStorageService {
       return;
     }
 
+    // Share a single initialization between concurrent callers so migrations run once
+    if (!this.initPromise) {
+      this.initPromise = this.initialize().finally(() => {
+        this.initPromise = null;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async initialize(): Promise<void> {
     // Check if persistence is enabled
     if (!isVersionEnabled('V2_PERSISTENCE')) {
       console.log('Persistence disabled, using in-memory storage only');
+      this.useMemoryFallback('Persistence is turned off');
+      await runMigrations(this.backend.inner);
       this.isInitialized = true;
       return;
     }
 
     try {
       // Test storage availability
-      await this.store.ready();
-      console.log('LocalForage initialized successfully with driver:', this.store.driver());
-      this.isInitialized = true;
+      await this.backend.ready();
+      console.log('Storage initialized successfully with backend:', this.backend.name);
     } catch (error) {
-      console.warn('LocalForage initialization failed, using in-memory storage:', error);
-      this.isInitialized = true;
-      // Continue with in-memory state only
+      console.warn('Storage backend initialization failed, using in-memory storage:', error);
+      this.useMemoryFallback('Browser storage is unavailable');
+    }
+
+    try {
+      // Upgrade stored data to the current schema before anything reads it.
+      // Migrations see records as stored, so none may rewrite sealed content.
+      this.schemaVersion = await runMigrations(this.backend.inner);
+    } catch (error) {
+      // The migration runner restored the data; leave it alone and work in memory
+      console.error('Storage migration failed, stored data was left unchanged:', error);
+      this.useMemoryFallback('Saved prompts could not be upgraded to this version of the app');
+      this.schemaVersion = await runMigrations(this.backend.inner);
+    }
+    await this.backend.loadMeta();
+
+    try {
+      await this.purgeExpiredTrash();
+    } catch (error) {
+      console.warn('Failed to clean up old trash:', error);
     }
+    this.isInitialized = true;
+  }
+
+  /**
+   * Switch to a session-only memory backend, remembering why
+   */
+  private useMemoryFallback(reason: string): void {
+    this.backend = new EncryptedBackend(new MemoryBackend(), sealedFields);
+    this.fallbackReason = reason;
   }
 
   /**
-   * Save a document state with all its versions
+   * Save a document state with all its versions.
+   * Only the document record, the index entry and versions that were added,
+   * changed or removed are written; other documents are never touched.
+   * Throws StorageConflictError if the stored document has a newer revision
+   * than the one `documentState` was read at (its `revision`), unless `force`
+   * is set. Resolves to the new revision.
    */
-  async saveDocument(documentState: DocumentState): Promise<void> {
+  async saveDocument(documentState: DocumentState, options: SaveOptions = {}): Promise<number> {
     if (!this.isInitialized) {
       await this.init();
     }
 
-    if (!isVersionEnabled('V2_PERSISTENCE')) {
-      return; // Skip persistence if disabled
-    }
-
     try {
-      const data = {
-        documents: { [documentState.id]: documentState },
-        versions: documentState.versions.reduce((acc, version) => {
-          acc[version.id] = { ...version, documentId: documentState.id };
-          return acc;
-        }, {} as Record<string, any>)
-      };
-
-      await this.store.setItem('app-data', data);
+      return await this.enqueue(() => this.writeDocument(documentState, options));
     } catch (error) {
+      if (error instanceof StorageConflictError || error instanceof DocumentNameError || error instanceof StoreLockedError) {
+        throw error;
+      }
       console.error('Failed to save document to storage:', error);
       throw new Error('Failed to save document to storage');
     }
@@ -90,47 +350,93 @@ class VersionStorageService {
       await this.init();
     }
 
-    if (!isVersionEnabled('V2_PERSISTENCE')) {
-      return null; // No persistence when disabled
-    }
-
     try {
-      const data = await this.store.getItem('app-data') as any;
-      if (!data || !data.documents) {
+      const document = await this.backend.getItem<StoredDocument>(documentKey(documentId));
+      if (!document) {
         return null;
       }
 
-      const document = data.documents[documentId];
-      if (!document) {
-        return null;
+      const records = (await Promise.all(
+        document.versionIds.map(id => this.backend.getItem<StoredVersion>(versionKey(id)))
+      )).filter((record): record is StoredVersion => record !== null);
+
+      const byId = new Map(records.map(record => [record.id, record]));
+      const resolved = new Map<string, string>();
+      const lookup = async (baseId: string) => {
+        const base = byId.get(baseId) ?? await this.backend.getItem<StoredVersion>(versionKey(baseId));
+        return base ? toEncodedContent(base) : null;
+      };
+
+      const versions: Version[] = [];
+      for (const record of records) {
+        let content: string;
+        try {
+          content = await decodeContent(record.id, toEncodedContent(record), lookup, resolved);
+        } catch (error) {
+          // Keep the rest of the history readable; the integrity check reports these
+          console.warn('Skipping version that could not be rebuilt:', error);
+          continue;
+        }
+        const version = fromStoredVersion(record, content);
+        this.versionCache.set(version.id, version);
+        this.encodingCache.set(version.id, { baseId: record.delta?.baseId ?? null, depth: record.depth ?? 0 });
+        versions.push(version);
       }
 
-      // Get versions for this document
-      const versions = Object.values(data.versions || {})
-        .filter((v: any) => v.documentId === documentId)
-        .map((v: any) => ({
-          id: v.id,
-          name: v.name,
-          content: v.content,
-          summary: v.summary,
-          createdAt: v.createdAt,
-        }))
-        .sort((a: any, b: any) => 
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
+      versions.sort((a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
 
       return {
         id: document.id,
+        name: document.name,
         content: document.content,
         versions,
         updatedAt: document.updatedAt,
+        revision: document.revision ?? 0,
+        baseVersionId: document.baseVersionId,
+        labelHistory: document.labelHistory,
+        variableSets: document.variableSets,
+        activeVariableSetId: document.activeVariableSetId,
+        variableSchema: document.variableSchema,
       };
     } catch (error) {
+      if (error instanceof StoreLockedError) {
+        throw error;
+      }
       console.error('Failed to load document from storage:', error);
       return null;
     }
   }
 
+  /**
+   * Load a single version, rebuilding its content from any deltas
+   */
+  async loadVersion(versionId: string): Promise<Version | null> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      const record = await this.backend.getItem<StoredVersion>(versionKey(versionId));
+      if (!record) {
+        return null;
+      }
+
+      const content = await decodeContent(record.id, toEncodedContent(record), async (baseId) => {
+        const base = await this.backend.getItem<StoredVersion>(versionKey(baseId));
+        return base ? toEncodedContent(base) : null;
+      });
+      return fromStoredVersion(record, content);
+    } catch (error) {
+      if (error instanceof StoreLockedError) {
+        throw error;
+      }
+      console.error('Failed to load version from storage:', error);
+      return null;
+    }
+  }
+
   /**
    * Get all document IDs
    */
@@ -139,136 +445,1139 @@ class VersionStorageService {
       await this.init();
     }
 
-    if (!isVersionEnabled('V2_PERSISTENCE')) {
+    try {
+      const index = await this.readIndex();
+      return index.map(entry => entry.id);
+    } catch (error) {
+      console.error('Failed to get document IDs from storage:', error);
       return [];
     }
+  }
+
+  /**
+   * The ID of the document with a given name, if any
+   */
+  async findDocumentIdByName(name: string): Promise<string | null> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      const index = await this.readIndex();
+      return index.find(entry => entry.name === name)?.id ?? null;
+    } catch (error) {
+      console.error('Failed to look up document name:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Every named document, by name, with the documents whose current content includes it
+   */
+  async listPartials(): Promise<PartialInfo[]> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
 
     try {
-      const data = await this.store.getItem('app-data') as any;
-      if (!data || !data.documents) {
-        return [];
+      const index = await this.readIndex();
+      const partials = new Map<string, PartialInfo>(index
+        .filter(entry => entry.name)
+        .map(entry => [entry.name!, { documentId: entry.id, name: entry.name!, updatedAt: entry.updatedAt, usedBy: [] }]));
+
+      for (const entry of index) {
+        const document = await this.backend.getItem<StoredDocument>(documentKey(entry.id));
+        if (!document) continue;
+
+        const byName = new Map<string, PartialReference[]>();
+        for (const reference of findPartialReferences(document.content)) {
+          byName.set(reference.name, [...(byName.get(reference.name) ?? []), reference]);
+        }
+        byName.forEach((references, name) => {
+          partials.get(name)?.usedBy.push({ documentId: entry.id, documentName: entry.name, references });
+        });
       }
 
-      return Object.keys(data.documents);
+      return [...partials.values()].sort((a, b) => a.name.localeCompare(b.name));
     } catch (error) {
-      console.error('Failed to get document IDs from storage:', error);
+      if (error instanceof StoreLockedError) {
+        throw error;
+      }
+      console.error('Failed to list partials:', error);
       return [];
     }
   }
 
   /**
-   * Delete a document and all its versions
+   * Move a document and all its versions to the trash
    */
   async deleteDocument(documentId: string): Promise<void> {
     if (!this.isInitialized) {
       await this.init();
     }
 
-    if (!isVersionEnabled('V2_PERSISTENCE')) {
-      return;
+    try {
+      await this.enqueue(async () => {
+        const state = await this.loadDocument(documentId);
+        if (state) {
+          await this.writeTrashEntry({
+            kind: 'document',
+            documentId,
+            label: getDocumentLabel(state),
+            versionCount: state.versions.length,
+            document: state,
+          });
+        }
+
+        // Remove every listed version, including any that could not be rebuilt
+        const document = await this.backend.peek<StoredDocument>(documentKey(documentId));
+
+        // Delete associated versions
+        for (const id of document?.versionIds ?? []) {
+          await this.backend.removeItem(versionKey(id));
+          this.versionCache.delete(id);
+          this.encodingCache.delete(id);
+        }
+
+        // Delete document, its retention override, its undo history and its index entry
+        await this.backend.removeItem(documentKey(documentId));
+        await this.backend.removeItem(policyKey(documentId));
+        await this.backend.removeItem(undoKey(documentId));
+        await this.updateIndex(index => index.filter(entry => entry.id !== documentId));
+        if (this.searchIndex) {
+          this.searchIndex.removeDocument(documentId);
+          this.scheduleSearchIndexSave();
+        }
+      });
+      tabSync.publish({ type: 'document-deleted', documentId });
+      this.notifyDocumentChange(documentId);
+    } catch (error) {
+      console.error('Failed to delete document from storage:', error);
+      throw new Error('Failed to delete document from storage');
+    }
+  }
+
+  /**
+   * Move a single version of a document to the trash.
+   * When `revision` is given it is the revision the caller read the document at,
+   * and StorageConflictError is thrown if the stored document is newer, as in saveDocument.
+   * Resolves to the document's new revision, or null if the version was not stored.
+   */
+  async deleteVersion(documentId: string, versionId: string, revision?: number): Promise<number | null> {
+    if (!this.isInitialized) {
+      await this.init();
     }
 
     try {
-      const data = await this.store.getItem('app-data') as any;
-      if (!data) {
-        return;
-      }
+      return await this.enqueue(async () => {
+        const document = await this.loadDocument(documentId);
+        // Checked before the trash entry is written, so a rejected delete leaves storage untouched
+        if (document && revision !== undefined && (document.revision ?? 0) > revision) {
+          throw new StorageConflictError(documentId, document.revision ?? 0);
+        }
+        const version = document?.versions.find(v => v.id === versionId);
+        if (!document || !version) {
+          return null;
+        }
 
-      // Delete document
-      if (data.documents) {
-        delete data.documents[documentId];
+        await this.writeTrashEntry({
+          kind: 'version',
+          documentId,
+          label: getVersionLabel(version),
+          versionCount: 1,
+          version,
+        });
+        return this.writeDocument(removeVersions(document, [versionId]));
+      });
+    } catch (error) {
+      if (error instanceof StorageConflictError || error instanceof StoreLockedError) {
+        throw error;
       }
+      console.error('Failed to delete version from storage:', error);
+      throw new Error('Failed to delete version from storage');
+    }
+  }
+
+  /**
+   * Pin or unpin a version, or replace its tags
+   */
+  async updateVersionMetadata(
+    documentId: string,
+    versionId: string,
+    changes: Partial<Pick<Version, 'pinned' | 'tags'>>
+  ): Promise<number | null> {
+    return this.updateStoredDocument(documentId, document => updateVersion(document, versionId, changes), 'update version');
+  }
+
+  /**
+   * Move an exclusive label to a version, or take it off the document when `versionId` is null
+   */
+  async moveVersionLabel(documentId: string, label: string, versionId: string | null): Promise<number | null> {
+    return this.updateStoredDocument(documentId, document => moveLabel(document, label, versionId), 'move label');
+  }
+
+  /**
+   * List everything in the trash, most recently deleted first.
+   * Only summaries are read, so this works while storage is locked; labels
+   * are sealed, so locked items are listed without them.
+   */
+  async listTrash(): Promise<TrashItem[]> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
 
-      // Delete associated versions
-      if (data.versions) {
-        const versionIds = Object.keys(data.versions).filter(
-          (id) => data.versions[id].documentId === documentId
-        );
-        versionIds.forEach(id => delete data.versions[id]);
+    try {
+      const items: TrashItem[] = [];
+      for (const key of await this.backend.keys()) {
+        if (!key.startsWith(TRASH_PREFIX)) continue;
+        const entry = this.backend.isLocked
+          ? await this.backend.peek<TrashEntry>(key)
+          : await this.backend.getItem<TrashEntry>(key);
+        if (entry) {
+          const { id, kind, documentId, label, deletedAt, versionCount } = entry;
+          const fallback = kind === 'document' ? 'Encrypted document' : 'Encrypted version';
+          items.push({ id, kind, documentId, label: label ?? fallback, deletedAt, versionCount });
+        }
       }
+      return items.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+    } catch (error) {
+      console.error('Failed to list trash:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Put a trashed item back, resolving to the ID of the document it was restored into.
+   * A document whose ID has been reused since is restored as a copy under a new ID;
+   * a version whose document is gone is restored as a new document of its own.
+   * A restored version does not get its labels back.
+   */
+  async restoreFromTrash(entryId: string): Promise<string> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      return await this.enqueue(async () => {
+        const entry = await this.backend.getItem<TrashEntry>(trashKey(entryId));
+        if (!entry) {
+          throw new TrashError('This item is no longer in the trash');
+        }
+
+        const existing = await this.loadDocument(entry.documentId);
+        let restored: DocumentState;
+        if (entry.kind === 'document' && entry.document) {
+          const renames = await this.unusedVersionIdRenames(entry.document.versions);
+          restored = {
+            ...renameDocumentVersions(entry.document, renames),
+            id: existing ? generateDocumentId() : entry.documentId,
+            revision: undefined,
+          };
+        } else if (entry.kind === 'version' && entry.version) {
+          const [renamed] = renameVersions([entry.version], await this.unusedVersionIdRenames([entry.version]));
+          // Its labels may have been put on other versions since, so it comes back without them
+          const version: Version = { ...renamed };
+          delete version.labels;
+          restored = existing
+            ? {
+                ...existing,
+                versions: [...existing.versions, version].sort((a, b) =>
+                  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+                ),
+              }
+            : {
+                id: entry.documentId,
+                content: version.content,
+                versions: [version],
+                updatedAt: new Date().toISOString(),
+              };
+        } else {
+          throw new TrashError('This trash entry is damaged and cannot be restored');
+        }
 
-      await this.store.setItem('app-data', data);
+        // Its name may have been given to another document since
+        if (restored.name && (await this.readIndex()).some(e => e.name === restored.name && e.id !== restored.id)) {
+          restored = { ...restored, name: undefined };
+        }
+
+        await this.writeDocument(restored);
+        await this.backend.removeItem(trashKey(entryId));
+        return restored.id;
+      });
     } catch (error) {
-      console.error('Failed to delete document from storage:', error);
-      throw new Error('Failed to delete document from storage');
+      if (error instanceof TrashError || error instanceof StoreLockedError) {
+        throw error;
+      }
+      console.error('Failed to restore from trash:', error);
+      throw new Error('Failed to restore from trash');
     }
   }
 
   /**
-   * Clear all data
+   * Permanently remove one item from the trash
    */
-  async clearAll(): Promise<void> {
+  async purgeFromTrash(entryId: string): Promise<void> {
     if (!this.isInitialized) {
       await this.init();
     }
 
-    if (!isVersionEnabled('V2_PERSISTENCE')) {
-      return;
+    try {
+      await this.enqueue(() => this.backend.removeItem(trashKey(entryId)));
+    } catch (error) {
+      console.error('Failed to purge trash item:', error);
+      throw new Error('Failed to purge trash item');
+    }
+  }
+
+  /**
+   * Permanently remove everything in the trash
+   */
+  async emptyTrash(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
     }
 
     try {
-      await this.store.clear();
+      await this.enqueue(async () => {
+        for (const key of await this.backend.keys()) {
+          if (key.startsWith(TRASH_PREFIX)) {
+            await this.backend.removeItem(key);
+          }
+        }
+      });
     } catch (error) {
-      console.error('Failed to clear storage:', error);
-      throw new Error('Failed to clear storage');
+      console.error('Failed to empty trash:', error);
+      throw new Error('Failed to empty trash');
     }
   }
 
   /**
-   * Get storage usage information
+   * Check stored documents and versions for orphaned, dangling or malformed records
    */
-  async getStorageInfo(): Promise<{ totalDocuments: number; totalVersions: number; estimatedSize: number }> {
+  async checkIntegrity(): Promise<IntegrityReport> {
     if (!this.isInitialized) {
       await this.init();
     }
 
-    if (!isVersionEnabled('V2_PERSISTENCE')) {
-      return { totalDocuments: 0, totalVersions: 0, estimatedSize: 0 };
+    try {
+      return await this.enqueue(() => checkIntegrity(this.backend));
+    } catch (error) {
+      if (error instanceof StoreLockedError) {
+        throw error;
+      }
+      console.error('Failed to check storage integrity:', error);
+      throw new Error('Failed to check storage integrity');
+    }
+  }
+
+  /**
+   * Apply one of the repairs offered for an integrity issue.
+   * Resolves to the IDs of the documents that changed, which callers should reload.
+   */
+  async repairIntegrityIssue(issue: IntegrityIssue, action: RepairAction): Promise<string[]> {
+    if (!this.isInitialized) {
+      await this.init();
     }
 
     try {
-      const data = await this.store.getItem('app-data') as any;
-      if (!data) {
-        return { totalDocuments: 0, totalVersions: 0, estimatedSize: 0 };
+      const changed = await this.enqueue(() => repairIssue(this.backend, issue, action));
+      this.versionCache.clear();
+      this.encodingCache.clear();
+      this.searchIndex = null;
+      tabSync.publish({ type: 'workspace-changed' });
+      this.notifyDocumentChange(null);
+      return changed;
+    } catch (error) {
+      if (error instanceof StoreLockedError) {
+        throw error;
       }
+      console.error('Failed to repair storage:', error);
+      throw new Error('Failed to repair storage');
+    }
+  }
 
-      const documents = Object.keys(data.documents || {});
-      const versions = Object.keys(data.versions || {});
-      
-      return {
-        totalDocuments: documents.length,
-        totalVersions: versions.length,
-        estimatedSize: JSON.stringify(data).length,
-      };
+  /**
+   * List records moved aside by integrity repairs, newest first
+   */
+  async listQuarantine(): Promise<QuarantinedRecord[]> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      const records: QuarantinedRecord[] = [];
+      for (const key of await this.backend.keys()) {
+        if (!key.startsWith(QUARANTINE_PREFIX)) continue;
+        const record = await this.backend.getItem<QuarantinedRecord>(key);
+        if (record) records.push(record);
+      }
+      return records.sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
     } catch (error) {
-      console.error('Failed to get storage info:', error);
-      return { totalDocuments: 0, totalVersions: 0, estimatedSize: 0 };
+      if (error instanceof StoreLockedError) {
+        throw error;
+      }
+      console.error('Failed to list quarantined records:', error);
+      throw new Error('Failed to list quarantined records');
     }
   }
 
   /**
-   * Get the current storage driver being used
+   * Permanently remove a quarantined record, given its original key
    */
-  getCurrentDriver(): string {
-    return this.store.driver() || 'unknown';
+  async deleteQuarantined(key: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      await this.enqueue(() => this.backend.removeItem(`${QUARANTINE_PREFIX}${key}`));
+    } catch (error) {
+      console.error('Failed to delete quarantined record:', error);
+      throw new Error('Failed to delete quarantined record');
+    }
   }
 
   /**
-   * Check if storage is available
+   * Clear all data
    */
-  async isStorageAvailable(): Promise<boolean> {
-    if (!isVersionEnabled('V2_PERSISTENCE')) {
-      return false;
+  async clearAll(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
     }
 
     try {
-      await this.store.ready();
-      return true;
+      await this.enqueue(async () => {
+        await this.backend.clear();
+        // Keep the schema marker so the empty store is not mistaken for an older layout
+        await this.backend.setItem(SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION);
+      });
+      this.versionCache.clear();
+      this.encodingCache.clear();
+      this.searchIndex = null;
+      tabSync.publish({ type: 'workspace-changed' });
+      this.notifyDocumentChange(null);
     } catch (error) {
-      return false;
+      console.error('Failed to clear storage:', error);
+      throw new Error('Failed to clear storage');
     }
   }
+
+  /**
+   * Get storage usage information
+   */
+  async getStorageInfo(): Promise<{ totalDocuments: number; totalVersions: number; estimatedSize: number }> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      const index = await this.readIndex();
+      let estimatedSize = 0;
+      for (const key of await this.backend.keys()) {
+        estimatedSize += JSON.stringify(await this.backend.peek(key)).length;
+      }
+
+      return {
+        totalDocuments: index.length,
+        totalVersions: index.reduce((total, entry) => total + entry.versionCount, 0),
+        estimatedSize,
+      };
+    } catch (error) {
+      console.error('Failed to get storage info:', error);
+      return { totalDocuments: 0, totalVersions: 0, estimatedSize: 0 };
+    }
+  }
+
+  /**
+   * Get the retention policy that applies to a document (its own override,
+   * else the global policy), or the global policy when no document is given
+   */
+  async getRetentionPolicy(documentId?: string): Promise<RetentionPolicy> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      const override = documentId
+        ? await this.backend.getItem<RetentionPolicy>(policyKey(documentId))
+        : null;
+      return override
+        ?? (await this.backend.getItem<RetentionPolicy>(GLOBAL_POLICY_KEY))
+        ?? DEFAULT_RETENTION_POLICY;
+    } catch (error) {
+      console.error('Failed to load retention policy:', error);
+      return DEFAULT_RETENTION_POLICY;
+    }
+  }
+
+  /**
+   * Get a document's own retention override, if it has one
+   */
+  async getDocumentRetentionPolicy(documentId: string): Promise<RetentionPolicy | null> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      return await this.backend.getItem<RetentionPolicy>(policyKey(documentId));
+    } catch (error) {
+      console.error('Failed to load retention policy:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the global retention policy, or a document override when a document
+   * is given. Passing null for a document removes its override.
+   */
+  async setRetentionPolicy(policy: RetentionPolicy | null, documentId?: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      const key = documentId ? policyKey(documentId) : GLOBAL_POLICY_KEY;
+      if (policy) {
+        await this.backend.setItem(key, policy);
+      } else {
+        await this.backend.removeItem(key);
+      }
+    } catch (error) {
+      console.error('Failed to save retention policy:', error);
+      throw new Error('Failed to save retention policy');
+    }
+  }
+
+  /**
+   * Get the automatic snapshot policy
+   */
+  async getSnapshotPolicy(): Promise<SnapshotPolicy> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      return (await this.backend.getItem<SnapshotPolicy>(SNAPSHOT_POLICY_KEY)) ?? DEFAULT_SNAPSHOT_POLICY;
+    } catch (error) {
+      console.error('Failed to load snapshot policy:', error);
+      return DEFAULT_SNAPSHOT_POLICY;
+    }
+  }
+
+  /**
+   * Save the automatic snapshot policy and apply it in this tab
+   */
+  async setSnapshotPolicy(policy: SnapshotPolicy): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      await this.backend.setItem(SNAPSHOT_POLICY_KEY, policy);
+      this.snapshotPolicyListeners.forEach(listener => listener(policy));
+    } catch (error) {
+      console.error('Failed to save snapshot policy:', error);
+      throw new Error('Failed to save snapshot policy');
+    }
+  }
+
+  /**
+   * Get a document's undo history, or null if none was saved (or it is unreadable)
+   */
+  async getUndoHistory(documentId: string): Promise<UndoHistory | null> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      const history = await this.backend.getItem<unknown>(undoKey(documentId));
+      return isUndoHistory(history) ? history : null;
+    } catch (error) {
+      if (error instanceof StoreLockedError) {
+        throw error;
+      }
+      console.error('Failed to load undo history:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a document's undo history
+   */
+  async saveUndoHistory(documentId: string, history: UndoHistory): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      await this.backend.setItem(undoKey(documentId), history);
+    } catch (error) {
+      if (error instanceof StoreLockedError) {
+        throw error;
+      }
+      console.error('Failed to save undo history:', error);
+      throw new Error('Failed to save undo history');
+    }
+  }
+
+  /**
+   * Listen for documents saved or deleted in this tab, getting the document's ID
+   * (null when any document may have changed); returns an unsubscribe function
+   */
+  subscribeDocuments(listener: (documentId: string | null) => void): () => void {
+    this.documentListeners.add(listener);
+    return () => {
+      this.documentListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for snapshot policy changes made in this tab; returns an unsubscribe function
+   */
+  subscribeSnapshotPolicy(listener: (policy: SnapshotPolicy) => void): () => void {
+    this.snapshotPolicyListeners.add(listener);
+    return () => {
+      this.snapshotPolicyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Report the stored size of every document record and its versions
+   */
+  async getUsageReport(): Promise<DocumentUsage[]> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      const index = await this.readIndex();
+      const report: DocumentUsage[] = [];
+
+      for (const entry of index) {
+        // Sizes are measured as stored, so this works while locked
+        const document = await this.backend.peek<StoredDocument>(documentKey(entry.id));
+        if (!document) continue;
+
+        const versionBytes: Record<string, number> = {};
+        for (const id of document.versionIds) {
+          const version = await this.backend.peek<StoredVersion>(versionKey(id));
+          if (version) {
+            versionBytes[id] = JSON.stringify(version).length;
+          }
+        }
+
+        report.push({
+          documentId: entry.id,
+          documentBytes: JSON.stringify(document).length,
+          versionBytes,
+        });
+      }
+
+      return report;
+    } catch (error) {
+      console.error('Failed to build storage usage report:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Apply a document's retention policy now, returning the pruned version IDs
+   */
+  async pruneDocument(documentId: string): Promise<string[]> {
+    const document = await this.loadDocument(documentId);
+    if (!document) {
+      return [];
+    }
+
+    const policy = await this.getRetentionPolicy(documentId);
+    const { prune } = planPrune(document.versions, policy);
+    if (prune.length > 0) {
+      await this.saveDocument(removeVersions(document, prune.map(v => v.id)));
+    }
+    return prune.map(v => v.id);
+  }
+
+  /**
+   * Search every document and version, best match first.
+   * See parseSearchQuery for the query syntax (phrases, prefixes and filters).
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    const parsed = parseSearchQuery(query);
+    parsed.type = parsed.type ?? options.type ?? null;
+
+    try {
+      const index = await this.getSearchIndex();
+      const results: SearchResult[] = [];
+      for (const hit of index.search(parsed, options.limit)) {
+        // Content is read only for the results shown, to cut their snippets
+        const content = hit.type === 'document'
+          ? (await this.backend.getItem<StoredDocument>(documentKey(hit.id)))?.content
+          : (await this.loadVersion(hit.id))?.content;
+        results.push({ ...hit, snippet: buildSnippet(content ?? '', hit.matchedTerms) });
+      }
+      return { results, errors: parsed.errors };
+    } catch (error) {
+      if (error instanceof StoreLockedError) {
+        throw error;
+      }
+      console.error('Failed to search prompts:', error);
+      throw new Error('Failed to search prompts');
+    }
+  }
+
+  /**
+   * Get the schema version of the stored data, once initialized
+   */
+  getSchemaVersion(): number | null {
+    return this.schemaVersion;
+  }
+
+  /**
+   * Get the current storage driver being used
+   */
+  getCurrentDriver(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * Check if storage is available
+   */
+  async isStorageAvailable(): Promise<boolean> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      await this.backend.ready();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether saved data survives a reload, and if not, why
+   */
+  getPersistenceStatus(): { persistent: boolean; reason: string | null } {
+    return {
+      persistent: this.backend.persistent,
+      reason: this.backend.persistent ? null : this.fallbackReason ?? 'The in-memory backend is configured',
+    };
+  }
+
+  /**
+   * Whether encryption at rest is on, and whether the key is currently unknown
+   */
+  getEncryptionStatus(): EncryptionStatus {
+    return { enabled: this.backend.isEnabled, locked: this.backend.isLocked };
+  }
+
+  /**
+   * Listen for encryption being turned on/off, locked or unlocked; returns an unsubscribe function
+   */
+  subscribeEncryption(listener: (status: EncryptionStatus) => void): () => void {
+    this.encryptionListeners.add(listener);
+    return () => {
+      this.encryptionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Unlock encrypted content; throws WrongPassphraseError if the passphrase does not match
+   */
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    await this.backend.unlock(passphrase);
+    // Finishes an interrupted passphrase change and seals fields stored before they were sealed
+    let rekeyed = false;
+    try {
+      rekeyed = await this.enqueue(() => this.backend.resealPending());
+    } catch (error) {
+      console.error('Failed to re-seal stored records:', error);
+    }
+    this.notifyEncryptionChange();
+    if (rekeyed) {
+      tabSync.publish({ type: 'encryption-changed' });
+    }
+  }
+
+  /**
+   * Forget the key, along with any decrypted content held in memory
+   */
+  lock(): void {
+    this.backend.lock();
+    this.versionCache.clear();
+    this.searchIndex = null;
+    this.notifyEncryptionChange();
+  }
+
+  /**
+   * Turn on encryption at rest and encrypt everything already stored.
+   * The pre-migration backup and the search index hold plain copies of content,
+   * so they are removed; the index is then only kept in memory.
+   */
+  async enableEncryption(passphrase: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      await this.enqueue(async () => {
+        await this.backend.enable(passphrase);
+        await this.backend.removeItem(MIGRATION_BACKUP_KEY);
+        await this.backend.removeItem(SEARCH_INDEX_KEY);
+      });
+    } catch (error) {
+      console.error('Failed to enable encryption:', error);
+      throw new Error('Failed to enable encryption');
+    }
+    this.notifyEncryptionChange();
+    tabSync.publish({ type: 'encryption-changed' });
+  }
+
+  /**
+   * Re-encrypt everything under a new passphrase.
+   * Throws WrongPassphraseError if the current passphrase does not match.
+   */
+  async changePassphrase(currentPassphrase: string, nextPassphrase: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    await this.enqueue(() => this.backend.changePassphrase(currentPassphrase, nextPassphrase));
+    this.notifyEncryptionChange();
+    tabSync.publish({ type: 'encryption-changed' });
+  }
+
+  /**
+   * Decrypt everything and turn encryption at rest off.
+   * Throws WrongPassphraseError if the passphrase does not match.
+   */
+  async disableEncryption(passphrase: string): Promise<void> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    await this.enqueue(() => this.backend.disable(passphrase));
+    this.notifyEncryptionChange();
+    tabSync.publish({ type: 'encryption-changed' });
+  }
+
+  /**
+   * Pick up encryption settings changed by another tab
+   */
+  private async reloadEncryption(): Promise<void> {
+    await this.backend.loadMeta();
+    if (this.backend.isLocked) {
+      this.versionCache.clear();
+      this.searchIndex = null;
+    }
+    this.notifyEncryptionChange();
+  }
+
+  private notifyDocumentChange(documentId: string | null): void {
+    this.documentListeners.forEach(listener => listener(documentId));
+  }
+
+  private notifyEncryptionChange(): void {
+    const status = this.getEncryptionStatus();
+    this.encryptionListeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * Load the search index and reindex any document saved since it was last
+   * updated, e.g. by another tab or a session that closed before saving the index
+   */
+  private async getSearchIndex(): Promise<SearchIndex> {
+    if (!this.searchIndex) {
+      const stored = this.backend.isEnabled
+        ? null
+        : await this.backend.getItem<SerializedSearchIndex>(SEARCH_INDEX_KEY);
+      this.searchIndex = SearchIndex.fromJSON(stored);
+    }
+    const index = this.searchIndex;
+
+    const entries = await this.readIndex();
+    const live = new Set(entries.map(entry => entry.id));
+    let changed = false;
+
+    for (const id of index.getIndexedDocumentIds()) {
+      if (!live.has(id)) {
+        index.removeDocument(id);
+        changed = true;
+      }
+    }
+    for (const entry of entries) {
+      const indexedRevision = index.getIndexedRevision(entry.id);
+      if (indexedRevision !== null && (entry.revision === undefined || entry.revision === indexedRevision)) {
+        continue;
+      }
+      const document = await this.loadDocument(entry.id);
+      if (document) {
+        index.indexDocument(document, document.revision ?? 0);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.scheduleSearchIndexSave();
+    }
+    return index;
+  }
+
+  /**
+   * Save the search index once changes have settled. It is never written
+   * while encryption is on, since it would expose the sealed content.
+   */
+  private scheduleSearchIndexSave(): void {
+    if (this.searchIndexTimer) {
+      clearTimeout(this.searchIndexTimer);
+    }
+    this.searchIndexTimer = setTimeout(() => {
+      this.searchIndexTimer = null;
+      this.enqueue(async () => {
+        if (this.searchIndex && !this.backend.isEnabled) {
+          await this.backend.setItem(SEARCH_INDEX_KEY, this.searchIndex.toJSON());
+        }
+      }).catch(error => {
+        console.warn('Failed to save search index:', error);
+      });
+    }, SEARCH_CONFIG.PERSIST_DEBOUNCE_MS);
+  }
+
+  /**
+   * Store a new trash entry; must run inside the write queue
+   */
+  private async writeTrashEntry(entry: Omit<TrashEntry, 'id' | 'deletedAt'>): Promise<void> {
+    const id = generateTrashId();
+    await this.backend.setItem(trashKey(id), { ...entry, id, deletedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Pick fresh IDs for versions whose IDs are taken by stored versions,
+   * for use with renameVersions
+   */
+  private async unusedVersionIdRenames(versions: Version[]): Promise<Map<string, string>> {
+    const renames = new Map<string, string>();
+    for (const version of versions) {
+      if (await this.backend.peek(versionKey(version.id)) !== null) {
+        renames.set(version.id, generateVersionId());
+      }
+    }
+    return renames;
+  }
+
+  /**
+   * Remove trash entries older than TRASH_CONFIG.RETENTION_DAYS; runs during init
+   */
+  private async purgeExpiredTrash(now: Date = new Date()): Promise<void> {
+    const cutoff = now.getTime() - TRASH_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    for (const key of await this.backend.keys()) {
+      if (!key.startsWith(TRASH_PREFIX)) continue;
+      const entry = await this.backend.peek<TrashEntry>(key);
+      if (!entry || new Date(entry.deletedAt).getTime() < cutoff) {
+        await this.backend.removeItem(key);
+      }
+    }
+  }
+
+  /**
+   * Write a document and the versions that changed; must run inside the write queue
+   */
+  private async writeDocument(documentState: DocumentState, options: SaveOptions = {}): Promise<number> {
+    const existing = await this.backend.getItem<StoredDocument>(documentKey(documentState.id));
+    const storedRevision = existing?.revision ?? 0;
+    // The state's own revision is what it was based on; a state without one is based on nothing stored
+    if (existing && !options.force && storedRevision > (documentState.revision ?? 0)) {
+      throw new StorageConflictError(documentState.id, storedRevision);
+    }
+    // Checked before anything is written, so a rejected save leaves storage untouched
+    if (documentState.name) {
+      const owner = (await this.readIndex()).find(e => e.name === documentState.name && e.id !== documentState.id);
+      if (owner) {
+        throw new DocumentNameError(documentState.name, owner.id);
+      }
+    }
+    const revision = storedRevision + 1;
+    const previousIds = new Set(existing?.versionIds ?? []);
+    const nextIds = new Set(documentState.versions.map(v => v.id));
+    const removedIds = new Set([...previousIds].filter(id => !nextIds.has(id)));
+    const versions = documentState.versions;
+
+    // Walk oldest to newest so each version's delta base is already settled.
+    // Version content never changes once saved, so a version is only rewritten
+    // when it is new, its object changed, or the version it is a delta of is removed.
+    for (let i = versions.length - 1; i >= 0; i--) {
+      const version = versions[i];
+      const isStored = previousIds.has(version.id);
+      const encoding = isStored ? await this.getEncodingInfo(version.id) : null;
+      const needsWrite = !isStored
+        || this.versionCache.get(version.id) !== version
+        || !encoding
+        || (encoding.baseId !== null && removedIds.has(encoding.baseId));
+
+      if (!needsWrite) {
+        continue;
+      }
+
+      const older = versions[i + 1];
+      const olderEncoding = older ? this.encodingCache.get(older.id) : undefined;
+      const encoded = encodeContent(
+        version.content,
+        older && olderEncoding ? { id: older.id, content: older.content, depth: olderEncoding.depth } : undefined
+      );
+
+      const record: StoredVersion = {
+        ...version,
+        documentId: documentState.id,
+        content: encoded.content,
+        delta: encoded.delta,
+        depth: encoded.depth,
+      };
+      if (encoded.content === undefined) {
+        delete record.content;
+      }
+      await this.backend.setItem(versionKey(version.id), record);
+      this.versionCache.set(version.id, version);
+      this.encodingCache.set(version.id, { baseId: encoded.delta?.baseId ?? null, depth: encoded.depth });
+    }
+
+    // Remove versions that are no longer part of the document, after
+    // anything that depended on them has been re-encoded
+    for (const id of removedIds) {
+      await this.backend.removeItem(versionKey(id));
+      this.versionCache.delete(id);
+      this.encodingCache.delete(id);
+    }
+
+    const record: StoredDocument = {
+      id: documentState.id,
+      name: documentState.name,
+      content: documentState.content,
+      versionIds: documentState.versions.map(v => v.id),
+      updatedAt: documentState.updatedAt,
+      revision,
+      baseVersionId: documentState.baseVersionId,
+      labelHistory: documentState.labelHistory,
+      variableSets: documentState.variableSets,
+      activeVariableSetId: documentState.activeVariableSetId,
+      variableSchema: documentState.variableSchema,
+    };
+    await this.backend.setItem(documentKey(documentState.id), record);
+
+    await this.updateIndex(index => {
+      const entry: DocumentIndexEntry = {
+        id: documentState.id,
+        updatedAt: documentState.updatedAt,
+        versionCount: documentState.versions.length,
+        revision,
+      };
+      if (documentState.name) entry.name = documentState.name;
+      const position = index.findIndex(e => e.id === documentState.id);
+      if (position === -1) {
+        index.push(entry);
+      } else {
+        index[position] = entry;
+      }
+      return index;
+    });
+
+    if (this.searchIndex) {
+      this.searchIndex.indexDocument(documentState, revision);
+      this.scheduleSearchIndexSave();
+    }
+
+    tabSync.publish({ type: 'document-saved', documentId: documentState.id, revision });
+    this.notifyDocumentChange(documentState.id);
+    return revision;
+  }
+
+  /**
+   * Load, change and write back a document in one queued step.
+   * Resolves to the new revision, or null when the document is missing or unchanged.
+   */
+  private async updateStoredDocument(
+    documentId: string,
+    update: (document: DocumentState) => DocumentState,
+    action: string
+  ): Promise<number | null> {
+    if (!this.isInitialized) {
+      await this.init();
+    }
+
+    try {
+      return await this.enqueue(async () => {
+        const document = await this.loadDocument(documentId);
+        if (!document) {
+          return null;
+        }
+        const updated = update(document);
+        return updated === document ? null : this.writeDocument(updated);
+      });
+    } catch (error) {
+      if (error instanceof StorageConflictError || error instanceof StoreLockedError) {
+        throw error;
+      }
+      console.error(`Failed to ${action}:`, error);
+      throw new Error(`Failed to ${action}`);
+    }
+  }
+
+  /**
+   * How a stored version's content is encoded, reading the record if not cached
+   */
+  private async getEncodingInfo(versionId: string): Promise<VersionEncodingInfo | null> {
+    const cached = this.encodingCache.get(versionId);
+    if (cached) {
+      return cached;
+    }
+
+    const record = await this.backend.getItem<StoredVersion>(versionKey(versionId));
+    if (!record) {
+      return null;
+    }
+
+    const info = { baseId: record.delta?.baseId ?? null, depth: record.depth ?? 0 };
+    this.encodingCache.set(versionId, info);
+    return info;
+  }
+
+  /**
+   * Read the document index, oldest document first
+   */
+  private async readIndex(): Promise<DocumentIndexEntry[]> {
+    return (await this.backend.getItem<DocumentIndexEntry[]>(INDEX_KEY)) ?? [];
+  }
+
+  /**
+   * Apply a change to the document index and persist it
+   */
+  private async updateIndex(
+    update: (index: DocumentIndexEntry[]) => DocumentIndexEntry[]
+  ): Promise<void> {
+    const index = await this.readIndex();
+    await this.backend.setItem(INDEX_KEY, update(index));
+  }
+
+  /**
+   * Run write operations one at a time so read-modify-write cycles on the
+   * index and document records never interleave
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
 }
 
+export { VersionStorageService };
+
 // Export singleton instance
 export const versionStorage = new VersionStorageService();
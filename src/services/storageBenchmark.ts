@@ -0,0 +1,127 @@
+/**
+ * Version Storage Benchmark
+ * Compares stored size and load time of full-copy versions against
+ * snapshot-plus-delta versions for a synthetic prompt editing history.
+ * Run from Diagnostics in the prompt manager of a development build (`npm run dev`).
+ */
+
+import { encodeContent, decodeContent } from './versionEncoding';
+import type { EncodedContent } from './versionEncoding';
+
+export interface BenchmarkOptions {
+  versionCount?: number;
+  promptLines?: number;
+  editsPerVersion?: number;
+}
+
+export interface FormatResult {
+  storedBytes: number;
+  encodeMs: number;
+  loadMs: number;
+}
+
+export interface BenchmarkResult {
+  versionCount: number;
+  averageContentLength: number;
+  full: FormatResult;
+  delta: FormatResult;
+  sizeRatio: number; // delta size as a fraction of full size
+}
+
+/**
+ * Build a history of a long system prompt where each version changes a few lines
+ */
+export function generateHistory(versionCount: number, promptLines: number, editsPerVersion: number): string[] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+
+  const lines = Array.from({ length: promptLines }, (_, i) =>
+    i % 12 === 0
+      ? `## Section ${i / 12 + 1}`
+      : `- Rule ${i}: respond with care about topic ${Math.floor(random() * 1000)} and cite sources when asked.`
+  );
+  const history: string[] = [];
+
+  for (let v = 0; v < versionCount; v++) {
+    for (let e = 0; e < editsPerVersion; e++) {
+      const index = Math.floor(random() * lines.length);
+      if (random() < 0.2) {
+        lines.splice(index, 0, `- Added in revision ${v}: keep answers under ${Math.floor(random() * 500)} words.`);
+      } else {
+        lines[index] = `${lines[index]} (rev ${v})`;
+      }
+    }
+    history.push(lines.join('\n'));
+  }
+
+  return history;
+}
+
+/**
+ * Store a history in both formats as serialized records and time reading every version back
+ */
+export async function runStorageBenchmark(options: BenchmarkOptions = {}): Promise<BenchmarkResult> {
+  const { versionCount = 200, promptLines = 150, editsPerVersion = 3 } = options;
+  const history = generateHistory(versionCount, promptLines, editsPerVersion);
+  const ids = history.map((_, i) => `ver_${i}`);
+
+  // Full copies: every record holds the whole prompt
+  let start = performance.now();
+  const fullRecords = new Map(history.map((content, i) => [ids[i], JSON.stringify({ id: ids[i], content })]));
+  const fullEncodeMs = performance.now() - start;
+
+  start = performance.now();
+  for (const id of ids) {
+    const record = JSON.parse(fullRecords.get(id)!) as { content: string };
+    void record.content.length;
+  }
+  const fullLoadMs = performance.now() - start;
+
+  // Snapshots plus deltas, encoded oldest-first like the storage service
+  start = performance.now();
+  const deltaRecords = new Map<string, string>();
+  let base: { id: string; content: string; depth: number } | undefined;
+  history.forEach((content, i) => {
+    const encoded = encodeContent(content, base);
+    deltaRecords.set(ids[i], JSON.stringify({ id: ids[i], ...encoded }));
+    base = { id: ids[i], content, depth: encoded.depth };
+  });
+  const deltaEncodeMs = performance.now() - start;
+
+  start = performance.now();
+  const parsed = new Map<string, EncodedContent>();
+  const read = (id: string) => {
+    let record = parsed.get(id);
+    if (!record) {
+      const raw = deltaRecords.get(id);
+      if (!raw) return null;
+      record = JSON.parse(raw) as EncodedContent;
+      parsed.set(id, record);
+    }
+    return record;
+  };
+  const resolved = new Map<string, string>();
+  for (let i = 0; i < ids.length; i++) {
+    const content = await decodeContent(ids[i], read(ids[i])!, async (baseId) => read(baseId), resolved);
+    if (content !== history[i]) {
+      throw new Error(`Delta round-trip mismatch for version ${i}`);
+    }
+  }
+  const deltaLoadMs = performance.now() - start;
+
+  const size = (records: Map<string, string>) =>
+    [...records.values()].reduce((total, record) => total + record.length, 0);
+  const fullBytes = size(fullRecords);
+  const deltaBytes = size(deltaRecords);
+
+  return {
+    versionCount,
+    averageContentLength: Math.round(history.reduce((total, c) => total + c.length, 0) / history.length),
+    full: { storedBytes: fullBytes, encodeMs: fullEncodeMs, loadMs: fullLoadMs },
+    delta: { storedBytes: deltaBytes, encodeMs: deltaEncodeMs, loadMs: deltaLoadMs },
+    sizeRatio: deltaBytes / fullBytes,
+  };
+}
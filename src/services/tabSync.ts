@@ -0,0 +1,55 @@
+/**
+ * Tab Sync Service
+ * Lets editor tabs in the same browser tell each other about storage changes
+ * over a BroadcastChannel
+ */
+
+export type TabSyncMessage =
+  | { type: 'document-saved'; documentId: string; revision: number; tabId: string }
+  | { type: 'document-deleted'; documentId: string; tabId: string }
+  | { type: 'workspace-changed'; tabId: string }
+  | { type: 'encryption-changed'; tabId: string };
+
+type TabSyncListener = (message: TabSyncMessage) => void;
+
+// Distributes TabSyncMessage without the sender's tabId, which publish() adds
+type Outgoing<T> = T extends TabSyncMessage ? Omit<T, 'tabId'> : never;
+
+class TabSyncService {
+  readonly tabId = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<TabSyncListener>();
+
+  constructor() {
+    if (typeof BroadcastChannel === 'undefined') {
+      console.warn('BroadcastChannel unavailable, changes in other tabs will not be picked up');
+      return;
+    }
+
+    this.channel = new BroadcastChannel('markdown-prompt-editor');
+    this.channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+      if (event.data.tabId === this.tabId) return;
+      this.listeners.forEach(listener => listener(event.data));
+    };
+  }
+
+  /**
+   * Tell other tabs about a change made in this tab
+   */
+  publish(message: Outgoing<TabSyncMessage>): void {
+    this.channel?.postMessage({ ...message, tabId: this.tabId });
+  }
+
+  /**
+   * Listen for changes made in other tabs; returns an unsubscribe function
+   */
+  subscribe(listener: TabSyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Export singleton instance
+export const tabSync = new TabSyncService();
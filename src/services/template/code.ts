@@ -0,0 +1,82 @@
+/**
+ * Markdown Code
+ * Finds fenced code blocks and inline code spans, whose text the template
+ * engine leaves as written: prompts often show template or other brace syntax
+ * in code, and it should not be read as tags.
+ */
+
+export interface CodeRange {
+  start: number; // offsets in the source, the fences or backticks included
+  end: number;
+}
+
+// An opening or closing fence: three or more backticks or tildes, indented at most three spaces
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Fenced code blocks and inline code spans in `source`, in order. A block that
+ * is never closed runs to the end; backticks without a matching run are plain text.
+ */
+export function findCodeRanges(source: string): CodeRange[] {
+  const ranges: CodeRange[] = [];
+  let fence: { marker: string; start: number } | null = null;
+  let proseStart = 0;
+  let offset = 0;
+
+  for (const line of source.split('\n')) {
+    const lineEnd = offset + line.length;
+    const marker = FENCE_PATTERN.exec(line)?.[1];
+    if (fence) {
+      const closes = marker !== undefined
+        && marker[0] === fence.marker[0]
+        && marker.length >= fence.marker.length
+        && /^[ \t\r]*$/.test(line.slice(line.indexOf(marker) + marker.length));
+      if (closes) {
+        ranges.push({ start: fence.start, end: lineEnd });
+        fence = null;
+        proseStart = lineEnd;
+      }
+    } else if (marker && !(marker[0] === '`' && line.slice(line.indexOf(marker) + marker.length).includes('`'))) {
+      // A backtick fence cannot have backticks after it; such a line is inline code instead
+      ranges.push(...findInlineCode(source, proseStart, offset));
+      fence = { marker, start: offset };
+    }
+    offset = lineEnd + 1;
+  }
+
+  if (fence) {
+    ranges.push({ start: fence.start, end: source.length });
+  } else {
+    ranges.push(...findInlineCode(source, proseStart, source.length));
+  }
+  return ranges;
+}
+
+/**
+ * Inline code spans between `from` and `to`: a run of backticks up to the next
+ * run of the same length, within a paragraph
+ */
+function findInlineCode(source: string, from: number, to: number): CodeRange[] {
+  const ranges: CodeRange[] = [];
+  const opener = /`+/g;
+  opener.lastIndex = from;
+
+  for (let match = opener.exec(source); match && match.index < to; match = opener.exec(source)) {
+    const length = match[0].length;
+    const closer = new RegExp(`(?<!\`)\`{${length}}(?!\`)`, 'g');
+    closer.lastIndex = match.index + length;
+    const close = closer.exec(source);
+    if (close && close.index + length <= to && !source.slice(match.index, close.index).includes('\n\n')) {
+      ranges.push({ start: match.index, end: close.index + length });
+      opener.lastIndex = close.index + length;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * The code range `offset` falls in, if any
+ */
+export function codeRangeAt(ranges: CodeRange[], offset: number): CodeRange | undefined {
+  return ranges.find(range => offset >= range.start && offset < range.end);
+}
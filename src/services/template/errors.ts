@@ -0,0 +1,45 @@
+import type { SourcePosition } from './types';
+
+/**
+ * Thrown when a template cannot be parsed; points at the offending tag, and
+ * names the partial it is in when it was found in included text
+ */
+export class TemplateSyntaxError extends Error {
+  readonly reason: string; // the message without its location
+  readonly line: number;
+  readonly column: number;
+  readonly partial: string | null; // include tag of the partial, or null for the prompt itself
+
+  constructor(reason: string, position: SourcePosition, partial: string | null = null) {
+    const where = partial ? `in ${partial}, ` : '';
+    super(`${reason} (${where}line ${position.line}, column ${position.column})`);
+    this.name = 'TemplateSyntaxError';
+    this.reason = reason;
+    this.line = position.line;
+    this.column = position.column;
+    this.partial = partial;
+  }
+}
+
+/**
+ * Line and column of a character offset in `source`
+ */
+export function positionAt(source: string, offset: number): SourcePosition {
+  const before = source.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return {
+    line: before.split('\n').length,
+    column: offset - lineStart + 1,
+  };
+}
+
+/**
+ * Character offset of a line and column in `source`
+ */
+export function offsetAt(source: string, position: SourcePosition): number {
+  let lineStart = 0;
+  for (let line = 1; line < position.line; line++) {
+    lineStart = source.indexOf('\n', lineStart) + 1;
+  }
+  return lineStart + position.column - 1;
+}
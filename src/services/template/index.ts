@@ -0,0 +1,50 @@
+/**
+ * Prompt Templates
+ * Parses and renders `{{variable}}`, `{{#if}}` and `{{#each}}` templates and
+ * expands `{{> partial}}` includes.
+ * Plain TypeScript with no React or storage dependencies.
+ */
+
+import { parseTemplate } from './parser';
+import { renderNodes, listNodeVariables } from './renderer';
+import type { RenderResult, TemplateValues } from './types';
+
+export { parseTemplate, renderNodes, listNodeVariables };
+export { TemplateSyntaxError, offsetAt, positionAt } from './errors';
+export {
+  PartialCycleError,
+  expandPartials,
+  extractSection,
+  findPartialReferences,
+  formatPartialTag,
+  locateSyntaxError,
+  toPartialName,
+  toSectionSlug,
+} from './partials';
+export type { ExpansionSegment, PartialExpansion, PartialLoader, PartialReference } from './partials';
+export type {
+  EachNode,
+  IfNode,
+  PartialNode,
+  RenderResult,
+  SourcePosition,
+  TemplateNode,
+  TemplateReference,
+  TemplateValues,
+  TextNode,
+  VariableNode,
+} from './types';
+
+/**
+ * Parse and render a template; throws TemplateSyntaxError if it does not parse
+ */
+export function renderTemplate(source: string, values: TemplateValues): RenderResult {
+  return renderNodes(parseTemplate(source), values);
+}
+
+/**
+ * Prompt variables a template refers to, in order of first use; throws TemplateSyntaxError if it does not parse
+ */
+export function listTemplateVariables(source: string): string[] {
+  return listNodeVariables(parseTemplate(source));
+}
@@ -0,0 +1,234 @@
+/**
+ * Template Parser
+ *
+ * Grammar (whitespace inside tags is ignored):
+ *
+ *   template  := ( text | variable | if | each | partial )*
+ *   variable  := "{{" name "}}"
+ *   if        := "{{#if " name "}}" template [ "{{else}}" template ] "{{/if}}"
+ *   each      := "{{#each " name "}}" template [ "{{else}}" template ] "{{/each}}"
+ *   partial   := "{{>" partial-name [ "#" slug ] [ "@" slug ] "}}"
+ *   name      := [A-Za-z_][A-Za-z0-9_.-]* | "@index" | "@number" | "@first" | "@last"
+ *
+ * Names refer to prompt variables, except `this` / `this.field`, the current
+ * item of the innermost #each, and the @ names, its position (@number counts from 1).
+ * Partials are expanded before parsing (see partials.ts); any left are written out unchanged.
+ * `\{{` writes a literal `{{`, and fenced code blocks and inline code are
+ * written as they are, tags included (see code.ts). A block tag alone on its
+ * line takes the whole line with it, so blocks do not leave blank lines behind.
+ */
+
+import { codeRangeAt, findCodeRanges } from './code';
+import { TemplateSyntaxError, positionAt } from './errors';
+import type { EachNode, IfNode, SourcePosition, TemplateNode } from './types';
+
+const NAME_PATTERN = /^(?:[A-Za-z_][\w.-]*|@(?:index|number|first|last))$/;
+const PARTIAL_PATTERN = /^>\s*[A-Za-z0-9_][\w-]*(?:#[\w-]+)?(?:@[\w-]+)?$/;
+const BLOCKS = ['if', 'each'] as const;
+
+type BlockName = typeof BLOCKS[number];
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'variable'; name: string; position: SourcePosition }
+  | { kind: 'partial'; tag: string; position: SourcePosition }
+  | { kind: 'open'; block: BlockName; name: string; position: SourcePosition }
+  | { kind: 'else'; position: SourcePosition }
+  | { kind: 'close'; block: BlockName; position: SourcePosition };
+
+const isBlock = (word: string): word is BlockName => (BLOCKS as readonly string[]).includes(word);
+
+/**
+ * Parse a template into its syntax tree; throws TemplateSyntaxError on malformed tags or blocks
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: { node: IfNode | EachNode; inElse: boolean }[] = [];
+  const target = (): TemplateNode[] => {
+    const frame = open[open.length - 1];
+    if (!frame) return root;
+    if (frame.inElse) return frame.node.otherwise;
+    return frame.node.type === 'if' ? frame.node.then : frame.node.body;
+  };
+  const describe = (node: IfNode | EachNode) =>
+    `#${node.type} block opened at line ${node.position.line}, column ${node.position.column}`;
+
+  for (const token of tokenize(source)) {
+    switch (token.kind) {
+      case 'text': {
+        const nodes = target();
+        const last = nodes[nodes.length - 1];
+        if (last?.type === 'text') {
+          last.value += token.value;
+        } else {
+          nodes.push({ type: 'text', value: token.value });
+        }
+        break;
+      }
+      case 'variable':
+        target().push({ type: 'variable', name: token.name, position: token.position });
+        break;
+      case 'partial':
+        target().push({ type: 'partial', tag: token.tag, position: token.position });
+        break;
+      case 'open': {
+        const node: IfNode | EachNode = token.block === 'if'
+          ? { type: 'if', condition: token.name, then: [], otherwise: [], position: token.position }
+          : { type: 'each', source: token.name, body: [], otherwise: [], position: token.position };
+        target().push(node);
+        open.push({ node, inElse: false });
+        break;
+      }
+      case 'else': {
+        const frame = open[open.length - 1];
+        if (!frame) {
+          throw new TemplateSyntaxError('{{else}} must be inside an #if or #each block', token.position);
+        }
+        if (frame.inElse) {
+          throw new TemplateSyntaxError(`Second {{else}} in the ${describe(frame.node)}`, token.position);
+        }
+        frame.inElse = true;
+        break;
+      }
+      case 'close': {
+        const frame = open.pop();
+        if (!frame) {
+          throw new TemplateSyntaxError(`Unexpected {{/${token.block}}}: no block is open`, token.position);
+        }
+        if (frame.node.type !== token.block) {
+          throw new TemplateSyntaxError(`{{/${token.block}}} cannot close the ${describe(frame.node)}`, token.position);
+        }
+        break;
+      }
+    }
+  }
+
+  const unclosed = open.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(
+      `The #${unclosed.node.type} block is never closed; add {{/${unclosed.node.type}}}`,
+      unclosed.node.position
+    );
+  }
+
+  return root;
+}
+
+/**
+ * Split the source into text and tags, dropping the lines of standalone block tags
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const code = findCodeRanges(source);
+  let text = '';
+  let i = 0;
+
+  while (i < source.length) {
+    const tagStart = source.indexOf('{{', i);
+    if (tagStart === -1) {
+      text += source.slice(i);
+      break;
+    }
+
+    // Code is literal text, up to its end
+    const codeRange = codeRangeAt(code, tagStart);
+    if (codeRange) {
+      text += source.slice(i, codeRange.end);
+      i = codeRange.end;
+      continue;
+    }
+
+    // An escaped tag is literal text
+    if (tagStart > 0 && source[tagStart - 1] === '\\') {
+      text += `${source.slice(i, tagStart - 1)}{{`;
+      i = tagStart + 2;
+      continue;
+    }
+
+    text += source.slice(i, tagStart);
+    const position = positionAt(source, tagStart);
+    const tagEnd = source.indexOf('}}', tagStart + 2);
+    if (tagEnd === -1) {
+      throw new TemplateSyntaxError('Unclosed tag: "{{" without a matching "}}"', position);
+    }
+    const token = readTag(source.slice(tagStart + 2, tagEnd).trim(), position);
+    i = tagEnd + 2;
+
+    if (token.kind !== 'variable' && token.kind !== 'partial') {
+      const lineStart = source.lastIndexOf('\n', tagStart - 1) + 1;
+      const newline = source.indexOf('\n', i);
+      const lineEnd = newline === -1 ? source.length : newline;
+      const standalone = /^[ \t]*$/.test(source.slice(lineStart, tagStart))
+        && /^[ \t\r]*$/.test(source.slice(i, lineEnd));
+      if (standalone) {
+        text = text.replace(/[ \t]*$/, '');
+        i = newline === -1 ? source.length : newline + 1;
+      }
+    }
+
+    if (text) {
+      tokens.push({ kind: 'text', value: text });
+      text = '';
+    }
+    tokens.push(token);
+  }
+
+  if (text) {
+    tokens.push({ kind: 'text', value: text });
+  }
+  return tokens;
+}
+
+/**
+ * Classify the inside of a `{{...}}` tag
+ */
+function readTag(content: string, position: SourcePosition): Exclude<Token, { kind: 'text' }> {
+  if (!content) {
+    throw new TemplateSyntaxError('Empty tag "{{}}"', position);
+  }
+
+  if (content === 'else') {
+    return { kind: 'else', position };
+  }
+
+  if (content.startsWith('#')) {
+    const [block, ...rest] = content.slice(1).trim().split(/\s+/);
+    if (!isBlock(block)) {
+      throw new TemplateSyntaxError(`Unknown block "#${block}"; use #if or #each`, position);
+    }
+    if (rest.length === 0) {
+      throw new TemplateSyntaxError(
+        block === 'if' ? '{{#if}} needs a variable to test' : '{{#each}} needs a variable to loop over',
+        position
+      );
+    }
+    const name = rest.join(' ');
+    if (rest.length > 1 || !NAME_PATTERN.test(name)) {
+      throw new TemplateSyntaxError(`Invalid name "${name}" in {{#${block}}}`, position);
+    }
+    return { kind: 'open', block, name, position };
+  }
+
+  if (content.startsWith('>')) {
+    if (!PARTIAL_PATTERN.test(content)) {
+      throw new TemplateSyntaxError(`Invalid include "{{${content}}}"; write {{> name}}, {{> name#section}} or {{> name@version}}`, position);
+    }
+    return { kind: 'partial', tag: `{{${content}}}`, position };
+  }
+
+  if (content.startsWith('/')) {
+    const block = content.slice(1).trim();
+    if (!isBlock(block)) {
+      throw new TemplateSyntaxError(`Unknown closing tag "{{/${block}}}"; use {{/if}} or {{/each}}`, position);
+    }
+    return { kind: 'close', block, position };
+  }
+
+  if (!NAME_PATTERN.test(content)) {
+    throw new TemplateSyntaxError(
+      `Invalid variable "{{${content}}}"; names start with a letter or underscore (write \\{{ for literal braces)`,
+      position
+    );
+  }
+  return { kind: 'variable', name: content, position };
+}
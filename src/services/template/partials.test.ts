@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { PartialCycleError, TemplateSyntaxError, expandPartials, findPartialReferences, locateSyntaxError, parseTemplate } from '.';
+import type { PartialLoader } from '.';
+
+const prompts: Record<string, string> = {
+  greeting: 'Hello {{name}}!\n',
+  rules: '# Tone\nBe kind.\n\n# Format\nUse {{#if lists}}lists{{/if}}.\n',
+  broken: 'Intro\n  {{#each items}}{{this}}\n',
+  nested: 'Before {{> broken}} after',
+  loop: 'again {{> loop}}',
+  sections: '# One\nfine\n\n# Two\n{{else}}\n',
+};
+
+const load: PartialLoader = async ({ name }) => prompts[name] ?? null;
+
+// The syntax error parsing an expansion throws, located in its original text
+const locatedError = async (source: string): Promise<TemplateSyntaxError> => {
+  const expansion = await expandPartials(source, load);
+  try {
+    parseTemplate(expansion.source);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return locateSyntaxError(error, expansion.source, expansion.segments);
+    throw error;
+  }
+  throw new Error(`Expected ${JSON.stringify(source)} not to parse once expanded`);
+};
+
+describe('expandPartials', () => {
+  it('includes prompts and sections in place', async () => {
+    const { source, problems } = await expandPartials('{{> greeting}} Rules: {{> rules#format}}', load);
+
+    expect(source).toBe('Hello {{name}}! Rules: # Format\nUse {{#if lists}}lists{{/if}}.');
+    expect(problems).toEqual([]);
+  });
+
+  it('leaves escaped and missing includes as written', async () => {
+    const { source, problems } = await expandPartials('\\{{> greeting}} {{> nobody}} {{> rules#missing}}', load);
+
+    expect(source).toBe('\\{{> greeting}} {{> nobody}} {{> rules#missing}}');
+    expect(problems).toEqual([
+      '{{> nobody}} refers to a prompt or version that does not exist',
+      '{{> rules#missing}} refers to a section that does not exist',
+    ]);
+  });
+
+  it('leaves includes in code as written', async () => {
+    const { source, problems } = await expandPartials('`{{> greeting}}`\n```\n{{> nobody}}\n```\n{{> greeting}}', load);
+
+    expect(source).toBe('`{{> greeting}}`\n```\n{{> nobody}}\n```\nHello {{name}}!');
+    expect(problems).toEqual([]);
+    expect(findPartialReferences('`{{> greeting}}` {{> rules}}')).toEqual([{ name: 'rules' }]);
+  });
+
+  it('rejects partials that include themselves', async () => {
+    await expect(expandPartials('{{> loop}}', load)).rejects.toBeInstanceOf(PartialCycleError);
+    await expect(expandPartials('x', load, 'greeting')).resolves.toMatchObject({ source: 'x' });
+  });
+
+  it('maps every stretch of the expansion back to its source', async () => {
+    const { source, segments } = await expandPartials('A {{> greeting}} B', load);
+
+    expect(segments.map(s => [source.slice(s.start, s.end), s.partial])).toEqual([
+      ['A ', null],
+      ['Hello {{name}}!', '{{> greeting}}'],
+      [' B', null],
+    ]);
+  });
+});
+
+describe('locateSyntaxError', () => {
+  it('locates errors in the prompt itself', async () => {
+    const error = await locatedError('{{> greeting}}\n{{> greeting}}\nthen {{/if}}');
+
+    expect(error.partial).toBeNull();
+    expect({ line: error.line, column: error.column }).toEqual({ line: 3, column: 6 });
+  });
+
+  it('locates errors in a partial and names it', async () => {
+    const error = await locatedError('Line one\nSee {{> nested}}');
+
+    expect(error.partial).toBe('{{> broken}}');
+    expect({ line: error.line, column: error.column }).toEqual({ line: 2, column: 3 });
+    expect(error.message).toBe('The #each block is never closed; add {{/each}} (in {{> broken}}, line 2, column 3)');
+  });
+
+  it('counts lines of a section from the top of its prompt', async () => {
+    const error = await locatedError('{{> sections#two}}');
+
+    expect(error.partial).toBe('{{> sections#two}}');
+    expect({ line: error.line, column: error.column }).toEqual({ line: 5, column: 1 });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Template Partials
+ * `{{> name}}` includes the current content of the prompt with that name,
+ * `{{> name#section}}` only the section under a heading (matched by its slug)
+ * and `{{> name@pin}}` a version of it, by version ID or label.
+ * Includes are expanded in the source before it is parsed, so included text
+ * can use variables and blocks like the rest of the prompt. Includes written in
+ * code are left as they are, as the parser leaves code. The expansion
+ * records where its text came from, so syntax errors point into the prompt or
+ * partial that has them.
+ */
+
+import { splitSections } from '../../utils/diff';
+import { codeRangeAt, findCodeRanges } from './code';
+import { TemplateSyntaxError, offsetAt, positionAt } from './errors';
+
+// {{> name}}, {{> name#section}}, {{> name@pin}} or {{> name#section@pin}}; \{{ escapes
+const PARTIAL_PATTERN = /(\\?)\{\{>\s*([A-Za-z0-9_][\w-]*)(?:#([\w-]+))?(?:@([\w-]+))?\s*\}\}/g;
+
+export interface PartialReference {
+  name: string;
+  section?: string;
+  pin?: string; // version ID or label
+}
+
+/**
+ * A stretch of expanded source and where it was taken from
+ */
+export interface ExpansionSegment {
+  start: number; // offsets in the expanded source
+  end: number;
+  partial: string | null; // include tag of the partial, or null for the prompt itself
+  text: string; // the whole prompt or partial the stretch is from
+  offset: number; // where `start` falls in `text`
+}
+
+export interface PartialExpansion {
+  source: string;
+  problems: string[];
+  segments: ExpansionSegment[]; // in order, covering the expanded source
+}
+
+/**
+ * Resolves to a partial's content, or null when there is no such prompt or version
+ */
+export type PartialLoader = (reference: PartialReference) => Promise<string | null>;
+
+/**
+ * Thrown when partials include each other
+ */
+export class PartialCycleError extends Error {
+  readonly chain: string[]; // tags from the outermost include back to the repeated one
+
+  constructor(chain: string[]) {
+    super(`Partials include each other: ${chain.join(' → ')}`);
+    this.name = 'PartialCycleError';
+    this.chain = chain;
+  }
+}
+
+/**
+ * The include tag for a reference
+ */
+export function formatPartialTag(reference: PartialReference): string {
+  const section = reference.section ? `#${reference.section}` : '';
+  const pin = reference.pin ? `@${reference.pin}` : '';
+  return `{{> ${reference.name}${section}${pin}}}`;
+}
+
+/**
+ * Turn text into a name usable in `{{> name}}`, or '' if nothing usable is left
+ */
+export function toPartialName(text: string): string {
+  return text.trim().toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^\w-]/g, '')
+    .replace(/^-+/, '');
+}
+
+/**
+ * Slug of a heading, as used to pick a section
+ */
+export function toSectionSlug(heading: string): string {
+  return heading.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Every include in `source`, in order
+ */
+export function findPartialReferences(source: string): PartialReference[] {
+  const references: PartialReference[] = [];
+  const code = findCodeRanges(source);
+  for (const match of source.matchAll(PARTIAL_PATTERN)) {
+    if (!match[1] && !codeRangeAt(code, match.index)) references.push(toReference(match));
+  }
+  return references;
+}
+
+/**
+ * The section of markdown whose heading has the given slug, heading included
+ */
+export function extractSection(content: string, slug: string): string | null {
+  const section = splitSections(content).find(text => {
+    const heading = /^#{1,6}\s+(.*)/.exec(text)?.[1];
+    return heading !== undefined && toSectionSlug(heading) === slug;
+  });
+  return section ?? null;
+}
+
+/**
+ * Replace includes with the partials' content, recursively. Includes that
+ * cannot be resolved are left in place and described in `problems`.
+ * Throws PartialCycleError if partials include each other; pass the name of
+ * the prompt being expanded, if it has one, to catch it including itself.
+ */
+export async function expandPartials(
+  source: string,
+  load: PartialLoader,
+  name?: string
+): Promise<PartialExpansion> {
+  const problems = new Set<string>();
+  const loaded = new Map<string, Promise<string | null>>();
+
+  // `text` starts at `base` in `origin`, the prompt or partial it was taken from
+  const expand = async (
+    text: string,
+    chain: string[],
+    origin: { partial: string | null; text: string; base: number }
+  ): Promise<{ result: string; segments: ExpansionSegment[] }> => {
+    let result = '';
+    const segments: ExpansionSegment[] = [];
+    const copy = (from: number, to: number) => {
+      if (to === from) return;
+      segments.push({ start: result.length, end: result.length + to - from, partial: origin.partial, text: origin.text, offset: origin.base + from });
+      result += text.slice(from, to);
+    };
+
+    const code = findCodeRanges(text);
+    let last = 0;
+    for (const match of text.matchAll(PARTIAL_PATTERN)) {
+      const [tag, escaped] = match;
+      copy(last, match.index);
+      last = match.index + tag.length;
+      if (escaped || codeRangeAt(code, match.index)) {
+        copy(match.index, last);
+        continue;
+      }
+
+      const reference = toReference(match);
+      const key = formatPartialTag(reference);
+      if (chain.includes(key)) {
+        throw new PartialCycleError([...chain, key]);
+      }
+
+      // Each prompt (or version) is loaded once, however often it is included
+      const contentKey = formatPartialTag({ name: reference.name, pin: reference.pin });
+      if (!loaded.has(contentKey)) {
+        loaded.set(contentKey, load({ name: reference.name, pin: reference.pin }));
+      }
+      const content = await loaded.get(contentKey);
+      const included = content !== null && content !== undefined && reference.section
+        ? extractSection(content, reference.section)
+        : content;
+
+      if (included === null || included === undefined) {
+        problems.add(content === null || content === undefined
+          ? `${key} refers to a prompt or version that does not exist`
+          : `${key} refers to a section that does not exist`);
+        copy(match.index, last);
+        continue;
+      }
+
+      const inner = await expand(included, [...chain, key], { partial: key, text: content!, base: content!.indexOf(included) });
+      // The included text's final newline is dropped, so it sits in the line it is included in
+      const length = inner.result.replace(/\n$/, '').length;
+      for (const segment of inner.segments) {
+        if (segment.start >= length) break;
+        segments.push({ ...segment, start: result.length + segment.start, end: result.length + Math.min(segment.end, length) });
+      }
+      result += inner.result.slice(0, length);
+    }
+    copy(last, text.length);
+    return { result, segments };
+  };
+
+  const root = name ? [formatPartialTag({ name })] : [];
+  const { result, segments } = await expand(source, root, { partial: null, text: source, base: 0 });
+  return { source: result, problems: [...problems], segments };
+}
+
+/**
+ * A syntax error found in expanded source, located in the prompt or partial
+ * the offending text came from instead
+ */
+export function locateSyntaxError(error: TemplateSyntaxError, expanded: string, segments: ExpansionSegment[]): TemplateSyntaxError {
+  if (segments.length === 0) return error;
+  const offset = offsetAt(expanded, error);
+  const segment = segments.find(s => offset >= s.start && offset < s.end) ?? segments[segments.length - 1];
+  const position = positionAt(segment.text, segment.offset + Math.min(offset, segment.end) - segment.start);
+  return new TemplateSyntaxError(error.reason, position, segment.partial);
+}
+
+function toReference(match: RegExpExecArray | RegExpMatchArray): PartialReference {
+  const reference: PartialReference = { name: match[2] };
+  if (match[3]) reference.section = match[3];
+  if (match[4]) reference.pin = match[4];
+  return reference;
+}
@@ -0,0 +1,133 @@
+/**
+ * Template Renderer
+ * Writes a parsed template out with values; see parser.ts for what names mean
+ */
+
+import type { RenderResult, TemplateNode, TemplateReference, TemplateValues } from './types';
+
+// The #each loops enclosing a node, innermost first
+interface LoopScope {
+  item: unknown;
+  index: number;
+  count: number;
+  parent: LoopScope | null;
+}
+
+const FALSE_STRINGS = ['', 'false', '0', 'no'];
+
+/**
+ * Render a parsed template. Variables without a value are written as `{{name}}`
+ * and reported as unfilled; in #if they count as false and in #each as empty.
+ * #if also treats "false", "0", "no" and empty lists as false.
+ */
+export function renderNodes(nodes: TemplateNode[], values: TemplateValues): RenderResult {
+  const unfilled = new Set<TemplateReference>();
+
+  const render = (list: TemplateNode[], scope: LoopScope | null): string => list.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'partial':
+        return node.type === 'text' ? node.value : node.tag;
+      case 'variable': {
+        const value = resolve(node.name, values, scope);
+        if (value === undefined || value === null || value === '') {
+          unfilled.add(node.name);
+          return `{{${node.name}}}`;
+        }
+        return format(value);
+      }
+      case 'if':
+        return render(isTruthy(resolve(node.condition, values, scope)) ? node.then : node.otherwise, scope);
+      case 'each': {
+        const items = itemsOf(resolve(node.source, values, scope));
+        if (items.length === 0) {
+          return render(node.otherwise, scope);
+        }
+        return items
+          .map((item, index) => render(node.body, { item, index, count: items.length, parent: scope }))
+          .join('');
+      }
+    }
+  }).join('');
+
+  const text = render(nodes, null);
+  return { text, unfilled: [...unfilled] };
+}
+
+/**
+ * Prompt variables a template refers to, in order of first use
+ */
+export function listNodeVariables(nodes: TemplateNode[]): string[] {
+  const names = new Set<string>();
+  const add = (name: TemplateReference) => {
+    if (!isLoopReference(name)) names.add(name);
+  };
+  const visit = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === 'variable') {
+        add(node.name);
+      } else if (node.type === 'if') {
+        add(node.condition);
+        visit(node.then);
+        visit(node.otherwise);
+      } else if (node.type === 'each') {
+        add(node.source);
+        visit(node.body);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(nodes);
+  return [...names];
+}
+
+function isLoopReference(name: TemplateReference): boolean {
+  return name.startsWith('@') || name === 'this' || name.startsWith('this.');
+}
+
+function resolve(name: TemplateReference, values: TemplateValues, scope: LoopScope | null): unknown {
+  if (!isLoopReference(name)) {
+    return Object.hasOwn(values, name) ? values[name] : undefined;
+  }
+  // Outside any loop, `this` and the @ names have nothing to refer to
+  if (!scope) return undefined;
+
+  switch (name) {
+    case '@index':
+      return scope.index;
+    case '@number':
+      return scope.index + 1;
+    case '@first':
+      return scope.index === 0;
+    case '@last':
+      return scope.index === scope.count - 1;
+  }
+
+  let value = scope.item;
+  for (const key of name.split('.').slice(1)) {
+    if (typeof value !== 'object' || value === null || !Object.hasOwn(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return !FALSE_STRINGS.includes(value.trim().toLowerCase());
+  return Boolean(value);
+}
+
+// Arrays are looped over item by item, text line by line, and anything else once
+function itemsOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split('\n').filter(line => line.trim());
+  return isTruthy(value) ? [value] : [];
+}
+
+function format(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value, null, 2);
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateSyntaxError, listTemplateVariables, parseTemplate, renderTemplate } from '.';
+
+const syntaxError = (source: string): TemplateSyntaxError => {
+  try {
+    parseTemplate(source);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected ${JSON.stringify(source)} not to parse`);
+};
+
+describe('parseTemplate', () => {
+  it('builds nested blocks with positions', () => {
+    expect(parseTemplate('Hi {{name}}\n{{#if vip}}VIP{{else}}{{#each items}}{{this}}{{/each}}{{/if}}')).toEqual([
+      { type: 'text', value: 'Hi ' },
+      { type: 'variable', name: 'name', position: { line: 1, column: 4 } },
+      { type: 'text', value: '\n' },
+      {
+        type: 'if',
+        condition: 'vip',
+        then: [{ type: 'text', value: 'VIP' }],
+        otherwise: [{
+          type: 'each',
+          source: 'items',
+          body: [{ type: 'variable', name: 'this', position: { line: 2, column: 38 } }],
+          otherwise: [],
+          position: { line: 2, column: 23 },
+        }],
+        position: { line: 2, column: 1 },
+      },
+    ]);
+  });
+
+  it('reads an escaped tag as text', () => {
+    expect(renderTemplate('\\{{name}}', { name: 'x' }).text).toBe('{{name}}');
+  });
+
+  it('reads fenced and inline code as text, tags included', () => {
+    const source = 'Write `{{name}}` like so:\n\n~~~~handlebars\n{{#if a}} {{ broken\n```\n~~~~\n\nHi {{name}}, ``a ` {{`` and ` {{name}}';
+
+    expect(renderTemplate(source, { name: 'Ada' }).text).toBe(
+      'Write `{{name}}` like so:\n\n~~~~handlebars\n{{#if a}} {{ broken\n```\n~~~~\n\nHi Ada, ``a ` {{`` and ` Ada'
+    );
+    expect(listTemplateVariables('```\n{{hidden}}')).toEqual([]);
+  });
+
+  it.each([
+    ['{{#if a}}open', 'never closed', 1, 1],
+    ['text\n  {{/each}}', 'no block is open', 2, 3],
+    ['{{#if a}}{{/each}}', 'cannot close the', 1, 10],
+    ['{{#while a}}{{/while}}', 'Unknown block', 1, 1],
+    ['{{#if a}}x{{else}}y{{else}}z{{/if}}', 'Second {{else}}', 1, 20],
+    ['one\ntwo {{name', 'Unclosed tag', 2, 5],
+    ['{{}}', 'Empty tag', 1, 1],
+  ])('locates the error in %j', (source, message, line, column) => {
+    const error = syntaxError(source);
+
+    expect(error.message).toContain(message);
+    expect({ line: error.line, column: error.column }).toEqual({ line, column });
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills variables and reports the ones without a value', () => {
+    expect(renderTemplate('Dear {{name}}, re {{topic}}', { name: 'Ada', topic: '' })).toEqual({
+      text: 'Dear Ada, re {{topic}}',
+      unfilled: ['topic'],
+    });
+  });
+
+  it('treats false-like text and empty lists as false', () => {
+    const template = '{{#if flag}}yes{{else}}no{{/if}}';
+
+    expect(['true', 'false', '0', 'no', ''].map(flag => renderTemplate(template, { flag }).text))
+      .toEqual(['yes', 'no', 'no', 'no', 'no']);
+    expect(renderTemplate(template, { flag: [] }).text).toBe('no');
+  });
+
+  it('loops over lists, lines of text and nested fields', () => {
+    const template = '{{#each items}}{{@number}}. {{this.title}}{{#if @last}}.{{else}}, {{/if}}{{/each}}';
+
+    expect(renderTemplate(template, { items: [{ title: 'a' }, { title: 'b' }] }).text).toBe('1. a, 2. b.');
+    expect(renderTemplate('{{#each lines}}[{{this}}]{{/each}}', { lines: 'x\n\ny' }).text).toBe('[x][y]');
+    expect(renderTemplate('{{#each none}}x{{else}}empty{{/each}}', {}).text).toBe('empty');
+  });
+
+  it('drops the lines block tags stand on', () => {
+    expect(renderTemplate('a\n{{#if on}}\nb\n{{/if}}\nc', { on: true }).text).toBe('a\nb\nc');
+  });
+
+  it('writes includes that were not expanded back as written', () => {
+    expect(renderTemplate('Start {{> intro#greeting}} end', {}).text).toBe('Start {{> intro#greeting}} end');
+  });
+});
+
+describe('listTemplateVariables', () => {
+  it('lists prompt variables in order of first use, without loop names', () => {
+    expect(listTemplateVariables('{{b}} {{#each a}}{{this}}{{@index}}{{c}}{{/each}}{{#if b}}{{/if}}')).toEqual(['b', 'a', 'c']);
+  });
+});
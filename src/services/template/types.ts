@@ -0,0 +1,59 @@
+/**
+ * Template Syntax Tree
+ * What the parser produces and the renderer walks; see parser.ts for the grammar
+ */
+
+// 1-based position of a tag in the template source
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+// A name as written in a tag: a prompt variable (`customer_name`, `order.id`),
+// the current loop item (`this`, `this.input`) or a loop property (`@index`)
+export type TemplateReference = string;
+
+export interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+export interface VariableNode {
+  type: 'variable';
+  name: TemplateReference;
+  position: SourcePosition;
+}
+
+export interface IfNode {
+  type: 'if';
+  condition: TemplateReference;
+  then: TemplateNode[];
+  otherwise: TemplateNode[]; // after {{else}}
+  position: SourcePosition;
+}
+
+export interface EachNode {
+  type: 'each';
+  source: TemplateReference;
+  body: TemplateNode[];
+  otherwise: TemplateNode[]; // rendered when there is nothing to loop over
+  position: SourcePosition;
+}
+
+// An include that was not expanded (see partials.ts); rendered back as written
+export interface PartialNode {
+  type: 'partial';
+  tag: string;
+  position: SourcePosition;
+}
+
+export type TemplateNode = TextNode | VariableNode | IfNode | EachNode | PartialNode;
+
+// Values templates are rendered with, by variable name. Strings, numbers and
+// booleans are written out; arrays and objects come from JSON variables.
+export type TemplateValues = Record<string, unknown>;
+
+export interface RenderResult {
+  text: string;
+  unfilled: TemplateReference[]; // names written out as `{{name}}` for want of a value
+}
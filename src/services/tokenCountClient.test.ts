@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TokenCountClient } from './tokenCountClient';
+import { TOKENIZERS, describeTokenizer, formatTokenCount, isTokenizerId } from './tokenizers';
+import type { TokenCountRequest, TokenCountResponse } from './tokenizers';
+
+// Stands in for the token counter worker: records what it is sent and answers when told to
+class FakeWorker {
+  posted: TokenCountRequest[] = [];
+  terminated = false;
+  private listeners: Record<string, ((event: unknown) => void)[]> = {};
+
+  addEventListener(type: string, listener: (event: unknown) => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  postMessage(request: TokenCountRequest) {
+    this.posted.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(response: TokenCountResponse) {
+    this.listeners.message?.forEach(listener => listener({ data: response }));
+  }
+
+  fail(message: string) {
+    this.listeners.error?.forEach(listener => listener({ message }));
+  }
+}
+
+const startClient = (worker: FakeWorker | null) => {
+  const responses: TokenCountResponse[] = [];
+  const client = new TokenCountClient(response => responses.push(response), worker && (() => worker as unknown as Worker));
+  return { client, responses };
+};
+
+describe('TokenCountClient', () => {
+  it('only keeps the newest request waiting while the worker is busy', () => {
+    const worker = new FakeWorker();
+    const { client, responses } = startClient(worker);
+
+    client.count('estimate', 'a', '');
+    client.count('estimate', 'ab', '');
+    client.count('estimate', 'abc', '');
+    expect(worker.posted.map(request => request.content)).toEqual(['a']);
+
+    worker.respond({ id: 0, counts: { tokenizer: 'estimate', total: 1, selection: 0, sections: [] } });
+    expect(worker.posted.map(request => request.content)).toEqual(['a', 'abc']);
+    expect(responses).toHaveLength(1);
+  });
+
+  it('counts on the main thread when there is no worker', async () => {
+    const { client, responses } = startClient(null);
+
+    client.count('estimate', '# Tone\nBe kind.\n', 'Be kind.');
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(responses[0]).toEqual({
+      id: 0,
+      counts: { tokenizer: 'estimate', total: 4, selection: 2, sections: [{ heading: 'Tone', tokens: 4 }] },
+    });
+  });
+
+  it('counts on the main thread when the worker cannot start', async () => {
+    const responses: TokenCountResponse[] = [];
+    const client = new TokenCountClient(response => responses.push(response), () => {
+      throw new Error('Workers are blocked');
+    });
+
+    client.count('estimate', 'abcd', '');
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(responses[0]).toMatchObject({ counts: { total: 1 } });
+  });
+
+  it('recounts the newest request on the main thread once the worker fails, and counts there from then on', async () => {
+    const worker = new FakeWorker();
+    const { client, responses } = startClient(worker);
+
+    client.count('estimate', 'abcd', '');
+    client.count('estimate', 'abcdefgh', '');
+    worker.fail('Failed to load tokenizer');
+
+    expect(worker.terminated).toBe(true);
+    await vi.waitFor(() => expect(responses).toHaveLength(1));
+    expect(responses[0]).toMatchObject({ id: 1, counts: { total: 2 } });
+
+    client.count('estimate', 'abcdefghijkl', '');
+    await vi.waitFor(() => expect(responses).toHaveLength(2));
+    expect(responses[1]).toMatchObject({ id: 2, counts: { total: 3 } });
+    expect(worker.posted).toHaveLength(1);
+  });
+
+  it('counts with a real vocabulary on the main thread', async () => {
+    const { client, responses } = startClient(null);
+
+    client.count('cl100k_base', 'hello world', '');
+
+    await vi.waitFor(() => expect(responses).toHaveLength(1), { timeout: 10000 });
+    expect(responses[0]).toMatchObject({ counts: { tokenizer: 'cl100k_base', total: 2 } });
+  });
+
+  it('ignores responses older than the one already shown', () => {
+    const worker = new FakeWorker();
+    const { client, responses } = startClient(worker);
+    const counts = { tokenizer: 'estimate' as const, total: 1, selection: 0, sections: [] };
+
+    client.count('estimate', 'a', '');
+    client.count('estimate', 'b', '');
+    worker.respond({ id: 1, counts });
+    worker.respond({ id: 0, counts });
+
+    expect(responses.map(response => response.id)).toEqual([1]);
+  });
+
+  it('stops reporting once disposed', () => {
+    const worker = new FakeWorker();
+    const { client, responses } = startClient(worker);
+
+    client.count('estimate', 'a', '');
+    client.dispose();
+    worker.respond({ id: 0, error: 'late' });
+
+    expect(worker.terminated).toBe(true);
+    expect(responses).toEqual([]);
+  });
+});
+
+describe('tokenizer labels', () => {
+  it('names the model families each tokenizer counts for', () => {
+    expect(TOKENIZERS.find(t => t.id === 'o200k_base')?.models).toContain('GPT-4o');
+    expect(TOKENIZERS.find(t => t.id === 'cl100k_base')?.models).toContain('GPT-4');
+
+    const estimate = TOKENIZERS.find(t => t.id === 'estimate')!;
+    expect(estimate.label).toContain('Claude');
+    expect(estimate.models).toMatch(/Claude.*Gemini.*Llama/);
+  });
+
+  it('marks only estimated counts as approximate', () => {
+    expect(TOKENIZERS.filter(t => t.approximate).map(t => t.id)).toEqual(['estimate']);
+    expect(formatTokenCount('estimate', 1234)).toBe('~1,234');
+    expect(formatTokenCount('o200k_base', 1234)).toBe('1,234');
+  });
+
+  it('describes a tokenizer by the models it counts for', () => {
+    const [o200k] = TOKENIZERS;
+    const estimate = TOKENIZERS.find(t => t.id === 'estimate')!;
+
+    expect(describeTokenizer(o200k)).toBe(`Counted with o200k: ${o200k.models}`);
+    expect(describeTokenizer(estimate)).toBe(estimate.models);
+  });
+
+  it('recognizes saved tokenizer choices', () => {
+    expect(isTokenizerId('cl100k_base')).toBe(true);
+    expect(isTokenizerId('gpt2')).toBe(false);
+    expect(isTokenizerId(null)).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Token Count Client
+ * Sends counts to the token counter worker. While one count is running only
+ * the newest request waits for the worker, so fast typing never builds a
+ * backlog. Counts on the main thread if the worker cannot be started or fails,
+ * loading the tokenizers only then.
+ */
+
+import type { TokenCountRequest, TokenCountResponse, TokenizerId } from './tokenizers';
+
+export class TokenCountClient {
+  private onResponse: (response: TokenCountResponse) => void;
+  private worker: Worker | null = null;
+  private busy = false;
+  private running: TokenCountRequest | null = null;
+  private queued: TokenCountRequest | null = null;
+  private nextId = 0;
+  private shownId = -1;
+
+  /**
+   * @param createWorker starts the worker; without one every count runs on the main thread
+   */
+  constructor(onResponse: (response: TokenCountResponse) => void, createWorker: (() => Worker) | null) {
+    this.onResponse = onResponse;
+    if (!createWorker) return;
+
+    try {
+      this.worker = createWorker();
+    } catch (error) {
+      console.warn('Token counter worker could not start, counting on the main thread:', error);
+      return;
+    }
+
+    const worker = this.worker;
+    worker.addEventListener('message', (event: MessageEvent<TokenCountResponse>) => {
+      this.apply(event.data);
+      const queued = this.queued;
+      this.queued = null;
+      this.running = queued;
+      this.busy = queued !== null;
+      if (queued) worker.postMessage(queued);
+    });
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      console.warn('Token counter worker failed, counting on the main thread:', event.message);
+      worker.terminate();
+      this.worker = null;
+      // The newest request the worker was given is counted again here
+      const pending = this.queued ?? this.running;
+      this.queued = null;
+      this.running = null;
+      this.busy = false;
+      if (pending) this.countOnMainThread(pending);
+    });
+  }
+
+  count(tokenizer: TokenizerId, content: string, selection: string): void {
+    const request: TokenCountRequest = { id: this.nextId++, tokenizer, content, selection };
+    if (!this.worker) {
+      this.countOnMainThread(request);
+    } else if (this.busy) {
+      this.queued = request;
+    } else {
+      this.busy = true;
+      this.running = request;
+      this.worker.postMessage(request);
+    }
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.onResponse = () => {};
+  }
+
+  private countOnMainThread(request: TokenCountRequest): void {
+    const { id, tokenizer, content, selection } = request;
+    import('./tokenCounting')
+      .then(({ countTokens }) => countTokens(tokenizer, content, selection))
+      .then(counts => this.apply({ id, counts }))
+      .catch(error => this.apply({ id, error: error instanceof Error ? error.message : 'Failed to count tokens' }));
+  }
+
+  // Responses can arrive out of order once counting moves to the main thread
+  private apply(response: TokenCountResponse): void {
+    if (response.id < this.shownId) return;
+    this.shownId = response.id;
+    this.onResponse(response);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Token Counting
+ * Counts tokens with the tokenizers listed in tokenizers.ts. The vocabularies
+ * ship with the app and are only loaded the first time their tokenizer is used.
+ * Imported by the token counter worker; the main thread only loads it if the
+ * worker cannot run, so the tokenizer code is not part of the main bundle.
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import type { TiktokenBPE } from 'js-tiktoken/lite';
+import { splitSections } from '../utils/diff';
+import type { TokenCounts, TokenizerId } from './tokenizers';
+
+// Each vocabulary is a separate chunk, loaded on demand
+const VOCABULARIES: Record<Exclude<TokenizerId, 'estimate'>, () => Promise<TiktokenBPE>> = {
+  o200k_base: () => import('js-tiktoken/ranks/o200k_base').then(module => module.default),
+  cl100k_base: () => import('js-tiktoken/ranks/cl100k_base').then(module => module.default),
+  p50k_base: () => import('js-tiktoken/ranks/p50k_base').then(module => module.default),
+};
+
+const CHARACTERS_PER_TOKEN = 4;
+
+const counters = new Map<TokenizerId, Promise<(text: string) => number>>();
+
+/**
+ * A function counting the tokens of a text, loading the tokenizer's vocabulary on first use
+ */
+export function loadTokenCounter(tokenizer: TokenizerId): Promise<(text: string) => number> {
+  let counter = counters.get(tokenizer);
+  if (!counter) {
+    counter = tokenizer === 'estimate'
+      ? Promise.resolve((text: string) => Math.ceil(text.length / CHARACTERS_PER_TOKEN))
+      : VOCABULARIES[tokenizer]().then(ranks => {
+          const encoder = new Tiktoken(ranks);
+          // Special tokens such as <|endoftext|> in a prompt are counted as the plain text they are
+          return (text: string) => encoder.encode(text, [], []).length;
+        });
+    // A failed load can be retried
+    counter.catch(() => counters.delete(tokenizer));
+    counters.set(tokenizer, counter);
+  }
+  return counter;
+}
+
+/**
+ * Tokens in a document, its selected text and each of its markdown sections
+ */
+export async function countTokens(tokenizer: TokenizerId, content: string, selection = ''): Promise<TokenCounts> {
+  const count = await loadTokenCounter(tokenizer);
+  return {
+    tokenizer,
+    total: count(content),
+    selection: selection ? count(selection) : 0,
+    sections: splitSections(content).map(section => ({
+      heading: /^#{1,6}\s+(.*)/.exec(section)?.[1].trim() ?? '',
+      tokens: count(section),
+    })),
+  };
+}
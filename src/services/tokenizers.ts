@@ -0,0 +1,70 @@
+/**
+ * Tokenizers
+ * The tokenizers token counts can be made with, and the messages exchanged
+ * with the token counter worker. Only OpenAI publishes its vocabularies, so
+ * other model families get a character-based estimate, labelled as such.
+ * Counting itself lives in tokenCounting.ts.
+ */
+
+export type TokenizerId = 'o200k_base' | 'cl100k_base' | 'p50k_base' | 'estimate';
+
+export interface TokenizerInfo {
+  id: TokenizerId;
+  label: string;
+  models: string; // model families the tokenizer counts for
+  approximate?: boolean; // counts are estimates rather than the model's own tokens
+}
+
+export const TOKENIZERS: TokenizerInfo[] = [
+  { id: 'o200k_base', label: 'o200k', models: 'GPT-4o, GPT-4.1, o1, o3' },
+  { id: 'cl100k_base', label: 'cl100k', models: 'GPT-4, GPT-3.5 Turbo, text-embedding-3' },
+  { id: 'p50k_base', label: 'p50k', models: 'Codex, text-davinci-002/003' },
+  {
+    id: 'estimate',
+    label: 'Estimate (Claude, Gemini, Llama…)',
+    models: 'Claude, Gemini, Llama, Mistral and other models without a published tokenizer, estimated at about 4 characters per token',
+    approximate: true,
+  },
+];
+
+export interface SectionTokenCount {
+  heading: string; // '' for text before the first heading
+  tokens: number;
+}
+
+export interface TokenCounts {
+  tokenizer: TokenizerId;
+  total: number;
+  selection: number;
+  sections: SectionTokenCount[];
+}
+
+export interface TokenCountRequest {
+  id: number;
+  tokenizer: TokenizerId;
+  content: string;
+  selection: string;
+}
+
+export type TokenCountResponse =
+  | { id: number; counts: TokenCounts }
+  | { id: number; error: string };
+
+export function isTokenizerId(value: unknown): value is TokenizerId {
+  return TOKENIZERS.some(tokenizer => tokenizer.id === value);
+}
+
+/**
+ * Marks counts from an estimating tokenizer, so they are not taken for a model's own token count
+ */
+export function formatTokenCount(tokenizer: TokenizerId, count: number): string {
+  const info = TOKENIZERS.find(t => t.id === tokenizer);
+  return `${info?.approximate ? '~' : ''}${count.toLocaleString('en-US')}`;
+}
+
+/**
+ * The model families a tokenizer's counts are for
+ */
+export function describeTokenizer(tokenizer: TokenizerInfo): string {
+  return tokenizer.approximate ? tokenizer.models : `Counted with ${tokenizer.label}: ${tokenizer.models}`;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { canRedo, canUndo, createUndoHistory, isUndoHistory, recordUndo } from './undoHistory';
+import type { UndoHistory } from './undoHistory';
+import { UNDO_CONFIG } from '../config/features';
+
+const start = new Date('2024-06-10T12:00:00.000Z');
+const at = (ms: number) => new Date(start.getTime() + ms);
+
+const edit = (history: UndoHistory, content: string, ms: number) =>
+  recordUndo(history, { operation: 'edit', label: 'Typing', content }, at(ms));
+
+const contents = (history: UndoHistory) => history.entries.map(entry => entry.content);
+
+describe('recordUndo', () => {
+  it('groups typing with short pauses into one step', () => {
+    let history = createUndoHistory('', undefined, start);
+    history = edit(history, 'a', 100);
+    history = edit(history, 'ab', 100 + UNDO_CONFIG.TYPING_GROUP_MS - 1);
+    history = edit(history, 'abc', 100 + UNDO_CONFIG.TYPING_GROUP_MS * 3);
+
+    expect(contents(history)).toEqual(['', 'ab', 'abc']);
+    expect(history.position).toBe(2);
+  });
+
+  it('keeps other operations as steps of their own', () => {
+    let history = edit(createUndoHistory('', undefined, start), 'draft', 100);
+    history = recordUndo(history, { operation: 'clear', label: 'Clear', content: '' }, at(200));
+    history = edit(history, 'new', 300);
+
+    expect(history.entries.map(entry => entry.operation)).toEqual(['open', 'edit', 'clear', 'edit']);
+  });
+
+  it('does not record a step that changes nothing', () => {
+    const history = createUndoHistory('same', 'ver_1', start);
+
+    expect(recordUndo(history, { operation: 'restore', label: 'Restore', content: 'same', baseVersionId: 'ver_1' })).toBe(history);
+    expect(recordUndo(history, { operation: 'restore', label: 'Restore', content: 'same', baseVersionId: 'ver_2' })).not.toBe(history);
+  });
+
+  it('discards the steps that could be redone', () => {
+    let history = edit(createUndoHistory('', undefined, start), 'one', 100);
+    history = edit(history, 'two', 5000);
+    history = { ...history, position: 0 };
+    expect(canRedo(history)).toBe(true);
+
+    history = recordUndo(history, { operation: 'sample', label: 'Load sample', content: 'sample' }, at(9000));
+
+    expect(contents(history)).toEqual(['', 'sample']);
+    expect(canRedo(history)).toBe(false);
+    expect(canUndo(history)).toBe(true);
+  });
+
+  it('drops the oldest steps beyond the limit', () => {
+    let history = createUndoHistory('0', undefined, start);
+    for (let i = 1; i <= UNDO_CONFIG.MAX_ENTRIES + 5; i++) {
+      history = recordUndo(history, { operation: 'clear', label: 'Clear', content: String(i) }, at(i));
+    }
+
+    expect(history.entries).toHaveLength(UNDO_CONFIG.MAX_ENTRIES);
+    expect(history.entries[0].content).toBe('6');
+    expect(history.position).toBe(UNDO_CONFIG.MAX_ENTRIES - 1);
+  });
+});
+
+describe('isUndoHistory', () => {
+  it('accepts a recorded history', () => {
+    expect(isUndoHistory(edit(createUndoHistory('', undefined, start), 'a', 100))).toBe(true);
+  });
+
+  it.each([
+    ['null', null],
+    ['no entries', { entries: [], position: 0 }],
+    ['a position past the end', { entries: [{ content: '', label: 'Opened' }], position: 1 }],
+    ['a fractional position', { entries: [{ content: '', label: 'Opened' }], position: 0.5 }],
+    ['an entry without content', { entries: [{ label: 'Opened' }], position: 0 }],
+  ])('rejects %s', (_, value) => {
+    expect(isUndoHistory(value)).toBe(false);
+  });
+});
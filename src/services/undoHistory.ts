@@ -0,0 +1,82 @@
+/**
+ * Undo History
+ * An app-level list of editor states per document, so clearing, loading the
+ * sample or restoring a version can be undone, even after a reload
+ */
+
+import { UNDO_CONFIG } from '../config/features';
+
+export type UndoOperation = 'open' | 'edit' | 'clear' | 'sample' | 'restore';
+
+export interface UndoEntry {
+  operation: UndoOperation;
+  label: string;          // shown in the history list
+  content: string;        // content after the operation
+  baseVersionId?: string; // version the content was based on after the operation
+  createdAt: string;      // for grouped typing, when the last keystroke was recorded
+}
+
+export interface UndoHistory {
+  entries: UndoEntry[]; // oldest first
+  position: number;     // index of the entry the editor currently shows
+}
+
+/**
+ * A history with one step for the state a document was opened in
+ */
+export function createUndoHistory(content: string, baseVersionId?: string, now: Date = new Date()): UndoHistory {
+  return {
+    entries: [{ operation: 'open', label: 'Opened', content, baseVersionId, createdAt: now.toISOString() }],
+    position: 0,
+  };
+}
+
+/**
+ * Add a step after the current position, discarding any steps that could have
+ * been redone. Consecutive edits close together in time extend the same step,
+ * and a step that changes nothing is not recorded.
+ */
+export function recordUndo(
+  history: UndoHistory,
+  step: Omit<UndoEntry, 'createdAt'>,
+  now: Date = new Date()
+): UndoHistory {
+  const current = history.entries[history.position];
+  if (current && current.content === step.content && current.baseVersionId === step.baseVersionId) {
+    return history;
+  }
+
+  const entry: UndoEntry = { ...step, createdAt: now.toISOString() };
+  const isLatest = history.position === history.entries.length - 1;
+  const extendsTyping = current?.operation === 'edit' && step.operation === 'edit' && isLatest
+    && now.getTime() - new Date(current.createdAt).getTime() < UNDO_CONFIG.TYPING_GROUP_MS;
+  if (extendsTyping) {
+    return { entries: [...history.entries.slice(0, -1), entry], position: history.position };
+  }
+
+  const entries = [...history.entries.slice(0, history.position + 1), entry].slice(-UNDO_CONFIG.MAX_ENTRIES);
+  return { entries, position: entries.length - 1 };
+}
+
+export function canUndo(history: UndoHistory): boolean {
+  return history.position > 0;
+}
+
+export function canRedo(history: UndoHistory): boolean {
+  return history.position < history.entries.length - 1;
+}
+
+/**
+ * Whether a value read from storage is a usable undo history
+ */
+export function isUndoHistory(value: unknown): value is UndoHistory {
+  if (typeof value !== 'object' || value === null) return false;
+  const { entries, position } = value as Partial<UndoHistory>;
+  return Array.isArray(entries)
+    && entries.length > 0
+    && entries.every(entry => typeof entry?.content === 'string' && typeof entry.label === 'string')
+    && typeof position === 'number'
+    && Number.isInteger(position)
+    && position >= 0
+    && position < entries.length;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { applyDelta, createDelta, decodeContent, encodeContent } from './versionEncoding';
+import type { EncodedContent } from './versionEncoding';
+import { STORAGE_CONFIG } from '../config/features';
+
+const pairs: [string, string][] = [
+  ['', ''],
+  ['', 'new\ntext'],
+  ['old\ntext\n', ''],
+  ['a\nb\nc\n', 'a\nb\nc\n'],
+  ['a\nb\nc\n', 'a\nB\nc\nd\n'],
+  ['a\nb\nc', 'a\nb\nc\n'],
+  ['first\nsecond\nthird\n', 'zeroth\nfirst\nthird'],
+  ['\n\n\n', '\n\nx\n\n'],
+];
+
+describe('version encoding', () => {
+  it.each(pairs)('round-trips %j -> %j', (base, target) => {
+    expect(applyDelta(base, createDelta(base, target))).toBe(target);
+  });
+
+  it('decodes a chain of deltas back to every version', async () => {
+    const contents = Array.from({ length: 5 }, (_, i) =>
+      Array.from({ length: 40 }, (_, line) => `line ${line}${line === i * 7 ? ' (edited)' : ''}\n`).join(''));
+
+    const stored = new Map<string, EncodedContent>();
+    let base: { id: string; content: string; depth: number } | undefined;
+    contents.forEach((content, i) => {
+      const encoded = encodeContent(content, base);
+      stored.set(`v${i}`, encoded);
+      base = { id: `v${i}`, content, depth: encoded.depth };
+    });
+
+    expect(stored.get('v0')?.content).toBe(contents[0]);
+    expect(stored.get('v1')?.delta?.baseId).toBe('v0');
+
+    const lookup = async (id: string) => stored.get(id) ?? null;
+    for (const [i, content] of contents.entries()) {
+      expect(await decodeContent(`v${i}`, stored.get(`v${i}`)!, lookup)).toBe(content);
+    }
+  });
+
+  it('stores a full snapshot once the chain is long enough', () => {
+    const base = { id: 'base', content: 'a\n'.repeat(50), depth: STORAGE_CONFIG.SNAPSHOT_INTERVAL - 1 };
+
+    expect(encodeContent(`${base.content}b\n`, base)).toEqual({ content: `${base.content}b\n`, depth: 0 });
+  });
+
+  it('reports a delta whose base is missing', async () => {
+    const encoded: EncodedContent = { delta: { baseId: 'gone', ops: [[1, 'x']] }, depth: 1 };
+
+    await expect(decodeContent('v', encoded, async () => null)).rejects.toThrow('missing version gone');
+  });
+});
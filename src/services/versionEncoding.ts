@@ -0,0 +1,127 @@
+/**
+ * Version Content Encoding
+ * Stores version content as periodic full snapshots with line deltas in between
+ */
+
+import { diffSequences, splitLines } from '../utils/diff';
+import { STORAGE_CONFIG } from '../config/features';
+
+/**
+ * Line delta operations, applied in order against the base's lines
+ * - [0, n]: keep the next n lines
+ * - [-1, n]: drop the next n lines
+ * - [1, text]: insert text
+ */
+export type DeltaOp = [0, number] | [-1, number] | [1, string];
+
+export interface VersionDelta {
+  baseId: string;
+  ops: DeltaOp[];
+}
+
+/**
+ * Stored form of a version's content: either the full text or a delta
+ * against another version of the same document. `depth` counts the deltas
+ * between this version and the nearest full snapshot.
+ */
+export interface EncodedContent {
+  content?: string;
+  delta?: VersionDelta;
+  depth: number;
+}
+
+export interface EncodingBase {
+  id: string;
+  content: string;
+  depth: number;
+}
+
+/**
+ * Build the line delta that turns `base` into `target`
+ */
+export function createDelta(base: string, target: string): DeltaOp[] {
+  const ops: DeltaOp[] = [];
+  for (const op of diffSequences(splitLines(base), splitLines(target))) {
+    if (op.type === 'equal') ops.push([0, op.items.length]);
+    else if (op.type === 'delete') ops.push([-1, op.items.length]);
+    else ops.push([1, op.items.join('')]);
+  }
+  return ops;
+}
+
+/**
+ * Rebuild text from its base and a line delta
+ */
+export function applyDelta(base: string, ops: DeltaOp[]): string {
+  const lines = splitLines(base);
+  let position = 0;
+  let result = '';
+
+  for (const op of ops) {
+    if (op[0] === 0) {
+      result += lines.slice(position, position + op[1]).join('');
+      position += op[1];
+    } else if (op[0] === -1) {
+      position += op[1];
+    } else {
+      result += op[1];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Encode content as a delta against `base` when that is worthwhile, otherwise
+ * as a full snapshot. A snapshot is forced every SNAPSHOT_INTERVAL versions so
+ * rebuilding any version needs a bounded number of steps.
+ */
+export function encodeContent(content: string, base?: EncodingBase): EncodedContent {
+  if (!base || base.depth + 1 >= STORAGE_CONFIG.SNAPSHOT_INTERVAL) {
+    return { content, depth: 0 };
+  }
+
+  const ops = createDelta(base.content, content);
+  if (JSON.stringify(ops).length >= content.length) {
+    return { content, depth: 0 };
+  }
+
+  return { delta: { baseId: base.id, ops }, depth: base.depth + 1 };
+}
+
+/**
+ * Resolve the content of an encoded version, fetching bases as needed.
+ * Resolved content is memoized in `cache` (keyed by version ID) when given.
+ */
+export async function decodeContent(
+  id: string,
+  encoded: EncodedContent,
+  lookup: (baseId: string) => Promise<EncodedContent | null>,
+  cache: Map<string, string> = new Map(),
+  visiting: Set<string> = new Set()
+): Promise<string> {
+  const cached = cache.get(id);
+  if (cached !== undefined) {
+    return cached;
+  }
+  if (visiting.has(id)) {
+    throw new Error(`Version ${id} is part of a delta cycle`);
+  }
+  visiting.add(id);
+
+  let content: string;
+  if (encoded.content !== undefined) {
+    content = encoded.content;
+  } else if (encoded.delta) {
+    const base = await lookup(encoded.delta.baseId);
+    if (!base) {
+      throw new Error(`Version ${id} is stored as a delta of missing version ${encoded.delta.baseId}`);
+    }
+    content = applyDelta(await decodeContent(encoded.delta.baseId, base, lookup, cache, visiting), encoded.delta.ops);
+  } else {
+    throw new Error(`Version ${id} has no stored content`);
+  }
+
+  cache.set(id, content);
+  return content;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { BUNDLE_FORMAT, BundleError, applyImport, parseBundle, planImport } from './workspaceBundle';
+import type { WorkspaceBundle } from './workspaceBundle';
+import { versionStorage } from './storage';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import type { DocumentState, Version } from '../types/editor';
+
+const version = (id: string, content: string, parentId?: string): Version => ({
+  id,
+  createdAt: new Date().toISOString(),
+  content,
+  summary: content,
+  parentId,
+});
+
+const documentState = (id: string, versions: Version[]): DocumentState => ({
+  id,
+  content: versions[0]?.content ?? '',
+  versions,
+  updatedAt: new Date().toISOString(),
+  baseVersionId: versions[0]?.id,
+});
+
+const bundle = (documents: DocumentState[]): WorkspaceBundle => ({
+  manifest: {
+    format: BUNDLE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    documentCount: documents.length,
+    versionCount: documents.reduce((count, d) => count + d.versions.length, 0),
+  },
+  documents,
+});
+
+describe('parseBundle', () => {
+  it('reads back an exported bundle', () => {
+    const source = bundle([documentState('doc_parse', [version('ver_parse', 'text')])]);
+
+    expect(parseBundle(JSON.stringify(source))).toEqual(source);
+  });
+
+  it.each([
+    ['not json', 'File is not valid JSON'],
+    ['{"manifest":{},"documents":[]}', 'not a prompt workspace bundle'],
+    [JSON.stringify(bundle([documentState('same', []), documentState('same', [])])), 'same ID as an earlier document'],
+    [JSON.stringify(bundle([documentState('doc', [version('v', 'a'), version('v', 'b')])])), 'same version ID more than once'],
+  ])('rejects %s', (json, message) => {
+    expect(() => parseBundle(json)).toThrow(BundleError);
+    expect(() => parseBundle(json)).toThrow(message);
+  });
+});
+
+describe('planImport', () => {
+  it('gives fresh IDs to versions another document in the bundle already uses', async () => {
+    const first = documentState('doc_first', [version('ver_shared', 'first')]);
+    const second = documentState('doc_second', [version('ver_child', 'second', 'ver_shared'), version('ver_shared', 'base')]);
+
+    const plan = await planImport(bundle([first, second]), 'skip');
+    const [kept, renamed] = plan.items.map(item => item.document);
+
+    expect(kept.versions.map(v => v.id)).toEqual(['ver_shared']);
+    expect(plan.items[1].renamedVersionCount).toBe(1);
+    const renamedId = renamed.versions[1].id;
+    expect(renamedId).not.toBe('ver_shared');
+    // References to the renamed version follow it
+    expect(renamed.versions[0].parentId).toBe(renamedId);
+
+    await applyImport(plan);
+    expect((await versionStorage.loadDocument('doc_first'))?.versions.map(v => v.content)).toEqual(['first']);
+    expect((await versionStorage.loadDocument('doc_second'))?.versions.map(v => v.content)).toEqual(['second', 'base']);
+  });
+});
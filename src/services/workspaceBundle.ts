@@ -0,0 +1,284 @@
+/**
+ * Workspace Bundle Service
+ * Exports every document with its full version history as one portable JSON
+ * bundle, and plans/applies imports of such bundles with ID clash rules
+ */
+
+import type { DocumentState, LabelChange, VariableDefinition, VariableSet, Version } from '../types/editor';
+import { versionStorage } from './storage';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { generateDocumentId, generateVersionId } from '../utils/ids';
+import { renameDocumentVersions } from '../utils/versions';
+
+export const BUNDLE_FORMAT = 'markdown-prompt-editor-bundle';
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  documentCount: number;
+  versionCount: number;
+}
+
+export interface WorkspaceBundle {
+  manifest: BundleManifest;
+  documents: DocumentState[];
+}
+
+/**
+ * What to do when an imported document ID already exists
+ * - skip: keep the stored document, ignore the imported one
+ * - overwrite: replace the stored document and its history
+ * - keep-both: import under a new ID next to the stored document
+ */
+export type ImportStrategy = 'skip' | 'overwrite' | 'keep-both';
+
+export type ImportAction = 'create' | 'skip' | 'overwrite' | 'keep-both';
+
+export interface ImportPlanItem {
+  action: ImportAction;
+  sourceId: string;
+  targetId: string;
+  versionCount: number;
+  // Versions whose IDs were already used elsewhere and get fresh IDs
+  renamedVersionCount: number;
+  document: DocumentState;
+}
+
+export interface ImportPlan {
+  strategy: ImportStrategy;
+  manifest: BundleManifest;
+  items: ImportPlanItem[];
+  totals: Record<ImportAction, number>;
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+/**
+ * Collect every stored document into a bundle
+ */
+export async function exportWorkspace(): Promise<WorkspaceBundle> {
+  const documentIds = await versionStorage.getAllDocumentIds();
+  const documents: DocumentState[] = [];
+
+  for (const id of documentIds) {
+    const document = await versionStorage.loadDocument(id);
+    if (document) {
+      documents.push(document);
+    }
+  }
+
+  return {
+    manifest: {
+      format: BUNDLE_FORMAT,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      documentCount: documents.length,
+      versionCount: documents.reduce((total, doc) => total + doc.versions.length, 0),
+    },
+    documents,
+  };
+}
+
+/**
+ * Offer a bundle to the user as a downloadable .json file
+ */
+export function downloadBundle(bundle: WorkspaceBundle, filename?: string): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename ?? `prompts-${bundle.manifest.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse and validate bundle JSON, throwing a BundleError describing the first problem.
+ * Document IDs must be unique, as must version IDs within a document.
+ */
+export function parseBundle(json: string): WorkspaceBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new BundleError('File is not valid JSON');
+  }
+
+  if (!isRecord(data) || !isRecord(data.manifest) || !Array.isArray(data.documents)) {
+    throw new BundleError('File is not a prompt workspace bundle');
+  }
+
+  const manifest = data.manifest;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new BundleError('File is not a prompt workspace bundle');
+  }
+  if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BundleError(
+      `Bundle schema version ${String(manifest.schemaVersion)} is newer than this app supports (${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  const documentIds = new Set<string>();
+  data.documents.forEach((document, index) => {
+    if (!isDocumentState(document)) {
+      throw new BundleError(`Document #${index + 1} in the bundle is malformed`);
+    }
+    if (documentIds.has(document.id)) {
+      throw new BundleError(`Document #${index + 1} in the bundle has the same ID as an earlier document`);
+    }
+    documentIds.add(document.id);
+    // Versions refer to each other by ID, so a repeated one cannot be told apart
+    if (new Set(document.versions.map(v => v.id)).size !== document.versions.length) {
+      throw new BundleError(`Document #${index + 1} in the bundle lists the same version ID more than once`);
+    }
+  });
+
+  return data as unknown as WorkspaceBundle;
+}
+
+/**
+ * Work out what importing a bundle would change, without writing anything.
+ * Versions get fresh IDs when theirs is stored for another document or is
+ * used by a document earlier in the bundle.
+ */
+export async function planImport(bundle: WorkspaceBundle, strategy: ImportStrategy): Promise<ImportPlan> {
+  const existingDocumentIds = new Set(await versionStorage.getAllDocumentIds());
+  const existingVersionOwners = new Map<string, string>();
+
+  for (const id of existingDocumentIds) {
+    const document = await versionStorage.loadDocument(id);
+    document?.versions.forEach(v => existingVersionOwners.set(v.id, id));
+  }
+
+  // Version IDs taken by documents planned so far
+  const claimedVersionIds = new Set<string>();
+
+  const totals: Record<ImportAction, number> = { create: 0, skip: 0, overwrite: 0, 'keep-both': 0 };
+  const items: ImportPlanItem[] = bundle.documents.map((source) => {
+    const clashes = existingDocumentIds.has(source.id);
+    const action: ImportAction = clashes ? strategy : 'create';
+    const targetId = action === 'keep-both' ? generateDocumentId() : source.id;
+
+    const renames = new Map<string, string>();
+    source.versions.forEach(version => {
+      const owner = existingVersionOwners.get(version.id);
+      // A version ID may only be reused when it is replaced together with its own document
+      const mustRename = (owner !== undefined && !(action === 'overwrite' && owner === source.id))
+        || claimedVersionIds.has(version.id);
+      if (action === 'keep-both' || mustRename) {
+        renames.set(version.id, generateVersionId());
+      }
+    });
+    if (action !== 'skip') {
+      source.versions.forEach(version => claimedVersionIds.add(renames.get(version.id) ?? version.id));
+    }
+
+    totals[action]++;
+    return {
+      action,
+      sourceId: source.id,
+      targetId,
+      versionCount: source.versions.length,
+      renamedVersionCount: renames.size,
+      document: { ...renameDocumentVersions(source, renames), id: targetId },
+    };
+  });
+
+  return { strategy, manifest: bundle.manifest, items, totals };
+}
+
+/**
+ * Write a planned import to storage, returning the IDs of documents written
+ */
+export async function applyImport(plan: ImportPlan): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const item of plan.items) {
+    if (item.action === 'skip') {
+      continue;
+    }
+    if (item.action === 'overwrite') {
+      // Move the stored history to the trash first so no stale versions survive the replacement
+      await versionStorage.deleteDocument(item.targetId);
+    }
+    // A name already given to another prompt is left off rather than failing the import
+    const owner = item.document.name ? await versionStorage.findDocumentIdByName(item.document.name) : null;
+    const document = owner !== null && owner !== item.targetId ? { ...item.document, name: undefined } : item.document;
+    await versionStorage.saveDocument(document);
+    written.push(item.targetId);
+  }
+
+  return written;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isVersion(value: unknown): value is Version {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.content === 'string'
+    && typeof value.createdAt === 'string'
+    && typeof value.summary === 'string'
+    && (value.parentId === undefined || typeof value.parentId === 'string')
+    && (value.mergeParentId === undefined || typeof value.mergeParentId === 'string')
+    && (value.note === undefined || typeof value.note === 'string')
+    && (value.suggestedNote === undefined || typeof value.suggestedNote === 'string')
+    && (value.auto === undefined || typeof value.auto === 'boolean')
+    && (value.tags === undefined || isStringArray(value.tags))
+    && (value.labels === undefined || isStringArray(value.labels));
+}
+
+function isDocumentState(value: unknown): value is DocumentState {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && (value.name === undefined || typeof value.name === 'string')
+    && typeof value.content === 'string'
+    && typeof value.updatedAt === 'string'
+    && Array.isArray(value.versions)
+    && value.versions.every(isVersion)
+    && (value.labelHistory === undefined || (Array.isArray(value.labelHistory) && value.labelHistory.every(isLabelChange)))
+    && (value.variableSets === undefined || (Array.isArray(value.variableSets) && value.variableSets.every(isVariableSet)))
+    && (value.activeVariableSetId === undefined || typeof value.activeVariableSetId === 'string')
+    && (value.variableSchema === undefined || (Array.isArray(value.variableSchema) && value.variableSchema.every(isVariableDefinition)));
+}
+
+const VARIABLE_TYPES = ['string', 'number', 'enum', 'multiline', 'json'];
+
+function isVariableDefinition(value: unknown): value is VariableDefinition {
+  return isRecord(value)
+    && typeof value.name === 'string'
+    && typeof value.type === 'string'
+    && VARIABLE_TYPES.includes(value.type)
+    && (value.description === undefined || typeof value.description === 'string')
+    && (value.defaultValue === undefined || typeof value.defaultValue === 'string')
+    && (value.required === undefined || typeof value.required === 'boolean')
+    && (value.options === undefined || isStringArray(value.options));
+}
+
+function isVariableSet(value: unknown): value is VariableSet {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && isRecord(value.values)
+    && Object.values(value.values).every(item => typeof item === 'string');
+}
+
+function isLabelChange(value: unknown): value is LabelChange {
+  return isRecord(value)
+    && typeof value.label === 'string'
+    && (value.versionId === null || typeof value.versionId === 'string')
+    && (value.previousVersionId === null || typeof value.previousVersionId === 'string')
+    && typeof value.changedAt === 'string';
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
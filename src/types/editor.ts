@@ -75,16 +75,67 @@ export interface EditorState {
 export interface Version {
   id: string;
   createdAt: string;
-  name?: string;
+  name?: string; // only set when the user named the version
+  note?: string; // commit-style note on why the version exists, as the user wrote it
+  suggestedNote?: string; // generated from the sections that changed when no note was written
   content: string;
   summary: string;
+  pinned?: boolean; // pinned versions are never pruned
+  parentId?: string; // version the content was based on; unset for the first version of a branch
+  mergeParentId?: string; // second parent when the version merged another branch in
+  auto?: boolean; // taken by an automatic snapshot rather than saved by the user
+  tags?: string[]; // free-form tags; any number of versions can share one
+  labels?: string[]; // exclusive labels such as `production`; at most one version of a document holds each
+}
+
+// A label being put on, moved to or taken off a version
+export interface LabelChange {
+  label: string;
+  versionId: string | null; // null when the label was removed
+  previousVersionId: string | null; // null when the label was new to the document
+  // Display labels of both versions at the time, so the history still reads once they are gone
+  versionName?: string;
+  previousVersionName?: string;
+  changedAt: string;
 }
 
 export interface DocumentState {
   id: string;
+  name?: string; // unique; other prompts include this one as {{> name}}
   content: string;
   versions: Version[];
   updatedAt: string;
+  revision?: number; // storage revision this state was read at
+  baseVersionId?: string; // version the current content was last saved as or loaded from
+  labelHistory?: LabelChange[]; // oldest first
+  variableSets?: VariableSet[]; // saved test inputs for the prompt's {{variables}}
+  activeVariableSetId?: string; // set whose values fill the preview
+  variableSchema?: VariableDefinition[]; // declared variables, in the order they are listed
+}
+
+export type VariableType = 'string' | 'number' | 'enum' | 'multiline' | 'json';
+
+// Declaration of a template variable: what values it takes and whether it must have one
+export interface VariableDefinition {
+  name: string;
+  type: VariableType;
+  description?: string;
+  defaultValue?: string; // used when a set has no value for the variable
+  required?: boolean;
+  options?: string[]; // allowed values of an enum
+}
+
+// A mismatch between the variables a prompt uses and those it declares
+export interface VariableWarning {
+  variable: string;
+  kind: 'undeclared' | 'unused';
+}
+
+// A named set of values for a prompt's template variables
+export interface VariableSet {
+  id: string;
+  name: string;
+  values: Record<string, string>; // by variable name; variables without a value stay unfilled
 }
 
 // Component Props Types
@@ -100,12 +151,19 @@ export interface EditorComponentProps extends BaseComponentProps {
   onStateChange?: (state: EditorState) => void;
   initialContent?: string;
   onSaveVersion?: () => void;
+  onUndo?: () => void; // replaces the textarea's native undo when set
+  onRedo?: () => void;
+  variableWarnings?: VariableWarning[]; // shown as badges in the header
+  onSelectionChange?: (selectedText: string) => void;
 }
 
 export interface PreviewComponentProps extends BaseComponentProps {
   config?: PreviewConfig;
   content: string;
   className?: string;
+  variableValues?: Record<string, string>; // when set, the preview can show the prompt filled in
+  variableSchema?: VariableDefinition[]; // defaults and checks applied when filling in
+  partialProblems?: string[]; // {{> partial}} includes that could not be expanded, and why
 }
 
 export interface SplitViewProps extends BaseComponentProps {
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { blameLines } from './blame';
+import { VersionStorageService } from '../services/storage';
+import { MemoryBackend } from '../services/backends';
+import type { Version } from '../types/editor';
+
+const version = (id: string, hour: number, lines: string[], extra: Partial<Version> = {}): Version => ({
+  id,
+  createdAt: `2024-06-10T${String(hour).padStart(2, '0')}:00:00.000Z`,
+  content: `${lines.join('\n')}\n`,
+  summary: id,
+  ...extra,
+});
+
+const owners = (versions: Version[], base: Version | null, content: string) =>
+  blameLines(versions, base, content).map(line => [line.text, line.versionId]);
+
+describe('blameLines', () => {
+  it('leaves every line unattributed before the first version', () => {
+    expect(owners([], null, 'one\ntwo')).toEqual([['one', null], ['two', null]]);
+  });
+
+  it('follows unchanged lines back to the version that wrote them', () => {
+    const v1 = version('v1', 1, ['a', 'b', 'c']);
+    const v2 = version('v2', 2, ['a', 'B', 'c'], { parentId: 'v1' });
+    const v3 = version('v3', 3, ['a', 'B', 'c', 'd'], { parentId: 'v2' });
+    const versions = [v3, v2, v1];
+
+    expect(owners(versions, v3, `${v3.content}unsaved`)).toEqual([
+      ['a', 'v1'],
+      ['B', 'v2'],
+      ['c', 'v1'],
+      ['d', 'v3'],
+      ['unsaved', null],
+    ]);
+  });
+
+  it('does not count a missing final newline or CRLF line endings as a change', () => {
+    const v1 = version('v1', 1, ['a', 'b']);
+
+    expect(owners([v1], v1, 'a\nb')).toEqual([['a', 'v1'], ['b', 'v1']]);
+    expect(owners([v1], v1, 'a\r\nb\r\n')).toEqual([['a', 'v1'], ['b', 'v1']]);
+  });
+
+  it('follows the lines a merge brought in into the merged branch', () => {
+    const v1 = version('v1', 1, ['# Prompt', 'Be kind.']);
+    const branch = version('branch', 2, ['# Prompt', 'Be kind.', 'Use lists.'], { parentId: 'v1' });
+    const main = version('main', 3, ['# Better prompt', 'Be kind.'], { parentId: 'v1' });
+    const merge = version('merge', 4, ['# Better prompt', 'Be kind.', 'Use lists.', 'Resolved here.'], {
+      parentId: 'main',
+      mergeParentId: 'branch',
+    });
+    const versions = [merge, main, branch, v1];
+
+    expect(owners(versions, merge, merge.content)).toEqual([
+      ['# Better prompt', 'main'],
+      ['Be kind.', 'v1'],
+      ['Use lists.', 'branch'],
+      ['Resolved here.', 'merge'],
+    ]);
+  });
+
+  it('falls back to the next older version for versions saved without a parent', () => {
+    const v1 = version('v1', 1, ['a']);
+    const v2 = version('v2', 2, ['a', 'b']);
+
+    expect(owners([v2, v1], v2, v2.content)).toEqual([['a', 'v1'], ['b', 'v2']]);
+  });
+
+  it('blames versions read back from their stored deltas like the versions that were saved', async () => {
+    const body = Array.from({ length: 20 }, (_, i) => `Rule ${i + 1}: keep answers short.`);
+    const v1 = version('ver_blame_1', 1, body);
+    const v2 = version('ver_blame_2', 2, [...body.slice(0, 5), 'Rule 6: cite sources.', ...body.slice(6)], { parentId: 'ver_blame_1' });
+    const v3 = version('ver_blame_3', 3, [...v2.content.trimEnd().split('\n'), 'Rule 21: be kind.'], { parentId: 'ver_blame_2' });
+    const versions = [v3, v2, v1];
+
+    const backend = new MemoryBackend();
+    const storage = new VersionStorageService(backend);
+    await storage.saveDocument({ id: 'doc_blame', content: v3.content, versions, updatedAt: v3.createdAt, baseVersionId: v3.id });
+    expect(await backend.getItem('version:ver_blame_3')).toHaveProperty('delta');
+
+    const loaded = (await new VersionStorageService(backend).loadDocument('doc_blame'))!;
+    const base = loaded.versions.find(v => v.id === loaded.baseVersionId)!;
+    const blame = owners(loaded.versions, base, loaded.content);
+
+    expect(blame).toEqual(owners(versions, v3, v3.content));
+    expect(blame[5]).toEqual(['Rule 6: cite sources.', 'ver_blame_2']);
+    expect(blame[20]).toEqual(['Rule 21: be kind.', 'ver_blame_3']);
+    expect(blame.filter(([, versionId]) => versionId === 'ver_blame_1')).toHaveLength(19);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Line Blame
+ * Attributes each line of a text to the version that last changed it, by
+ * walking back through version parents and following unchanged lines
+ */
+
+import type { Version } from '../types/editor';
+import { diffSequences, splitLines } from './diff';
+import { findPreviousVersion } from './versions';
+
+export interface BlameLine {
+  text: string; // without its line break
+  versionId: string | null; // null when the line only exists in unsaved content
+}
+
+// A line of the blamed text, tracked at its position in some older version
+interface PendingLine {
+  line: number; // index in the blamed text
+  position: number; // index in the version being examined
+}
+
+/**
+ * Blame `content`, which was edited on top of `base` (null when it has no versions yet).
+ * Lines a merge brought in are followed into the merged branch.
+ */
+export function blameLines(versions: Version[], base: Version | null, content: string): BlameLine[] {
+  const lines = toLines(content);
+  const blame: BlameLine[] = lines.map(text => ({ text, versionId: null }));
+  if (!base) return blame;
+
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const pending = new Map<string, PendingLine[]>();
+  const carry = (version: Version, entries: PendingLine[]) => {
+    if (entries.length > 0) pending.set(version.id, [...(pending.get(version.id) ?? []), ...entries]);
+  };
+
+  // Lines of the unsaved content that are unchanged from the base are the base's to explain
+  const { kept } = followLines(lines, toLines(base.content), lines.map((_, i) => ({ line: i, position: i })));
+  carry(base, kept);
+
+  // Parents are older than their children, so newest first settles every child before its parent
+  const ordered = [...versions].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  for (const version of ordered) {
+    let entries = pending.get(version.id);
+    if (!entries) continue;
+    pending.delete(version.id);
+    const versionLines = toLines(version.content);
+
+    const parent = findPreviousVersion(versions, version);
+    if (parent) {
+      const followed = followLines(versionLines, toLines(parent.content), entries);
+      carry(parent, followed.kept);
+      entries = followed.changed;
+    }
+
+    const mergeParent = version.mergeParentId !== undefined ? byId.get(version.mergeParentId) : undefined;
+    if (mergeParent && entries.length > 0) {
+      const followed = followLines(versionLines, toLines(mergeParent.content), entries);
+      carry(mergeParent, followed.kept);
+      entries = followed.changed;
+    }
+
+    entries.forEach(entry => {
+      blame[entry.line].versionId = version.id;
+    });
+  }
+
+  // Only reached when a parent claims to be newer than its child; stop there
+  pending.forEach((entries, versionId) => {
+    entries.forEach(entry => {
+      blame[entry.line].versionId = versionId;
+    });
+  });
+
+  return blame;
+}
+
+// Lines without their breaks, so a missing final newline does not count as a change
+function toLines(text: string): string[] {
+  return splitLines(text).map(line => line.replace(/\r?\n$/, ''));
+}
+
+/**
+ * Split tracked lines of `current` into those unchanged in `older` (moved to
+ * their position there) and those `current` added or changed
+ */
+function followLines(current: string[], older: string[], entries: PendingLine[]): { kept: PendingLine[]; changed: PendingLine[] } {
+  const olderPosition = new Map<number, number>();
+  let a = 0;
+  let b = 0;
+  for (const op of diffSequences(older, current)) {
+    if (op.type === 'equal') {
+      op.items.forEach((_, i) => olderPosition.set(b + i, a + i));
+    }
+    if (op.type !== 'insert') a += op.items.length;
+    if (op.type !== 'delete') b += op.items.length;
+  }
+
+  const kept: PendingLine[] = [];
+  const changed: PendingLine[] = [];
+  for (const entry of entries) {
+    const position = olderPosition.get(entry.position);
+    if (position === undefined) {
+      changed.push(entry);
+    } else {
+      kept.push({ line: entry.line, position });
+    }
+  }
+  return { kept, changed };
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { diffSequences, diffText, pairRows, splitLines, splitSections, summarizeDiff, summarizeSectionChanges } from './diff';
+import type { DiffOp } from './diff';
+
+// The two sides a diff was computed from, rebuilt from its operations
+const sides = <T>(ops: DiffOp<T>[]) => ({
+  before: ops.filter(op => op.type !== 'insert').flatMap(op => op.items),
+  after: ops.filter(op => op.type !== 'delete').flatMap(op => op.items),
+});
+
+const editCount = <T>(ops: DiffOp<T>[]) =>
+  ops.filter(op => op.type !== 'equal').reduce((count, op) => count + op.items.length, 0);
+
+describe('diffSequences', () => {
+  it('handles empty input', () => {
+    expect(diffSequences([], [])).toEqual([]);
+    expect(diffSequences([], ['a'])).toEqual([{ type: 'insert', items: ['a'] }]);
+    expect(diffSequences(['a'], [])).toEqual([{ type: 'delete', items: ['a'] }]);
+  });
+
+  it('returns one equal run for identical input', () => {
+    expect(diffSequences(['a', 'b', 'c'], ['a', 'b', 'c'])).toEqual([{ type: 'equal', items: ['a', 'b', 'c'] }]);
+  });
+
+  it('finds the shortest edit script and merges runs of the same type', () => {
+    const a = [...'abcabba'];
+    const b = [...'cbabac'];
+
+    const ops = diffSequences(a, b);
+
+    expect(sides(ops)).toEqual({ before: a, after: b });
+    expect(editCount(ops)).toBe(5);
+    expect(ops.every((op, i) => i === 0 || op.type !== ops[i - 1].type)).toBe(true);
+  });
+
+  it('keeps a common prefix and suffix around the change', () => {
+    expect(diffSequences(['x', 'a', 'y'], ['x', 'b', 'y'])).toEqual([
+      { type: 'equal', items: ['x'] },
+      { type: 'delete', items: ['a'] },
+      { type: 'insert', items: ['b'] },
+      { type: 'equal', items: ['y'] },
+    ]);
+  });
+
+  it('compares items with the given equality', () => {
+    const ops = diffSequences(['A', 'b'], ['a', 'B'], (x, y) => x.toLowerCase() === y.toLowerCase());
+
+    expect(ops).toEqual([{ type: 'equal', items: ['A', 'b'] }]);
+  });
+
+  it('replaces everything once the edit distance is too large to search', () => {
+    const a = Array.from({ length: 3000 }, (_, i) => `a${i}`);
+    const b = Array.from({ length: 3000 }, (_, i) => `b${i}`);
+
+    const ops = diffSequences(a, b);
+
+    expect(sides(ops)).toEqual({ before: a, after: b });
+  });
+});
+
+describe('splitLines', () => {
+  it.each([
+    ['', []],
+    ['one', ['one']],
+    ['one\ntwo', ['one\n', 'two']],
+    ['one\ntwo\n', ['one\n', 'two\n']],
+    ['one\r\ntwo\r\n', ['one\r\n', 'two\r\n']],
+    ['\n\n', ['\n', '\n']],
+  ])('splits %j so the lines join back into it', (text, lines) => {
+    expect(splitLines(text)).toEqual(lines);
+    expect(splitLines(text).join('')).toBe(text);
+  });
+});
+
+describe('diffText', () => {
+  it('sees a missing trailing newline as a change to the last line', () => {
+    expect(diffText('one\ntwo', 'one\ntwo\n', 'line')).toEqual([
+      { type: 'equal', items: ['one\n'] },
+      { type: 'delete', items: ['two'] },
+      { type: 'insert', items: ['two\n'] },
+    ]);
+  });
+
+  it('sees every line as changed when only the line endings differ', () => {
+    const ops = diffText('one\ntwo\n', 'one\r\ntwo\r\n', 'line');
+
+    expect(summarizeDiff(ops)).toEqual({ added: 2, removed: 2 });
+  });
+
+  it('diffs CRLF text line by line like LF text', () => {
+    const ops = diffText('one\r\ntwo\r\nthree\r\n', 'one\r\n2\r\nthree\r\n', 'line');
+
+    expect(pairRows(ops)).toEqual([
+      { type: 'equal', before: 'one\r\n', after: 'one\r\n' },
+      { type: 'change', before: 'two\r\n', after: '2\r\n' },
+      { type: 'equal', before: 'three\r\n', after: 'three\r\n' },
+    ]);
+  });
+
+  it('counts words without the whitespace between them', () => {
+    expect(summarizeDiff(diffText('be kind', 'be very kind', 'word'))).toEqual({ added: 1, removed: 0 });
+  });
+});
+
+describe('splitSections', () => {
+  it('returns nothing for empty text and one section without headings', () => {
+    expect(splitSections('')).toEqual([]);
+    expect(splitSections('Just text\nand more')).toEqual(['Just text\nand more']);
+  });
+
+  it('starts a section at each heading, keeping text before the first', () => {
+    const text = 'Intro\n# One\nfirst\n## Two\nsecond';
+
+    expect(splitSections(text)).toEqual(['Intro\n', '# One\nfirst\n', '## Two\nsecond']);
+  });
+
+  it('ignores headings in code fences', () => {
+    const text = '# One\n```\n# not a heading\n```\n# Two\n';
+
+    expect(splitSections(text)).toEqual(['# One\n```\n# not a heading\n```\n', '# Two\n']);
+  });
+
+  it('splits CRLF text the same way and joins back into it', () => {
+    const text = '# One\r\nfirst\r\n# Two\r\nsecond';
+
+    expect(splitSections(text)).toEqual(['# One\r\nfirst\r\n', '# Two\r\nsecond']);
+    expect(splitSections(text).join('')).toBe(text);
+  });
+});
+
+describe('summarizeSectionChanges', () => {
+  it('matches sections by heading, with CRLF headings read like LF ones', () => {
+    const before = '# Tone\nBe kind.\n# Format\nUse lists.\n# Old\ngone\n';
+    const after = '# Tone\r\nBe kind.\r\n# Format\r\nUse tables.\r\n# New\r\nhere\r\n';
+
+    expect(summarizeSectionChanges(before, after)).toEqual([
+      { heading: 'Format', type: 'modified' },
+      { heading: 'New', type: 'added' },
+      { heading: 'Old', type: 'removed' },
+    ]);
+  });
+
+  it('reports nothing for identical or empty text', () => {
+    expect(summarizeSectionChanges('', '')).toEqual([]);
+    expect(summarizeSectionChanges('# A\nsame\n', '# A\nsame\n')).toEqual([]);
+  });
+});
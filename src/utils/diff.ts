@@ -0,0 +1,261 @@
+/**
+ * Sequence Diff Utilities
+ * Myers O(ND) diff over arbitrary token sequences, plus helpers to tokenize text
+ * and to shape text diffs for display
+ */
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export type DiffGranularity = 'line' | 'word' | 'section';
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  items: T[];
+}
+
+// Beyond this many edits the diff falls back to replacing everything
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Compute the shortest edit script turning `a` into `b`.
+ * Consecutive operations of the same type are merged.
+ */
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = Object.is): DiffOp<T>[] {
+  // Trim the common prefix and suffix, which keeps typical edits cheap
+  let start = 0;
+  while (start < a.length && start < b.length && equals(a[start], b[start])) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && equals(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp<T>[] = [];
+  push(ops, 'equal', a.slice(0, start));
+  for (const op of myers(a.slice(start, endA), b.slice(start, endB), equals)) {
+    push(ops, op.type, op.items);
+  }
+  push(ops, 'equal', a.slice(endA));
+  return ops;
+}
+
+/**
+ * Split text into lines, keeping each line's terminating newline so that
+ * joining the lines restores the text exactly
+ */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Split text into words and the whitespace/punctuation between them
+ */
+export function splitWords(text: string): string[] {
+  return text.match(/\w+|\s+|[^\w\s]/g) ?? [];
+}
+
+/**
+ * Split markdown into sections, each starting at a heading. Text before the
+ * first heading is its own section; headings inside code fences are ignored.
+ */
+export function splitSections(text: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  let inFence = false;
+  for (const line of splitLines(text)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence && /^#{1,6}\s/.test(line) && current) {
+      sections.push(current);
+      current = '';
+    }
+    current += line;
+  }
+  if (current) sections.push(current);
+  return sections;
+}
+
+/**
+ * Diff two texts at the given granularity
+ */
+export function diffText(before: string, after: string, granularity: DiffGranularity): DiffOp<string>[] {
+  const split = granularity === 'word' ? splitWords : granularity === 'section' ? splitSections : splitLines;
+  return diffSequences(split(before), split(after));
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+}
+
+export interface SectionChange {
+  heading: string; // heading text, or '' for the text before the first heading
+  type: 'added' | 'removed' | 'modified';
+}
+
+/**
+ * Which markdown sections were added, removed or edited, matching sections by
+ * heading text (repeated headings by their order). Changes come in the order
+ * the sections appear in `after`, followed by removed sections.
+ */
+export function summarizeSectionChanges(before: string, after: string): SectionChange[] {
+  const keyed = (text: string) => {
+    const seen = new Map<string, number>();
+    return splitSections(text).map(section => {
+      const heading = /^#{1,6}\s+(.*)/.exec(section)?.[1].trim() ?? '';
+      const occurrence = seen.get(heading) ?? 0;
+      seen.set(heading, occurrence + 1);
+      // Line endings alone do not make a section edited
+      return { key: `${occurrence}:${heading}`, heading, body: section.replace(/\r\n/g, '\n').trim() };
+    }).filter(section => section.body !== '');
+  };
+  const beforeSections = keyed(before);
+  const afterSections = keyed(after);
+  const beforeByKey = new Map(beforeSections.map(section => [section.key, section]));
+  const afterKeys = new Set(afterSections.map(section => section.key));
+
+  const changes: SectionChange[] = [];
+  for (const section of afterSections) {
+    const previous = beforeByKey.get(section.key);
+    if (!previous) {
+      changes.push({ heading: section.heading, type: 'added' });
+    } else if (previous.body !== section.body) {
+      changes.push({ heading: section.heading, type: 'modified' });
+    }
+  }
+  for (const section of beforeSections) {
+    if (!afterKeys.has(section.key)) {
+      changes.push({ heading: section.heading, type: 'removed' });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Count inserted and deleted lines, words or sections; whitespace runs are
+ * not counted as words
+ */
+export function summarizeDiff(ops: DiffOp<string>[]): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0 };
+  for (const op of ops) {
+    if (op.type === 'equal') continue;
+    const count = op.items.filter(item => item.trim() !== '').length;
+    if (op.type === 'insert') summary.added += count;
+    else summary.removed += count;
+  }
+  return summary;
+}
+
+export interface DiffRow {
+  type: 'equal' | 'insert' | 'delete' | 'change';
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * Pair up the items of a line or section diff for side-by-side display.
+ * A deletion followed by an insertion becomes a run of 'change' rows.
+ */
+export function pairRows(ops: DiffOp<string>[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  for (let i = 0; i < ops.length; i++) {
+    const op = ops[i];
+    if (op.type === 'equal') {
+      op.items.forEach(item => rows.push({ type: 'equal', before: item, after: item }));
+    } else if (op.type === 'delete' && ops[i + 1]?.type === 'insert') {
+      const inserted = ops[++i].items;
+      for (let j = 0; j < Math.max(op.items.length, inserted.length); j++) {
+        const before = op.items[j] ?? null;
+        const after = inserted[j] ?? null;
+        rows.push({ type: before === null ? 'insert' : after === null ? 'delete' : 'change', before, after });
+      }
+    } else if (op.type === 'delete') {
+      op.items.forEach(item => rows.push({ type: 'delete', before: item, after: null }));
+    } else {
+      op.items.forEach(item => rows.push({ type: 'insert', before: null, after: item }));
+    }
+  }
+  return rows;
+}
+
+function push<T>(ops: DiffOp<T>[], type: DiffOpType, items: T[]) {
+  if (items.length === 0) return;
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) {
+    last.items.push(...items);
+  } else {
+    ops.push({ type, items: [...items] });
+  }
+}
+
+function myers<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): DiffOp<T>[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 && m === 0) return [];
+  if (n === 0) return [{ type: 'insert', items: b }];
+  if (m === 0) return [{ type: 'delete', items: a }];
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    // Only diagonals -d..d can be read when backtracking from round d
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [{ type: 'delete', items: a }, { type: 'insert', items: b }];
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const reversed: Array<{ type: DiffOpType; item: T }> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[d + k - 1] < vd[d + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : vd[d + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', item: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: 'insert', item: b[y - 1] });
+      } else {
+        reversed.push({ type: 'delete', item: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  const ops: DiffOp<T>[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    push(ops, reversed[i].type, [reversed[i].item]);
+  }
+  return ops;
+}
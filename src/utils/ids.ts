@@ -0,0 +1,32 @@
+/**
+ * ID Generation Utilities
+ * Shared generators for document, version, trash entry and variable set identifiers
+ */
+
+/**
+ * Generate a unique document ID
+ */
+export function generateDocumentId(): string {
+  return `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Generate a unique version ID
+ */
+export function generateVersionId(): string {
+  return `ver_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Generate a unique trash entry ID
+ */
+export function generateTrashId(): string {
+  return `trash_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Generate a unique variable set ID
+ */
+export function generateVariableSetId(): string {
+  return `vars_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
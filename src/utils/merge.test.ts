@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { joinMerge, mergeText } from './merge';
+
+const base = 'one\ntwo\nthree\nfour\nfive\n';
+
+describe('mergeText', () => {
+  it('combines changes to different lines', () => {
+    const result = mergeText(base, 'ONE\ntwo\nthree\nfour\nfive\n', 'one\ntwo\nthree\nfour\nFIVE\n');
+
+    expect(result.conflictCount).toBe(0);
+    expect(joinMerge(result.hunks)).toBe('ONE\ntwo\nthree\nfour\nFIVE\n');
+  });
+
+  it('takes a change made on one side only', () => {
+    const result = mergeText(base, base, 'one\ntwo\n2.5\nthree\nfour\nfive\n');
+
+    expect(result.conflictCount).toBe(0);
+    expect(joinMerge(result.hunks)).toBe('one\ntwo\n2.5\nthree\nfour\nfive\n');
+  });
+
+  it('does not conflict when both sides made the same change', () => {
+    const changed = 'one\nTWO\nthree\nfour\nfive\n';
+
+    const result = mergeText(base, changed, changed);
+
+    expect(result.conflictCount).toBe(0);
+    expect(joinMerge(result.hunks)).toBe(changed);
+  });
+
+  it('reports changes to the same lines as a conflict', () => {
+    const result = mergeText(base, 'one\nours\nthree\nfour\nfive\n', 'one\ntheirs\nthree\nfour\nfive\n');
+
+    expect(result.conflictCount).toBe(1);
+    expect(result.hunks).toContainEqual({ type: 'conflict', base: ['two\n'], ours: ['ours\n'], theirs: ['theirs\n'] });
+    expect(joinMerge(result.hunks)).toBe(
+      'one\n<<<<<<< ours\nours\n=======\ntheirs\n>>>>>>> theirs\nthree\nfour\nfive\n'
+    );
+  });
+
+  it('writes resolved conflicts in place', () => {
+    const result = mergeText(base, 'one\nours\nthree\nfour\nfive\n', 'one\ntheirs\nthree\nfour\nfive\n');
+    const index = result.hunks.findIndex(hunk => hunk.type === 'conflict');
+
+    expect(joinMerge(result.hunks, { [index]: 'both\n' })).toBe('one\nboth\nthree\nfour\nfive\n');
+  });
+
+  it('keeps lines appended to text without a final newline apart', () => {
+    const result = mergeText('a\nb', 'a\nb\nours', 'a\nb');
+
+    expect(result.conflictCount).toBe(0);
+    expect(joinMerge(result.hunks)).toBe('a\nb\nours');
+  });
+});
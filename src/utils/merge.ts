@@ -0,0 +1,168 @@
+/**
+ * Three-Way Merge
+ * Line-based diff3: changes each side made to a common ancestor are combined,
+ * and changes to the same lines are reported as conflicts
+ */
+
+import { diffSequences, splitLines } from './diff';
+
+export type MergeHunk =
+  | { type: 'clean'; lines: string[] }
+  | { type: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+export interface MergeResult {
+  hunks: MergeHunk[];
+  conflictCount: number;
+}
+
+// Replacement of base lines [start, end) by `lines`; start === end is a pure insertion
+interface Change {
+  start: number;
+  end: number;
+  lines: string[];
+  side: 'ours' | 'theirs';
+}
+
+/**
+ * Merge `ours` and `theirs`, both derived from `base`
+ */
+export function mergeText(base: string, ours: string, theirs: string): MergeResult {
+  // A missing final newline would glue an appended line onto the last one
+  const baseLines = splitLines(withFinalNewline(base));
+  const oursLines = splitLines(withFinalNewline(ours));
+  const theirsLines = splitLines(withFinalNewline(theirs));
+
+  const changes = [
+    ...findChanges(baseLines, oursLines, 'ours'),
+    ...findChanges(baseLines, theirsLines, 'theirs'),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const hunks: MergeHunk[] = [];
+  let conflictCount = 0;
+  let position = 0;
+  let i = 0;
+
+  while (i < changes.length) {
+    // Group changes that touch the same base lines
+    const group = [changes[i]];
+    let start = changes[i].start;
+    let end = changes[i].end;
+    i++;
+    while (i < changes.length && (changes[i].start < end || (changes[i].start === end && start === end))) {
+      group.push(changes[i]);
+      start = Math.min(start, changes[i].start);
+      end = Math.max(end, changes[i].end);
+      i++;
+    }
+
+    pushClean(hunks, baseLines.slice(position, start));
+    position = end;
+
+    const oursChanges = group.filter(c => c.side === 'ours');
+    const theirsChanges = group.filter(c => c.side === 'theirs');
+    const oursResult = applyChanges(baseLines, start, end, oursChanges);
+    const theirsResult = applyChanges(baseLines, start, end, theirsChanges);
+
+    if (theirsChanges.length === 0 || sameLines(oursResult, theirsResult)) {
+      pushClean(hunks, oursResult);
+    } else if (oursChanges.length === 0) {
+      pushClean(hunks, theirsResult);
+    } else {
+      hunks.push({ type: 'conflict', base: baseLines.slice(start, end), ours: oursResult, theirs: theirsResult });
+      conflictCount++;
+    }
+  }
+  pushClean(hunks, baseLines.slice(position));
+
+  // Only keep the added final newline if one of the sides had it
+  if (!ours.endsWith('\n') && !theirs.endsWith('\n')) {
+    stripFinalNewline(hunks);
+  }
+
+  return { hunks, conflictCount };
+}
+
+/**
+ * Join merged hunks into text, using `resolutions` (by hunk index) for conflicts.
+ * Unresolved conflicts are written with conflict markers.
+ */
+export function joinMerge(hunks: MergeHunk[], resolutions: Record<number, string> = {}): string {
+  return hunks.map((hunk, index) => {
+    if (hunk.type === 'clean') return hunk.lines.join('');
+    if (resolutions[index] !== undefined) return resolutions[index];
+    return conflictMarkers(hunk);
+  }).join('');
+}
+
+/**
+ * Conflict text in the familiar <<<<<<< / ======= / >>>>>>> form, for manual editing
+ */
+export function conflictMarkers(hunk: Extract<MergeHunk, { type: 'conflict' }>): string {
+  return [
+    '<<<<<<< ours\n',
+    ...hunk.ours,
+    '=======\n',
+    ...hunk.theirs,
+    '>>>>>>> theirs\n',
+  ].join('');
+}
+
+function findChanges(base: string[], side: string[], name: Change['side']): Change[] {
+  const changes: Change[] = [];
+  let position = 0;
+  let current: Change | null = null;
+
+  for (const op of diffSequences(base, side)) {
+    if (op.type === 'equal') {
+      if (current) changes.push(current);
+      current = null;
+      position += op.items.length;
+      continue;
+    }
+    current ??= { start: position, end: position, lines: [], side: name };
+    if (op.type === 'delete') {
+      position += op.items.length;
+      current.end = position;
+    } else {
+      current.lines.push(...op.items);
+    }
+  }
+  if (current) changes.push(current);
+  return changes;
+}
+
+function applyChanges(base: string[], start: number, end: number, changes: Change[]): string[] {
+  const result: string[] = [];
+  let position = start;
+  for (const change of changes) {
+    result.push(...base.slice(position, change.start), ...change.lines);
+    position = change.end;
+  }
+  result.push(...base.slice(position, end));
+  return result;
+}
+
+function pushClean(hunks: MergeHunk[], lines: string[]) {
+  if (lines.length === 0) return;
+  const last = hunks[hunks.length - 1];
+  if (last?.type === 'clean') {
+    last.lines.push(...lines);
+  } else {
+    hunks.push({ type: 'clean', lines: [...lines] });
+  }
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function withFinalNewline(text: string): string {
+  return text === '' || text.endsWith('\n') ? text : `${text}\n`;
+}
+
+function stripFinalNewline(hunks: MergeHunk[]) {
+  const last = hunks[hunks.length - 1];
+  if (last?.type !== 'clean' || last.lines.length === 0) return;
+  const lastLine = last.lines[last.lines.length - 1];
+  last.lines[last.lines.length - 1] = lastLine.replace(/\n$/, '');
+}
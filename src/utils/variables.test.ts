@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkVariableSchema,
+  fillVariables,
+  findVariables,
+  resolveVariableValue,
+  splitVariables,
+  toTemplateValues,
+  validateVariableValue,
+} from './variables';
+import type { VariableDefinition } from '../types/editor';
+
+const declare = (name: string, type: VariableDefinition['type'], extra: Partial<VariableDefinition> = {}): VariableDefinition => ({
+  name,
+  type,
+  ...extra,
+});
+
+describe('findVariables', () => {
+  it('lists variables in order of first use, including those blocks test', () => {
+    expect(findVariables('Hi {{name}}, {{#if vip}}{{name}} {{#each items}}{{this.title}}{{/each}}{{/if}}')).toEqual([
+      'name',
+      'vip',
+      'items',
+    ]);
+  });
+
+  it('still finds tags one by one while the template does not parse', () => {
+    expect(findVariables('{{#if draft}}Hi {{ name }} and {{this}}')).toEqual(['draft', 'name']);
+  });
+});
+
+describe('splitVariables', () => {
+  it('splits text into literal runs and placeholders', () => {
+    expect(splitVariables('Dear {{ name }}, re {{topic}}.')).toEqual([
+      'Dear ',
+      { variable: 'name' },
+      ', re ',
+      { variable: 'topic' },
+      '.',
+    ]);
+    expect(splitVariables('no placeholders')).toEqual(['no placeholders']);
+    expect(splitVariables('')).toEqual([]);
+  });
+});
+
+describe('resolveVariableValue', () => {
+  it('takes the set\'s value, else the declared default, else nothing', () => {
+    const schema = [declare('tone', 'string', { defaultValue: 'friendly' })];
+
+    expect(resolveVariableValue('tone', { tone: 'formal' }, schema)).toBe('formal');
+    expect(resolveVariableValue('tone', { tone: '' }, schema)).toBe('friendly');
+    expect(resolveVariableValue('tone', {}, schema)).toBe('friendly');
+    expect(resolveVariableValue('other', {}, schema)).toBe('');
+    expect(resolveVariableValue('toString', {})).toBe('');
+  });
+});
+
+describe('fillVariables', () => {
+  it('fills values from a set and lists the variables left without one', () => {
+    const result = fillVariables('Dear {{name}}, re {{topic}}', { name: 'Ada' });
+
+    expect(result).toMatchObject({ text: 'Dear Ada, re {{topic}}', unfilled: ['topic'], error: null });
+  });
+
+  it('returns a template that does not parse as written, with its error', () => {
+    const result = fillVariables('Hi {{name}} {{#if x}}', { name: 'Ada' });
+
+    expect(result.text).toBe('Hi {{name}} {{#if x}}');
+    expect(result.error?.reason).toContain('never closed');
+  });
+});
+
+describe('validateVariableValue', () => {
+  it.each([
+    ['string', 'one line', null],
+    ['string', 'two\nlines', 'Must be a single line'],
+    ['multiline', 'two\nlines', null],
+    ['number', '42', null],
+    ['number', ' -1.5 ', null],
+    ['number', 'forty-two', 'Must be a number'],
+    ['number', ' ', 'Must be a number'],
+    ['number', 'Infinity', 'Must be a number'],
+    ['json', '{"a": [1, 2]}', null],
+    ['json', '"text"', null],
+    ['json', '{a: 1}', 'Must be valid JSON'],
+  ] as const)('checks a %s value %j', (type, value, message) => {
+    expect(validateVariableValue(declare('v', type), value)).toBe(message);
+  });
+
+  it('checks enum values against the options, if there are any', () => {
+    const tone = declare('tone', 'enum', { options: ['formal', 'friendly'] });
+
+    expect(validateVariableValue(tone, 'formal')).toBeNull();
+    expect(validateVariableValue(tone, 'Formal')).toBe('Must be one of formal, friendly');
+    expect(validateVariableValue(declare('tone', 'enum'), 'anything')).toBeNull();
+  });
+
+  it('only requires a value when the declaration says so', () => {
+    expect(validateVariableValue(declare('v', 'number'), '')).toBeNull();
+    expect(validateVariableValue(declare('v', 'number', { required: true }), '')).toBe('A value is required');
+  });
+});
+
+describe('toTemplateValues', () => {
+  it('parses numbers and JSON, and keeps values that do not parse as text', () => {
+    const schema = [
+      declare('count', 'number'),
+      declare('items', 'json'),
+      declare('broken', 'json'),
+      declare('size', 'number', { defaultValue: '3' }),
+      declare('label', 'string'),
+    ];
+
+    expect(toTemplateValues({ count: '2', items: '["a","b"]', broken: '[1,', label: '7', extra: 'x' }, schema)).toEqual({
+      count: 2,
+      items: ['a', 'b'],
+      broken: '[1,',
+      size: 3,
+      label: '7',
+      extra: 'x',
+    });
+    expect(toTemplateValues({ count: 'many' }, [declare('count', 'number')])).toEqual({ count: 'many' });
+  });
+
+  it('lets #each loop over a JSON list and #if test a number', () => {
+    const schema = [declare('items', 'json'), declare('count', 'number')];
+    const result = fillVariables('{{#if count}}{{count}}:{{/if}}{{#each items}} {{this.name}}{{/each}}', {
+      count: '0',
+      items: '[{"name":"a"},{"name":"b"}]',
+    }, schema);
+
+    expect(result.text).toBe(' a b');
+  });
+});
+
+describe('fillVariables with declarations', () => {
+  it('lists used variables whose values break their declaration', () => {
+    const schema = [
+      declare('count', 'number', { required: true }),
+      declare('tone', 'enum', { options: ['formal'] }),
+      declare('unused', 'number', { required: true }),
+    ];
+
+    const { invalid } = fillVariables('{{count}} {{tone}}', { tone: 'casual' }, schema);
+
+    expect(invalid).toEqual([
+      { variable: 'count', message: 'A value is required' },
+      { variable: 'tone', message: 'Must be one of formal' },
+    ]);
+  });
+});
+
+describe('checkVariableSchema', () => {
+  it('reports undeclared and unused variables once a prompt declares any', () => {
+    expect(checkVariableSchema(['name', 'topic'], [declare('name', 'string'), declare('old', 'string')])).toEqual([
+      { variable: 'topic', kind: 'undeclared' },
+      { variable: 'old', kind: 'unused' },
+    ]);
+    expect(checkVariableSchema(['name'])).toEqual([]);
+  });
+});
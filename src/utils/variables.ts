@@ -0,0 +1,166 @@
+/**
+ * Template Variables
+ * Finds the variables prompt content uses, fills them in with values through
+ * the template engine and checks those values against the document's declarations
+ */
+
+import type { VariableDefinition, VariableWarning } from '../types/editor';
+import { TemplateSyntaxError, listTemplateVariables, locateSyntaxError, renderTemplate } from '../services/template';
+import type { ExpansionSegment, TemplateValues } from '../services/template';
+
+// A placeholder such as {{customer_name}} or {{ order.id }}
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+// A placeholder or the name a block opens with, e.g. {{#if has_examples}}
+const VARIABLE_OR_BLOCK_PATTERN = /\{\{\s*(?:#(?:if|each)\s+)?([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+export type TemplatePart = string | { variable: string };
+
+// A value that does not satisfy its variable's declaration
+export interface VariableIssue {
+  variable: string;
+  message: string;
+}
+
+/**
+ * Names of the variables used in `content`, in order of first use.
+ * While the template does not parse, tags are still found one by one.
+ */
+export function findVariables(content: string): string[] {
+  try {
+    return listTemplateVariables(content);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+  }
+  const names = new Set<string>();
+  for (const match of content.matchAll(VARIABLE_OR_BLOCK_PATTERN)) {
+    if (match[1] !== 'this' && !match[1].startsWith('this.')) names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Split text into literal runs and variable placeholders
+ */
+export function splitVariables(text: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    if (match.index > last) parts.push(text.slice(last, match.index));
+    parts.push({ variable: match[1] });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+}
+
+/**
+ * The value a variable takes: its value in the set, else its declared default
+ */
+export function resolveVariableValue(
+  name: string,
+  values: Record<string, string>,
+  schema: VariableDefinition[] = []
+): string {
+  const value = Object.hasOwn(values, name) ? values[name] : '';
+  return value || schema.find(definition => definition.name === name)?.defaultValue || '';
+}
+
+/**
+ * Why a value does not fit its declaration, or null if it does
+ */
+export function validateVariableValue(definition: VariableDefinition, value: string): string | null {
+  if (!value) {
+    return definition.required ? 'A value is required' : null;
+  }
+  switch (definition.type) {
+    case 'string':
+      return value.includes('\n') ? 'Must be a single line' : null;
+    case 'number':
+      return value.trim() !== '' && Number.isFinite(Number(value)) ? null : 'Must be a number';
+    case 'enum':
+      return definition.options?.length && !definition.options.includes(value)
+        ? `Must be one of ${definition.options.join(', ')}`
+        : null;
+    case 'json':
+      try {
+        JSON.parse(value);
+        return null;
+      } catch {
+        return 'Must be valid JSON';
+      }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Values as the template engine takes them: numbers and JSON variables are
+ * parsed (when they parse) so #if and #each see numbers, lists and objects
+ */
+export function toTemplateValues(values: Record<string, string>, schema: VariableDefinition[] = []): TemplateValues {
+  const names = new Set([...Object.keys(values), ...schema.map(definition => definition.name)]);
+  const result: TemplateValues = {};
+  for (const name of names) {
+    const value = resolveVariableValue(name, values, schema);
+    const type = schema.find(definition => definition.name === name)?.type;
+    if (value && type === 'number' && Number.isFinite(Number(value))) {
+      result[name] = Number(value);
+    } else if (value && type === 'json') {
+      try {
+        result[name] = JSON.parse(value);
+      } catch {
+        result[name] = value;
+      }
+    } else {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Render `content` as a template with variable values (or declared defaults).
+ * Variables left without a value stay as `{{name}}` and are listed as unfilled;
+ * values that break their declaration are listed as invalid. A template that
+ * does not parse comes back unrendered with its syntax error; pass the segments
+ * of a partial expansion to have it located in the prompt or partial it is in.
+ */
+export function fillVariables(
+  content: string,
+  values: Record<string, string>,
+  schema: VariableDefinition[] = [],
+  segments: ExpansionSegment[] = []
+): { text: string; unfilled: string[]; invalid: VariableIssue[]; error: TemplateSyntaxError | null } {
+  let text = content;
+  let unfilled: string[] = [];
+  let error: TemplateSyntaxError | null = null;
+  try {
+    ({ text, unfilled } = renderTemplate(content, toTemplateValues(values, schema)));
+  } catch (err) {
+    if (!(err instanceof TemplateSyntaxError)) throw err;
+    error = locateSyntaxError(err, content, segments);
+  }
+
+  const used = findVariables(content);
+  const invalid: VariableIssue[] = [];
+  for (const definition of schema) {
+    if (!used.includes(definition.name)) continue;
+    const message = validateVariableValue(definition, resolveVariableValue(definition.name, values, schema));
+    if (message) invalid.push({ variable: definition.name, message });
+  }
+
+  return { text, unfilled, invalid, error };
+}
+
+/**
+ * Variables used without a declaration and declarations no longer used.
+ * A prompt that declares nothing has not opted into a schema, so it gets no warnings.
+ */
+export function checkVariableSchema(used: string[], schema: VariableDefinition[] = []): VariableWarning[] {
+  if (schema.length === 0) return [];
+  const declared = new Set(schema.map(definition => definition.name));
+  return [
+    ...used.filter(name => !declared.has(name)).map(variable => ({ variable, kind: 'undeclared' as const })),
+    ...schema.filter(definition => !used.includes(definition.name)).map(({ name }) => ({ variable: name, kind: 'unused' as const })),
+  ];
+}
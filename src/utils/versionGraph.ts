@@ -0,0 +1,99 @@
+/**
+ * Version Graph Layout
+ * Places a document's versions in rows (newest first) and lanes so that
+ * branches off the same parent sit side by side, like `git log --graph`
+ */
+
+import type { Version } from '../types/editor';
+
+export interface VersionGraphRow {
+  version: Version;
+  lane: number;
+  parentRow: number | null; // row of the parent version, null for roots
+  mergeParentRow: number | null; // row of the second parent of a merge
+}
+
+export interface VersionGraphLayout {
+  rows: VersionGraphRow[];
+  laneCount: number;
+}
+
+/**
+ * Lay out versions by parent link. A version whose parent is not in the list
+ * (never recorded, or deleted) starts a new root.
+ */
+export function layoutVersionGraph(versions: Version[]): VersionGraphLayout {
+  const ordered = [...versions].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+  const rowOf = new Map(ordered.map((version, index) => [version.id, index]));
+  // Each lane holds the ID of the version it is waiting to reach, or null when free
+  const lanes: Array<string | null> = [];
+  const rows: VersionGraphRow[] = [];
+
+  for (const version of ordered) {
+    let lane = lanes.indexOf(version.id);
+    if (lane === -1) {
+      lane = lanes.indexOf(null);
+      if (lane === -1) {
+        lane = lanes.length;
+        lanes.push(null);
+      }
+    }
+    // Other children of this version end here, freeing their lanes
+    for (let i = 0; i < lanes.length; i++) {
+      if (lanes[i] === version.id) lanes[i] = null;
+    }
+
+    // Only follow parents that come later in the list; anything else would loop back up
+    const parentRow = version.parentId !== undefined ? rowOf.get(version.parentId) ?? null : null;
+    const hasParent = parentRow !== null && parentRow > rows.length;
+    lanes[lane] = hasParent ? version.parentId! : null;
+    // Merged-in branches keep their own lane; the merge is drawn as an extra edge
+    const mergeParentRow = version.mergeParentId !== undefined ? rowOf.get(version.mergeParentId) ?? null : null;
+    rows.push({
+      version,
+      lane,
+      parentRow: hasParent ? parentRow : null,
+      mergeParentRow: mergeParentRow !== null && mergeParentRow > rows.length ? mergeParentRow : null,
+    });
+  }
+
+  return {
+    rows,
+    laneCount: Math.max(1, ...rows.map(row => row.lane + 1)),
+  };
+}
+
+/**
+ * Find the nearest version both given versions descend from, following
+ * merge parents too. Returns null when their histories never meet.
+ */
+export function findCommonAncestor(versions: Version[], aId: string, bId: string): Version | null {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const parentsOf = (id: string) => {
+    const version = byId.get(id);
+    return [version?.parentId, version?.mergeParentId].filter((p): p is string => p !== undefined && byId.has(p));
+  };
+
+  const ancestorsOfA = new Set<string>();
+  const stack = [aId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (ancestorsOfA.has(id)) continue;
+    ancestorsOfA.add(id);
+    stack.push(...parentsOf(id));
+  }
+
+  // Breadth-first from B so the closest shared ancestor wins
+  const queue = [bId];
+  const seen = new Set<string>();
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    if (ancestorsOfA.has(id)) return byId.get(id) ?? null;
+    queue.push(...parentsOf(id));
+  }
+  return null;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { moveLabel } from './versions';
+import { VersionStorageService } from '../services/storage';
+import { MemoryBackend } from '../services/backends';
+import type { DocumentState, Version } from '../types/editor';
+
+const version = (id: string, hour: number, extra: Partial<Version> = {}): Version => ({
+  id,
+  createdAt: `2024-06-10T${String(hour).padStart(2, '0')}:00:00.000Z`,
+  content: `${id}\n`,
+  summary: id,
+  ...extra,
+});
+
+const documentState = (versions: Version[]): DocumentState => ({
+  id: 'doc_labels',
+  content: 'draft\n',
+  versions,
+  updatedAt: '2024-06-10T12:00:00.000Z',
+});
+
+// Which versions hold a label
+const holders = (document: DocumentState, label: string) =>
+  document.versions.filter(v => v.labels?.includes(label)).map(v => v.id);
+
+describe('moveLabel', () => {
+  it('keeps a label on one version at a time as it moves between versions', () => {
+    let document = documentState([version('v3', 3), version('v2', 2), version('v1', 1)]);
+
+    document = moveLabel(document, 'production', 'v1');
+    expect(holders(document, 'production')).toEqual(['v1']);
+
+    document = moveLabel(document, 'production', 'v3');
+    expect(holders(document, 'production')).toEqual(['v3']);
+
+    document = moveLabel(document, 'production', 'v2');
+    expect(holders(document, 'production')).toEqual(['v2']);
+    expect(document.versions.find(v => v.id === 'v3')).not.toHaveProperty('labels');
+  });
+
+  it('leaves a version\'s other labels and other versions\' labels alone', () => {
+    const document = documentState([
+      version('v2', 2, { labels: ['staging'] }),
+      version('v1', 1, { labels: ['production', 'reviewed'] }),
+    ]);
+
+    const moved = moveLabel(document, 'production', 'v2');
+
+    expect(moved.versions.map(v => v.labels)).toEqual([['staging', 'production'], ['reviewed']]);
+  });
+
+  it('records each move and removal in the label history', () => {
+    let document = documentState([version('v2', 2), version('v1', 1, { name: 'Launch' })]);
+
+    document = moveLabel(document, 'production', 'v1');
+    document = moveLabel(document, 'production', 'v2');
+    document = moveLabel(document, 'production', null);
+
+    expect(holders(document, 'production')).toEqual([]);
+    expect(document.labelHistory?.map(change => [change.previousVersionId, change.versionId])).toEqual([
+      [null, 'v1'],
+      ['v1', 'v2'],
+      ['v2', null],
+    ]);
+    expect(document.labelHistory?.[1].previousVersionName).toBe('Launch');
+  });
+
+  it('changes nothing when the label is already where it is moved to', () => {
+    const document = documentState([version('v1', 1, { labels: ['production'] })]);
+
+    expect(moveLabel(document, 'production', 'v1')).toBe(document);
+    expect(moveLabel(documentState([version('v1', 1)]), 'production', null).labelHistory).toBeUndefined();
+  });
+
+  it('keeps a label unique in storage as it moves between stored versions', async () => {
+    const storage = new VersionStorageService(new MemoryBackend());
+    await storage.saveDocument(documentState([version('ver_l2', 2), version('ver_l1', 1)]));
+
+    await storage.moveVersionLabel('doc_labels', 'production', 'ver_l1');
+    await storage.moveVersionLabel('doc_labels', 'production', 'ver_l2');
+
+    const loaded = (await storage.loadDocument('doc_labels'))!;
+    expect(holders(loaded, 'production')).toEqual(['ver_l2']);
+    expect(loaded.labelHistory).toHaveLength(2);
+  });
+});
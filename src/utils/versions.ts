@@ -0,0 +1,235 @@
+/**
+ * Version Utilities
+ * Display labels and edits to a document's version history
+ */
+
+import type { DocumentState, LabelChange, Version } from '../types/editor';
+
+/**
+ * Label for a version: its user-given name, or one derived from its timestamp
+ */
+export function getVersionLabel(version: Version): string {
+  if (version.name) {
+    return version.name;
+  }
+
+  const date = new Date(version.createdAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+  return `${version.auto ? 'Snapshot' : 'Version'} ${date}`;
+}
+
+/**
+ * Label for a document: its name, or the end of its ID
+ */
+export function getDocumentLabel(document: Pick<DocumentState, 'id' | 'name'>): string {
+  return document.name ?? `Document ${document.id.slice(-8)}`;
+}
+
+/**
+ * Remove versions from a document. Versions based on (or merging) a removed
+ * one are re-pointed at its nearest surviving ancestor, and so is the document's base.
+ * Labels on removed versions are recorded as taken off.
+ */
+export function removeVersions(document: DocumentState, removedIds: Iterable<string>): DocumentState {
+  const survivor = survivorOf(document.versions, removedIds);
+  const changedAt = new Date().toISOString();
+  const labelChanges: LabelChange[] = document.versions
+    .filter(v => survivor(v.id) !== v.id)
+    .flatMap(v => (v.labels ?? []).map(label => ({
+      label,
+      versionId: null,
+      previousVersionId: v.id,
+      previousVersionName: getVersionLabel(v),
+      changedAt,
+    })));
+
+  return {
+    ...document,
+    versions: withoutVersions(document.versions, survivor),
+    baseVersionId: survivor(document.baseVersionId),
+    labelHistory: labelChanges.length > 0
+      ? [...(document.labelHistory ?? []), ...labelChanges]
+      : document.labelHistory,
+  };
+}
+
+/**
+ * Leave versions out of a list, re-pointing links the same way as removeVersions
+ */
+export function omitVersions(versions: Version[], removedIds: Iterable<string>): Version[] {
+  return withoutVersions(versions, survivorOf(versions, removedIds));
+}
+
+/**
+ * Give a document's versions new IDs, carrying the base version and label history along
+ */
+export function renameDocumentVersions(document: DocumentState, renames: Map<string, string>): DocumentState {
+  if (renames.size === 0) return document;
+  const rename = (id: string | null) => (id !== null ? renames.get(id) ?? id : null);
+  return {
+    ...document,
+    versions: renameVersions(document.versions, renames),
+    baseVersionId: document.baseVersionId && (renames.get(document.baseVersionId) ?? document.baseVersionId),
+    labelHistory: document.labelHistory?.map(change => ({
+      ...change,
+      versionId: rename(change.versionId),
+      previousVersionId: rename(change.previousVersionId),
+    })),
+  };
+}
+
+/**
+ * Tags and labels are compared case-insensitively and cannot contain spaces
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Replace a version's pin or tags
+ */
+export function updateVersion(
+  document: DocumentState,
+  versionId: string,
+  changes: Partial<Pick<Version, 'pinned' | 'tags'>>
+): DocumentState {
+  return {
+    ...document,
+    versions: document.versions.map(v => {
+      if (v.id !== versionId) return v;
+      const next: Version = { ...v, ...changes };
+      if (!next.pinned) delete next.pinned;
+      if (!next.tags?.length) delete next.tags;
+      return next;
+    }),
+  };
+}
+
+/**
+ * Put an exclusive label on a version, taking it off whichever version held it,
+ * or take it off the document when `versionId` is null. The move is added to the label history.
+ */
+export function moveLabel(document: DocumentState, label: string, versionId: string | null): DocumentState {
+  const holder = document.versions.find(v => v.labels?.includes(label));
+  const target = versionId !== null ? document.versions.find(v => v.id === versionId) : undefined;
+  if ((holder?.id ?? null) === (target?.id ?? null)) {
+    return document;
+  }
+
+  const versions = document.versions.map(v => {
+    if (v === holder) {
+      const next: Version = { ...v, labels: v.labels!.filter(l => l !== label) };
+      if (next.labels!.length === 0) delete next.labels;
+      return next;
+    }
+    if (v === target) {
+      return { ...v, labels: [...(v.labels ?? []), label] };
+    }
+    return v;
+  });
+
+  const change: LabelChange = {
+    label,
+    versionId: target?.id ?? null,
+    previousVersionId: holder?.id ?? null,
+    changedAt: new Date().toISOString(),
+  };
+  if (target) change.versionName = getVersionLabel(target);
+  if (holder) change.previousVersionName = getVersionLabel(holder);
+
+  return {
+    ...document,
+    versions,
+    labelHistory: [...(document.labelHistory ?? []), change],
+  };
+}
+
+export type VersionListEntry =
+  | { type: 'version'; version: Version }
+  | { type: 'snapshots'; id: string; versions: Version[] };
+
+/**
+ * Group runs of consecutive automatic snapshots so history lists can collapse them
+ */
+export function groupAutoSnapshots(versions: Version[]): VersionListEntry[] {
+  const entries: VersionListEntry[] = [];
+  for (const version of versions) {
+    const last = entries[entries.length - 1];
+    if (!version.auto) {
+      entries.push({ type: 'version', version });
+    } else if (last?.type === 'snapshots') {
+      last.versions.push(version);
+    } else {
+      entries.push({ type: 'snapshots', id: version.id, versions: [version] });
+    }
+  }
+  return entries;
+}
+
+/**
+ * The version a version's changes are measured against: its parent, or for
+ * versions saved before parents were recorded, the next older version
+ */
+export function findPreviousVersion(versions: Version[], version: Version): Version | null {
+  if (version.parentId !== undefined) {
+    return versions.find(v => v.id === version.parentId) ?? null;
+  }
+  const older = versions
+    .filter(v => new Date(v.createdAt).getTime() < new Date(version.createdAt).getTime())
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  return older[0] ?? null;
+}
+
+/**
+ * Give versions new IDs, keeping parent links between them intact
+ */
+export function renameVersions(versions: Version[], renames: Map<string, string>): Version[] {
+  if (renames.size === 0) return versions;
+  return versions.map(v =>
+    relink(v, renames.get(v.id) ?? v.id, id => (id !== undefined ? renames.get(id) ?? id : undefined))
+  );
+}
+
+/**
+ * Map a version ID to itself, or to its nearest ancestor that is not being removed
+ */
+function survivorOf(versions: Version[], removedIds: Iterable<string>) {
+  const removed = new Set(removedIds);
+  const parents = new Map(versions.map(v => [v.id, v.parentId]));
+  return (id: string | undefined) => {
+    while (id !== undefined && removed.has(id)) {
+      id = parents.get(id);
+    }
+    return id;
+  };
+}
+
+function withoutVersions(versions: Version[], survivor: (id: string | undefined) => string | undefined): Version[] {
+  return versions
+    .filter(v => survivor(v.id) === v.id)
+    .map(v => relink(v, v.id, survivor));
+}
+
+/**
+ * Apply an ID and parent mapping to a version, returning it unchanged when nothing moved
+ */
+function relink(version: Version, id: string, mapParent: (id: string | undefined) => string | undefined): Version {
+  const parentId = mapParent(version.parentId);
+  let mergeParentId = mapParent(version.mergeParentId);
+  if (mergeParentId === parentId) {
+    // Both parents collapsed into one, so this is no longer a merge
+    mergeParentId = undefined;
+  }
+  if (id === version.id && parentId === version.parentId && mergeParentId === version.mergeParentId) {
+    return version;
+  }
+
+  const next: Version = { ...version, id, parentId, mergeParentId };
+  if (parentId === undefined) delete next.parentId;
+  if (mergeParentId === undefined) delete next.mergeParentId;
+  return next;
+}
@@ -0,0 +1,19 @@
+/**
+ * Token Counter Worker
+ * Counts tokens off the main thread, so typing in large prompts is not held up by the tokenizer
+ */
+
+import { countTokens } from '../services/tokenCounting';
+import type { TokenCountRequest, TokenCountResponse } from '../services/tokenizers';
+
+const respond = (response: TokenCountResponse) => self.postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<TokenCountRequest>) => {
+  const { id, tokenizer, content, selection } = event.data;
+  countTokens(tokenizer, content, selection)
+    .then(counts => respond({ id, counts }))
+    .catch(error => {
+      console.error('Failed to count tokens:', error);
+      respond({ id, error: error instanceof Error ? error.message : 'Failed to count tokens' });
+    });
+});
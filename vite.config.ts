@@ -5,4 +5,6 @@ import tailwindcss from '@tailwindcss/vite'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(),tailwindcss(),],
+  // Module workers, so the token counter can load each tokenizer vocabulary as its own chunk
+  worker: { format: 'es' },
 })